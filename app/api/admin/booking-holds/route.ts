@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidateTag } from 'next/cache';
+
+/**
+ * Admin Booking Holds API Route Handler
+ * GET: Lists bookings holding a seat while their attendee's email is verified (admin only)
+ * POST: Releases holds that expired unverified and offers their seats to the waitlist (admin only)
+ *       Meant to be called every few minutes by a cron job; bookings also release their event's holds
+ */
+
+import connectDB from '@/lib/mongodb';
+import Booking from '@/database/booking.model';
+import Event from '@/database/event.model';
+import { API_MESSAGES } from '@/lib/constants';
+import { isAdminRequest } from '@/lib/auth';
+import { releaseExpiredHolds } from '@/lib/waitlist';
+
+/**
+ * GET /api/admin/booking-holds
+ * @param req - NextRequest carrying the admin key header
+ * @returns NextResponse with the held bookings, soonest to expire first, or error message
+ */
+export async function GET(req: NextRequest) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const holds = await Booking.find({ status: 'pending_verification' })
+            .select('eventId email fullName ticketName verificationExpiresAt createdAt')
+            .populate('eventId', 'title slug')
+            .sort({ verificationExpiresAt: 1 })
+            .lean();
+
+        return NextResponse.json(
+            {
+                message: 'Booking holds fetched successfully',
+                holds
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error fetching booking holds:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to fetch booking holds',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/admin/booking-holds
+ * @param req - NextRequest carrying the admin key header
+ * @returns NextResponse with the number of released holds or error message
+ */
+export async function POST(req: NextRequest) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const released = await releaseExpiredHolds();
+
+        if (released.length > 0) {
+            // Refresh the seats left shown on each affected event page
+            const events = await Event.find({ _id: { $in: released.map((booking) => booking.eventId) } })
+                .select('slug')
+                .lean();
+            events.forEach((event) => revalidateTag(`event-${event.slug}`));
+        }
+
+        return NextResponse.json(
+            {
+                message: 'Expired booking holds released',
+                released: released.length
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error releasing booking holds:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to release booking holds',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Admin Migrations API Route Handler
+ * GET: Lists the available data migrations (admin only)
+ * POST: Runs a data migration by name (admin only)
+ */
+
+import connectDB from '@/lib/mongodb';
+import { API_MESSAGES } from '@/lib/constants';
+import { isAdminRequest } from '@/lib/auth';
+import { MIGRATIONS, runMigration } from '@/lib/migrations';
+
+/**
+ * GET /api/admin/migrations
+ * @param req - NextRequest carrying the admin key header
+ * @returns NextResponse with migration names and descriptions
+ */
+export async function GET(req: NextRequest) {
+    if (!isAdminRequest(req)) {
+        return NextResponse.json(
+            { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+            { status: 401 }
+        );
+    }
+
+    const migrations = Object.entries(MIGRATIONS).map(([name, migration]) => ({
+        name,
+        description: migration.description,
+    }));
+
+    return NextResponse.json({ migrations }, { status: 200 });
+}
+
+/**
+ * POST /api/admin/migrations
+ * Body: { "name": "event-instants" }
+ * @param req - NextRequest carrying the admin key header
+ * @returns NextResponse with the migration result or error message
+ */
+export async function POST(req: NextRequest) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        const body = await req.json().catch(() => ({}));
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+        if (!MIGRATIONS[name]) {
+            return NextResponse.json(
+                { message: `Unknown migration '${name}'`, available: Object.keys(MIGRATIONS) },
+                { status: 400 }
+            );
+        }
+
+        await connectDB();
+
+        const result = await runMigration(name);
+
+        revalidatePath('/');
+        revalidatePath('/events');
+
+        return NextResponse.json(
+            {
+                message: 'Migration completed',
+                result
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error running migration:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Migration failed',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
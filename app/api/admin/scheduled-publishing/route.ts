@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath, revalidateTag } from 'next/cache';
+
+/**
+ * Admin Scheduled Publishing API Route Handler
+ * GET: Lists events waiting for their scheduled publication time (admin only)
+ * POST: Releases events whose publication time has passed and refreshes cached listings (admin only)
+ *       Meant to be called every few minutes by a cron job
+ */
+
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import { API_MESSAGES } from '@/lib/constants';
+import { isAdminRequest } from '@/lib/auth';
+import { activeEventFilter } from '@/lib/event-filters';
+
+/**
+ * GET /api/admin/scheduled-publishing
+ * @param req - NextRequest carrying the admin key header
+ * @returns NextResponse with the scheduled events, soonest first, or error message
+ */
+export async function GET(req: NextRequest) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const events = await Event.find({
+            ...activeEventFilter(),
+            publishAt: { $gt: new Date() },
+        })
+            .select('title slug status publishAt')
+            .sort({ publishAt: 1 })
+            .lean();
+
+        return NextResponse.json(
+            {
+                message: 'Scheduled events fetched successfully',
+                events
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error fetching scheduled events:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to fetch scheduled events',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/admin/scheduled-publishing
+ * Listings hide scheduled events by comparing publishAt with the current time, so this only
+ * clears the schedule of released events and refreshes the pages that cached them as hidden
+ * Drafts keep their schedule until they are published
+ * @param req - NextRequest carrying the admin key header
+ * @returns NextResponse with the slugs of the released events or error message
+ */
+export async function POST(req: NextRequest) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const now = new Date();
+        const due = await Event.find({
+            ...activeEventFilter(),
+            status: 'published',
+            publishAt: { $lte: now },
+        })
+            .select('slug')
+            .lean();
+
+        if (due.length > 0) {
+            // Skips hooks on purpose: releasing an event is not an edit for the revision history
+            await Event.updateMany(
+                { _id: { $in: due.map((event) => event._id) }, publishAt: { $lte: now } },
+                { $set: { publishAt: null } }
+            );
+
+            due.forEach((event) => revalidateTag(`event-${event.slug}`));
+            revalidatePath('/');
+            revalidatePath('/events');
+
+            console.log(`📣 Released ${due.length} scheduled event(s)`);
+        }
+
+        return NextResponse.json(
+            {
+                message: 'Scheduled publishing completed',
+                released: due.map((event) => event.slug)
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error releasing scheduled events:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Scheduled publishing failed',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Booking Ticket API Route Handler
+ * GET: Downloads the ticket of a confirmed booking as a printable HTML page
+ *      The manage link's token is the only credential, as for every other booking change
+ */
+
+import connectDB from '@/lib/mongodb';
+import Booking from '@/database/booking.model';
+import { API_MESSAGES } from '@/lib/constants';
+import { verifyManageToken } from '@/lib/booking-tokens';
+import { formatDateRange, formatTime } from '@/lib/utils';
+import { DEFAULT_TIMEZONE } from '@/lib/timezone';
+
+interface RouteContext {
+    params: Promise<{
+        token: string;
+    }>;
+}
+
+// Escapes text for the ticket's HTML
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * GET /api/bookings/[token]/ticket
+ * @param req - NextRequest object
+ * @param context - Route context containing the manage token
+ * @returns Ticket HTML as a file download, or error message
+ */
+export async function GET(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        const { token } = await context.params;
+        const bookingId = verifyManageToken(token);
+
+        if (!bookingId) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.MANAGE_LINK_INVALID },
+                { status: 403 }
+            );
+        }
+
+        await connectDB();
+
+        const booking = await Booking.findById(bookingId)
+            .populate('eventId', 'title slug date time endDate timezone startsAt venue location');
+        const event = booking?.eventId as any;
+
+        if (!booking || !event) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.NOT_FOUND },
+                { status: 404 }
+            );
+        }
+
+        // Waitlisted, unverified and cancelled bookings have no ticket
+        if (booking.status !== 'confirmed') {
+            return NextResponse.json(
+                { message: 'Only confirmed bookings have a ticket' },
+                { status: 409 }
+            );
+        }
+
+        const timeZone = event.timezone || DEFAULT_TIMEZONE;
+        const details: [string, string][] = [
+            ['Attendee', booking.fullName],
+            ['Ticket', booking.ticketName || 'General admission'],
+            ['Date', formatDateRange(event.date, event.endDate, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })],
+            ['Time', formatTime(event.startsAt || event.time, { timeZone, showTimeZone: true })],
+            ['Venue', `${event.venue}, ${event.location}`],
+            ['Booking reference', booking._id.toString().toUpperCase()],
+        ];
+
+        const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Ticket: ${escapeHtml(event.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+.ticket { max-width: 32rem; border: 2px dashed #555; border-radius: 1rem; padding: 1.5rem; }
+h1 { font-size: 1.5rem; margin: 0 0 1rem; }
+dt { font-size: 0.75rem; text-transform: uppercase; color: #666; margin-top: 0.75rem; }
+dd { margin: 0; font-size: 1.05rem; }
+</style>
+</head>
+<body>
+<div class="ticket">
+<h1>${escapeHtml(event.title)}</h1>
+<dl>
+${details.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('\n')}
+</dl>
+</div>
+</body>
+</html>`;
+
+        console.log('🎫 Ticket downloaded for booking:', bookingId);
+
+        return new NextResponse(html, {
+            status: 200,
+            headers: {
+                'Content-Type': 'text/html; charset=utf-8',
+                'Content-Disposition': `attachment; filename="ticket-${event.slug}.html"`,
+                'Cache-Control': 'private, no-store',
+            },
+        });
+    } catch (error) {
+        console.error('❌ Error creating ticket:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to create ticket',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Event Clone API Route Handler
+ * POST: Creates a draft copy of an event on a new date
+ * The copy gets its own slug; bookings, promo codes and series membership are not copied
+ * Private events can only be copied with an invite token in ?invite=, or by an admin
+ */
+
+import connectDB from '@/lib/mongodb';
+import Event, { IEvent } from '@/database/event.model';
+import { API_MESSAGES } from '@/lib/constants';
+import { activeEventFilter } from '@/lib/event-filters';
+import { buildEventCopy } from '@/lib/event-clone';
+import { getEventSaveError } from '@/lib/event-form';
+import { isAdminRequest } from '@/lib/auth';
+import { canAccessEvent } from '@/lib/invites';
+
+interface RouteContext {
+    params: Promise<{
+        slug: string;
+    }>;
+}
+
+/**
+ * POST /api/events/[slug]/clone
+ * Body: { date, title?, time? }
+ * @param req - NextRequest with a JSON body giving the date of the copy
+ * @param context - Route context containing the slug of the event to copy
+ * @returns NextResponse with the new event or error message
+ */
+export async function POST(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        let body: Record<string, any>;
+        try {
+            body = await req.json();
+        } catch {
+            return NextResponse.json(
+                { message: 'Invalid JSON body' },
+                { status: 400 }
+            );
+        }
+
+        if (typeof body.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.date)) {
+            return NextResponse.json(
+                { message: 'A date for the copy is required, in YYYY-MM-DD format' },
+                { status: 400 }
+            );
+        }
+
+        const source = await Event.findOne({ slug: sanitizedSlug, ...activeEventFilter() }).lean<IEvent>();
+
+        if (!source) {
+            return NextResponse.json(
+                { message: `Event '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        if (!isAdminRequest(req) && !(await canAccessEvent(source, req.nextUrl.searchParams.get('invite')))) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.INVITE_REQUIRED },
+                { status: 403 }
+            );
+        }
+
+        try {
+            const event = await Event.create({
+                ...buildEventCopy(source, body.date),
+                ...(body.title ? { title: body.title } : {}),
+                ...(body.time ? { time: body.time } : {}),
+                status: 'draft',
+            });
+
+            revalidatePath('/events');
+
+            console.log('📋 Event cloned:', sanitizedSlug, '->', event.slug);
+
+            return NextResponse.json(
+                {
+                    message: API_MESSAGES.SUCCESS.EVENT_CLONED,
+                    event
+                },
+                { status: 201 }
+            );
+        } catch (dbError: any) {
+            const saveError = getEventSaveError(dbError);
+            if (saveError) {
+                return NextResponse.json(saveError.body, { status: saveError.status });
+            }
+
+            throw dbError;
+        }
+    } catch (error) {
+        console.error('❌ Error cloning event:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to clone event',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,252 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Event Invites API Route Handler
+ * GET: Lists an event's invite links (admin only)
+ * POST: Creates an invite link for a private event (admin only)
+ * DELETE: Revokes an invite link so it no longer opens the event (admin only)
+ */
+
+import { revalidateTag } from 'next/cache';
+import { Types } from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Event, { IEventInvite } from '@/database/event.model';
+import { API_MESSAGES } from '@/lib/constants';
+import { isAdminRequest } from '@/lib/auth';
+import { createInviteToken, getInviteUrl } from '@/lib/invites';
+
+interface RouteContext {
+    params: Promise<{
+        slug: string;
+    }>;
+}
+
+// Invite as returned by the API, with its shareable link
+function serializeInvite(eventId: Types.ObjectId, slug: string, invite: IEventInvite) {
+    return {
+        id: invite._id.toString(),
+        label: invite.label,
+        createdAt: invite.createdAt,
+        revokedAt: invite.revokedAt,
+        url: getInviteUrl(slug, createInviteToken(eventId, invite._id)),
+    };
+}
+
+/**
+ * GET /api/events/[slug]/invites
+ * @param req - NextRequest carrying the admin key header
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with the event's invites, newest first, or error message
+ */
+export async function GET(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        const event = await Event.findOne({ slug: sanitizedSlug }).select('slug visibility +invites');
+
+        if (!event) {
+            return NextResponse.json(
+                { message: `Event with slug '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const invites = [...event.invites]
+            .reverse()
+            .map((invite) => serializeInvite(event._id as Types.ObjectId, event.slug, invite));
+
+        return NextResponse.json(
+            {
+                message: 'Invites fetched successfully',
+                visibility: event.visibility,
+                invites
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error fetching invites:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to fetch invites',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/events/[slug]/invites
+ * Body: { label? }, e.g. the name of the person or group the link is sent to
+ * @param req - NextRequest carrying the admin key header and an optional JSON body
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with the created invite and its link or error message
+ */
+export async function POST(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        let body: Record<string, any> = {};
+        try {
+            body = await req.json();
+        } catch {
+            // The label is optional, so an empty body is fine
+        }
+
+        const event = await Event.findOne({ slug: sanitizedSlug }).select('slug visibility');
+
+        if (!event) {
+            return NextResponse.json(
+                { message: `Event with slug '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        if (event.visibility !== 'private') {
+            return NextResponse.json(
+                { message: 'Invite links are only needed for private events' },
+                { status: 400 }
+            );
+        }
+
+        // Sign the token before storing the invite so a missing secret leaves no unusable invite behind
+        const inviteId = new Types.ObjectId();
+        createInviteToken(event._id as Types.ObjectId, inviteId);
+
+        const updated = await Event.findOneAndUpdate(
+            { _id: event._id },
+            { $push: { invites: { _id: inviteId, label: body.label } } },
+            { new: true, runValidators: true }
+        ).select('slug +invites');
+
+        const invite = updated?.invites.find((existing: IEventInvite) => existing._id.equals(inviteId));
+
+        if (!updated || !invite) {
+            return NextResponse.json(
+                { message: `Event with slug '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        console.log(`✉️ Invite created for ${sanitizedSlug}`);
+
+        return NextResponse.json(
+            {
+                message: API_MESSAGES.SUCCESS.INVITE_CREATED,
+                invite: serializeInvite(updated._id as Types.ObjectId, updated.slug, invite)
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error('❌ Error creating invite:', error);
+
+        if (error.name === 'ValidationError') {
+            const errors = Object.values(error.errors).map((err: any) => err.message);
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.VALIDATION_ERROR, errors },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                message: 'Failed to create invite',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/events/[slug]/invites?inviteId=
+ * Revoked invites are kept for the record; their links stop working immediately
+ * @param req - NextRequest carrying the admin key header and the invite ID
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with success or error message
+ */
+export async function DELETE(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+        const inviteId = req.nextUrl.searchParams.get('inviteId');
+
+        if (!inviteId || !Types.ObjectId.isValid(inviteId)) {
+            return NextResponse.json(
+                { message: 'Valid invite ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const result = await Event.updateOne(
+            { slug: sanitizedSlug, invites: { $elemMatch: { _id: inviteId, revokedAt: null } } },
+            { $set: { 'invites.$.revokedAt': new Date() } }
+        );
+
+        if (result.matchedCount === 0) {
+            return NextResponse.json(
+                { message: 'Active invite not found for this event' },
+                { status: 404 }
+            );
+        }
+
+        // Drop the cached event page so the revoked link stops working right away
+        revalidateTag(`event-${sanitizedSlug}`);
+
+        console.log(`🚫 Invite ${inviteId} revoked for ${sanitizedSlug}`);
+
+        return NextResponse.json(
+            { message: API_MESSAGES.SUCCESS.INVITE_REVOKED },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error revoking invite:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to revoke invite',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
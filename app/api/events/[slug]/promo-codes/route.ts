@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Event Promo Codes API Route Handler
+ * GET: Lists an event's promo codes with their usage (admin only)
+ * POST: Creates a promo code, or a batch of generated single-use codes (admin only)
+ */
+
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import PromoCode from '@/database/promo-code.model';
+import { API_MESSAGES, EVENT_CONSTANTS } from '@/lib/constants';
+import { isAdminRequest } from '@/lib/auth';
+import { generatePromoCode } from '@/lib/promo-codes';
+import { TicketType } from '@/lib/tickets';
+
+interface RouteContext {
+    params: Promise<{
+        slug: string;
+    }>;
+}
+
+/**
+ * GET /api/events/[slug]/promo-codes
+ * @param req - NextRequest carrying the admin key header
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with the event's promo codes or error message
+ */
+export async function GET(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        const event = await Event.findOne({ slug: sanitizedSlug }).select('_id');
+
+        if (!event) {
+            return NextResponse.json(
+                { message: `Event with slug '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const promoCodes = await PromoCode.find({ eventId: event._id }).sort({ createdAt: -1 });
+
+        return NextResponse.json(
+            {
+                message: 'Promo codes fetched successfully',
+                promoCodes
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error fetching promo codes:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to fetch promo codes',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/events/[slug]/promo-codes
+ * Body: { code?, discountType, amount, maxRedemptions?, expiresAt?, ticketTypeIds?, note? }
+ * With { count, prefix } instead of a code, generates that many single-use codes,
+ * e.g. one per speaker or sponsor
+ * @param req - NextRequest carrying the admin key header and a JSON body
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with the created promo codes or error message
+ */
+export async function POST(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        let body: Record<string, any>;
+        try {
+            body = await req.json();
+        } catch {
+            return NextResponse.json(
+                { message: 'Invalid JSON body' },
+                { status: 400 }
+            );
+        }
+
+        const event = await Event.findOne({ slug: sanitizedSlug });
+
+        if (!event) {
+            return NextResponse.json(
+                { message: `Event with slug '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        // Ticket restrictions must name ticket types of this event
+        const ticketTypeIds: string[] = Array.isArray(body.ticketTypeIds) ? body.ticketTypeIds : [];
+        const unknownTicketType = ticketTypeIds.find(
+            (id) => !event.ticketTypes.some((ticket: TicketType) => ticket._id?.toString() === id)
+        );
+        if (unknownTicketType) {
+            return NextResponse.json(
+                { message: `Ticket type '${unknownTicketType}' does not belong to this event` },
+                { status: 400 }
+            );
+        }
+
+        const fields = {
+            eventId: event._id,
+            discountType: body.discountType,
+            amount: body.amount,
+            maxRedemptions: body.maxRedemptions,
+            expiresAt: body.expiresAt,
+            ticketTypeIds,
+            note: body.note,
+        };
+
+        let promoCodes;
+
+        if (body.count !== undefined) {
+            const count = Number(body.count);
+            if (!Number.isInteger(count) || count < 1 || count > EVENT_CONSTANTS.MAX_GENERATED_PROMO_CODES) {
+                return NextResponse.json(
+                    { message: `Count must be between 1 and ${EVENT_CONSTANTS.MAX_GENERATED_PROMO_CODES}` },
+                    { status: 400 }
+                );
+            }
+
+            // Generated codes are single use; a set avoids repeats within the batch
+            const codes = new Set<string>();
+            while (codes.size < count) {
+                codes.add(generatePromoCode(body.prefix || 'PROMO'));
+            }
+
+            promoCodes = await PromoCode.insertMany(
+                Array.from(codes, (code) => ({ ...fields, code, maxRedemptions: 1 }))
+            );
+        } else {
+            promoCodes = [await PromoCode.create({ ...fields, code: body.code })];
+        }
+
+        console.log(`🏷️ ${promoCodes.length} promo code(s) created for ${sanitizedSlug}`);
+
+        return NextResponse.json(
+            {
+                message: API_MESSAGES.SUCCESS.PROMO_CODES_CREATED,
+                promoCodes
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error('❌ Error creating promo codes:', error);
+
+        if (error.code === 11000) {
+            return NextResponse.json(
+                { message: 'A promo code with this code already exists for this event' },
+                { status: 409 }
+            );
+        }
+
+        if (error.name === 'ValidationError') {
+            const errors = Object.values(error.errors).map((err: any) => err.message);
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.VALIDATION_ERROR, errors },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                message: 'Failed to create promo codes',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
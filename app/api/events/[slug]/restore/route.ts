@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath, revalidateTag } from 'next/cache';
+
+/**
+ * Event Restore API Route Handler
+ * POST: Brings a soft-deleted event back into listings (admin only)
+ * Bookings cancelled by the deletion stay cancelled; attendees must register again
+ */
+
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import { API_MESSAGES } from '@/lib/constants';
+import { isAdminRequest } from '@/lib/auth';
+
+interface RouteContext {
+    params: Promise<{
+        slug: string;
+    }>;
+}
+
+/**
+ * POST /api/events/[slug]/restore
+ * Clears deletedAt on a soft-deleted event
+ * @param req - NextRequest carrying the admin key header
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with the restored event or error message
+ */
+export async function POST(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        const event = await Event.findOneAndUpdate(
+            { slug: sanitizedSlug, deletedAt: { $ne: null } },
+            { deletedAt: null },
+            { new: true }
+        );
+
+        if (!event) {
+            return NextResponse.json(
+                { message: `No deleted event found for '${sanitizedSlug}'` },
+                { status: 404 }
+            );
+        }
+
+        revalidateTag(`event-${sanitizedSlug}`);
+        revalidatePath('/');
+        revalidatePath('/events');
+
+        return NextResponse.json(
+            {
+                message: API_MESSAGES.SUCCESS.EVENT_RESTORED,
+                event
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error restoring event:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to restore event',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath, revalidateTag } from 'next/cache';
+
+/**
+ * Event Revert API Route Handler
+ * POST: Restores the fields of an event to how they were after an earlier revision (admin only)
+ * The revert is saved as a new revision, so it can itself be undone
+ */
+
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import EventRevision from '@/database/event-revision.model';
+import { API_MESSAGES } from '@/lib/constants';
+import { activeEventFilter } from '@/lib/event-filters';
+import { getRevertValues } from '@/lib/revisions';
+import { applyEventVenue } from '@/lib/venues';
+import { getEventSaveError } from '@/lib/event-form';
+import { isAdminRequest } from '@/lib/auth';
+
+interface RouteContext {
+    params: Promise<{
+        slug: string;
+    }>;
+}
+
+/**
+ * POST /api/events/[slug]/revert
+ * Body: { revision, changedBy? }
+ * @param req - NextRequest carrying the admin key header, with a JSON body naming the revision to go back to
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with the reverted event or error message
+ */
+export async function POST(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.SIGN_IN_REQUIRED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        let body: Record<string, any>;
+        try {
+            body = await req.json();
+        } catch {
+            return NextResponse.json(
+                { message: 'Invalid JSON body' },
+                { status: 400 }
+            );
+        }
+
+        const revision = Number(body.revision);
+        if (!Number.isInteger(revision) || revision < 1) {
+            return NextResponse.json(
+                { message: 'A valid revision number is required' },
+                { status: 400 }
+            );
+        }
+
+        const event = await Event.findOne({ slug: sanitizedSlug, ...activeEventFilter() });
+
+        if (!event) {
+            return NextResponse.json(
+                { message: `Event '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        if (!(await EventRevision.exists({ eventId: event._id, revision }))) {
+            return NextResponse.json(
+                { message: `Revision ${revision} not found` },
+                { status: 404 }
+            );
+        }
+
+        const laterRevisions = await EventRevision.find({ eventId: event._id, revision: { $gt: revision } });
+        if (laterRevisions.length === 0) {
+            return NextResponse.json(
+                { message: 'The event is already at this revision' },
+                { status: 400 }
+            );
+        }
+
+        // Fields that were not set at the time are cleared again; lists become empty
+        const values = getRevertValues(laterRevisions);
+        for (const [field, value] of Object.entries(values)) {
+            if (value === null) {
+                values[field] = Array.isArray(event.get(field)) ? [] : undefined;
+            }
+        }
+
+        // A saved venue brings back its current details and coordinates
+        const venueError = await applyEventVenue(values, (values.mode as string) || event.mode);
+        if (venueError) {
+            return NextResponse.json(
+                { message: venueError },
+                { status: 400 }
+            );
+        }
+
+        try {
+            event.set(values);
+            event.$locals.changedBy = typeof body.changedBy === 'string' ? body.changedBy.trim() || undefined : undefined;
+            event.$locals.revertedTo = revision;
+            await event.save();
+        } catch (dbError: any) {
+            // The old values may no longer be valid, e.g. a date now in the past
+            const saveError = getEventSaveError(dbError);
+            if (saveError) {
+                return NextResponse.json(saveError.body, { status: saveError.status });
+            }
+
+            throw dbError;
+        }
+
+        revalidateTag(`event-${sanitizedSlug}`);
+        revalidateTag(`event-${event.slug}`);
+        revalidatePath('/events');
+
+        console.log('⏪ Event reverted:', event.slug, `to revision ${revision}`);
+
+        return NextResponse.json(
+            {
+                message: API_MESSAGES.SUCCESS.EVENT_REVERTED,
+                event
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error reverting event:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to revert event',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
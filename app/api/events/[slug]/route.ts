@@ -4,10 +4,31 @@ import { NextRequest, NextResponse } from 'next/server';
  * Dynamic Event API Route Handler
  * Handles operations for specific events identified by slug
  * GET: Fetch single event by slug with comprehensive error handling
+ * PATCH: Update an existing event, re-running schema validation (admin only)
+ *        Series occurrences accept a scope of this, following or all occurrences
+ * DELETE: Soft-delete or purge an event and cancel its bookings (admin only)
  */
 
+import { revalidatePath, revalidateTag } from 'next/cache';
+import { Types } from 'mongoose';
 import connectDB from '@/lib/mongodb';
 import Event from '@/database/event.model';
+import Booking from '@/database/booking.model';
+import EventSeries from '@/database/series.model';
+import { API_MESSAGES, EVENT_STATUS_TRANSITIONS, EventVisibility } from '@/lib/constants';
+import { deleteImage, uploadImage, validateCloudinaryConfig } from '@/lib/cloudinary';
+import { EDITABLE_EVENT_FIELDS, getEventSaveError, parseEventFormData, validateEventImage } from '@/lib/event-form';
+import { activeEventFilter } from '@/lib/event-filters';
+import { isAdminRequest } from '@/lib/auth';
+import { canAccessEvent } from '@/lib/invites';
+import { findOrCreateOrganization } from '@/lib/organizations';
+import { applyEventVenue } from '@/lib/venues';
+import { addCalendarDays, calendarDaysBetween } from '@/lib/timezone';
+import type { AgendaSession } from '@/lib/agenda';
+import { TicketType, getVisibleTicketTypes } from '@/lib/tickets';
+import type { RegistrationQuestion } from '@/lib/registration-questions';
+import { GalleryImage, getEventImageUrls } from '@/lib/gallery';
+import { releasePromoCode } from '@/lib/promo-codes';
 
 // Define route parameters type for TypeScript
 interface RouteContext {
@@ -16,26 +37,63 @@ interface RouteContext {
     }>;
 }
 
+// Which occurrences of a series an edit applies to
+type EditScope = 'this' | 'following' | 'all';
+
 // Define a simple interface for the event data
 interface EventData {
     _id: string;
     title: string;
     slug: string;
+    slugHistory: string[];
     description: string;
     overview: string;
     image: string;
+    gallery: GalleryImage[];
     venue: string;
     location: string;
     date: string;
     time: string;
+    endDate?: string;
+    endTime?: string;
+    timezone?: string;
+    startsAt?: string;
+    endsAt?: string;
     mode: string;
     audience: string;
     organizer: string;
+    organization?: {
+        _id: string;
+        name: string;
+        slug: string;
+        logo?: string;
+    } | null;
     tags: string[];
-    agenda: string[];
+    agenda: AgendaSession[];
+    speakers: {
+        _id: string;
+        name: string;
+        slug: string;
+        photo?: string;
+        affiliation?: string;
+        bio?: string;
+    }[];
+    ticketTypes: (TicketType & { remaining?: number | null })[];
+    registrationQuestions: RegistrationQuestion[];
     price?: number;
     capacity?: number;
+    seatsTaken?: number;
+    ticketsSold?: Record<string, number>;
+    spotsRemaining?: number | null;
     registrationUrl?: string;
+    visibility?: EventVisibility;
+    series?: {
+        _id: string;
+        title: string;
+        slug: string;
+        rrule: string;
+    } | null;
+    deletedAt?: string | null;
     createdAt: string;
     updatedAt: string;
     __v: number;
@@ -44,6 +102,8 @@ interface EventData {
 /**
  * GET /api/events/[slug]
  * Fetches a single event by its slug with comprehensive error handling
+ * Hidden ticket types are left out unless requested by ID with ?ticket=
+ * Private events require an invite token with ?invite=
  * @param req - NextRequest object
  * @param context - Route context containing the event slug
  * @returns NextResponse with event data or error message
@@ -72,10 +132,34 @@ export async function GET(
         console.log('🔍 Fetching event with slug:', sanitizedSlug);
 
         // Query event by slug with lean for better performance
-        const event = await Event.findOne({ slug: sanitizedSlug }).lean() as EventData | null;
+        const event = await Event.findOne({
+            slug: sanitizedSlug,
+            ...activeEventFilter(),
+        })
+            .populate('series', 'title slug rrule')
+            .populate('speakers', 'name slug photo affiliation bio')
+            .populate('organization', 'name slug logo')
+            .lean() as EventData | null;
 
         // Handle event not found
         if (!event) {
+            // Permanently redirect slugs that were replaced by a title change
+            const renamedEvent = await Event.findOne({
+                slugHistory: sanitizedSlug,
+                ...activeEventFilter(),
+            })
+                .select('slug')
+                .lean() as Pick<EventData, 'slug'> | null;
+
+            if (renamedEvent) {
+                console.log('↪️ Redirecting old slug:', sanitizedSlug, '->', renamedEvent.slug);
+                // Keep the query so ticket and invite links survive the redirect
+                return NextResponse.redirect(
+                    new URL(`/api/events/${renamedEvent.slug}${req.nextUrl.search}`, req.url),
+                    301
+                );
+            }
+
             console.log('❌ Event not found for slug:', sanitizedSlug);
             return NextResponse.json(
                 { message: `Event '${sanitizedSlug}' not found` },
@@ -83,8 +167,34 @@ export async function GET(
             );
         }
 
+        if (!(await canAccessEvent(event, req.nextUrl.searchParams.get('invite')))) {
+            console.log('🔒 Invite required for private event:', sanitizedSlug);
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.INVITE_REQUIRED },
+                { status: 403 }
+            );
+        }
+
         console.log('✅ Event found:', event.title);
 
+        // Offer public ticket types (and a hidden one reached by its link) with the tickets left
+        const ticketTypes = getVisibleTicketTypes(event.ticketTypes, req.nextUrl.searchParams.get('ticket'));
+        if (ticketTypes.length > 0) {
+            event.ticketTypes = ticketTypes.map((ticket) => ({
+                ...ticket,
+                remaining: ticket.quantity
+                    ? Math.max(0, ticket.quantity - (event.ticketsSold?.[ticket._id!.toString()] || 0))
+                    : null,
+            }));
+        } else {
+            event.ticketTypes = [];
+        }
+
+        // Seats left before new bookings go on the waitlist
+        event.spotsRemaining = event.capacity
+            ? Math.max(0, event.capacity - (event.seatsTaken || 0))
+            : null;
+
         // Return successful response
         return NextResponse.json(
             {
@@ -124,4 +234,380 @@ export async function GET(
             { status: 500 }
         );
     }
-}
\ No newline at end of file
+}
+
+/**
+ * PATCH /api/events/[slug]
+ * Updates an existing event from multipart form data
+ * Only fields that are sent are changed; a new image replaces the current one
+ * For series occurrences, scope=following|all copies the changes (except the date) to sibling occurrences
+ * Admin only: organizers signed in on the site, or API clients sending the admin key
+ * @param req - NextRequest containing the updated event fields
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with the updated event or error message
+ */
+export async function PATCH(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.SIGN_IN_REQUIRED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+
+        if (!slug || typeof slug !== 'string' || slug.trim() === '') {
+            return NextResponse.json(
+                { message: 'Valid event slug is required' },
+                { status: 400 }
+            );
+        }
+
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        const event = await Event.findOne({ slug: sanitizedSlug, ...activeEventFilter() });
+
+        if (!event) {
+            return NextResponse.json(
+                { message: `Event '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const formData = await req.formData();
+
+        // Parse form data into event updates
+        let eventData: Record<string, any>;
+
+        try {
+            eventData = parseEventFormData(formData);
+        } catch (parseError) {
+            console.error('Form data parsing error:', parseError);
+            return NextResponse.json(
+                { message: 'Invalid form data format' },
+                { status: 400 }
+            );
+        }
+
+        // Only apply fields organizers are allowed to edit
+        const updates: Record<string, any> = {};
+        for (const field of EDITABLE_EVENT_FIELDS) {
+            if (field in eventData) {
+                updates[field] = eventData[field];
+            }
+        }
+
+        // A picked venue overrides the venue text with the venue's details and coordinates
+        const venueError = await applyEventVenue(updates, updates.mode || event.mode);
+        if (venueError) {
+            return NextResponse.json(
+                { message: venueError },
+                { status: 400 }
+            );
+        }
+
+        // Replace the image only when a new file was uploaded
+        const imageFile = formData.get('image');
+
+        if (imageFile instanceof File && imageFile.size > 0) {
+            const imageError = validateEventImage(imageFile);
+            if (imageError) {
+                return NextResponse.json(
+                    { message: imageError },
+                    { status: 400 }
+                );
+            }
+
+            if (!validateCloudinaryConfig()) {
+                return NextResponse.json(
+                    { message: 'Cloud storage service is not properly configured' },
+                    { status: 500 }
+                );
+            }
+
+            try {
+                const uploadResult = await uploadImage(imageFile);
+                updates.image = uploadResult.secure_url;
+            } catch (uploadError) {
+                console.error('Image upload failed:', uploadError);
+                return NextResponse.json(
+                    {
+                        message: 'Failed to upload image to cloud storage',
+                        error: process.env.NODE_ENV === 'development' ? (uploadError as Error).message : undefined
+                    },
+                    { status: 500 }
+                );
+            }
+        }
+
+        // A gallery photo picked as the cover replaces the image, unless a new file was uploaded
+        const coverImage = formData.get('coverImage');
+        if (!updates.image && typeof coverImage === 'string' && coverImage && coverImage !== event.image) {
+            const gallery: GalleryImage[] = Array.isArray(updates.gallery) ? updates.gallery : event.gallery;
+            if (!gallery.some((photo) => photo.url === coverImage)) {
+                return NextResponse.json(
+                    { message: 'The cover image must be one of the gallery photos' },
+                    { status: 400 }
+                );
+            }
+            updates.image = coverImage;
+        }
+
+        // A changed organizer name may belong to a different organization
+        if (updates.organizer && updates.organizer !== event.organizer) {
+            const organization = await findOrCreateOrganization(updates.organizer);
+            if (organization) {
+                updates.organization = organization._id;
+                updates.organizer = organization.name;
+            }
+        }
+
+        const scope = (formData.get('scope') || 'this') as EditScope;
+        if (!['this', 'following', 'all'].includes(scope)) {
+            return NextResponse.json(
+                { message: 'Scope must be this, following, or all' },
+                { status: 400 }
+            );
+        }
+
+        // Name of the person making the change, for the revision history
+        const changedBy = (formData.get('changedBy') as string | null)?.trim() || undefined;
+
+        const originalDate = event.date;
+        let siblingsUpdated = 0;
+
+        // Saving the document re-runs schema validators and the slug hook
+        try {
+            event.set(updates);
+            event.$locals.changedBy = changedBy;
+            await event.save();
+
+            if (event.series && scope !== 'this') {
+                // Each occurrence keeps its own date and photos; a changed end date becomes a changed duration
+                const sharedUpdates = { ...updates };
+                delete sharedUpdates.date;
+                delete sharedUpdates.endDate;
+                delete sharedUpdates.gallery;
+                const durationDays = 'endDate' in updates
+                    ? (updates.endDate ? calendarDaysBetween(event.date, updates.endDate) : null)
+                    : undefined;
+
+                const siblings = await Event.find({
+                    series: event.series,
+                    _id: { $ne: event._id },
+                    ...activeEventFilter(),
+                    ...(scope === 'following' ? { date: { $gte: originalDate } } : {}),
+                });
+
+                for (const sibling of siblings) {
+                    const siblingUpdates = { ...sharedUpdates };
+                    if (durationDays !== undefined) {
+                        siblingUpdates.endDate = durationDays !== null ? addCalendarDays(sibling.date, durationDays) : '';
+                    }
+
+                    // Ticket types keep each occurrence's own IDs, matched by name, so its bookings still count
+                    if (Array.isArray(siblingUpdates.ticketTypes)) {
+                        siblingUpdates.ticketTypes = siblingUpdates.ticketTypes.map((ticket: TicketType) => {
+                            const existing = sibling.ticketTypes.find((current: TicketType) => current.name === ticket.name);
+                            return { ...ticket, _id: existing ? existing._id : new Types.ObjectId() };
+                        });
+                    }
+
+                    // Questions also keep each occurrence's own IDs, so earlier answers still match them
+                    if (Array.isArray(siblingUpdates.registrationQuestions)) {
+                        siblingUpdates.registrationQuestions = siblingUpdates.registrationQuestions.map((question: RegistrationQuestion) => {
+                            const existing = sibling.registrationQuestions.find((current: RegistrationQuestion) => current.label === question.label);
+                            return { ...question, _id: existing ? existing._id : new Types.ObjectId() };
+                        });
+                    }
+
+                    // Leave the status alone where the lifecycle does not allow the change
+                    if (siblingUpdates.status && siblingUpdates.status !== sibling.status
+                        && !EVENT_STATUS_TRANSITIONS[sibling.status as keyof typeof EVENT_STATUS_TRANSITIONS].includes(siblingUpdates.status)) {
+                        delete siblingUpdates.status;
+                        delete siblingUpdates.statusNote;
+                    }
+
+                    sibling.set(siblingUpdates);
+                    sibling.$locals.changedBy = changedBy;
+                    await sibling.save();
+                    siblingsUpdated++;
+                }
+
+                // Keep the series title and timezone in sync when the whole series changed
+                if (scope === 'all' && (updates.title || updates.timezone)) {
+                    const series = await EventSeries.findById(event.series);
+                    if (series) {
+                        series.set({
+                            ...(updates.title ? { title: updates.title } : {}),
+                            ...(updates.timezone ? { timezone: updates.timezone } : {}),
+                        });
+                        await series.save();
+                    }
+                }
+            }
+        } catch (dbError: any) {
+            console.error('Database update error:', dbError);
+
+            const saveError = getEventSaveError(dbError);
+            if (saveError) {
+                return NextResponse.json(saveError.body, { status: saveError.status });
+            }
+
+            throw dbError;
+        }
+
+        console.log('✅ Event updated:', event.slug, siblingsUpdated ? `(+${siblingsUpdated} occurrences)` : '');
+
+        return NextResponse.json(
+            {
+                message: API_MESSAGES.SUCCESS.EVENT_UPDATED,
+                event,
+                siblingsUpdated
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error updating event:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to update event',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+
+/**
+ * DELETE /api/events/[slug]
+ * Soft-deletes an event by setting deletedAt and cancels its active bookings (admin only)
+ * With ?hard=true the event, its bookings and its image are removed permanently
+ * @param req - NextRequest carrying the admin key header, optionally with the hard query parameter
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with confirmation or error message
+ */
+export async function DELETE(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+
+        if (!slug || typeof slug !== 'string' || slug.trim() === '') {
+            return NextResponse.json(
+                { message: 'Valid event slug is required' },
+                { status: 400 }
+            );
+        }
+
+        const sanitizedSlug = slug.trim().toLowerCase();
+        const hardDelete = new URL(req.url).searchParams.get('hard') === 'true';
+
+        // Hard deletes may also target events that were already soft-deleted
+        const event = await Event.findOne(
+            hardDelete ? { slug: sanitizedSlug } : { slug: sanitizedSlug, ...activeEventFilter() }
+        );
+
+        if (!event) {
+            return NextResponse.json(
+                { message: `Event '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        if (hardDelete) {
+            // Purge the cover and gallery images first so a failed cleanup leaves the event in place to retry
+            // Series occurrences and duplicated events share images, so keep those still in use
+            try {
+                for (const url of getEventImageUrls(event)) {
+                    if (!(await Event.exists({ _id: { $ne: event._id }, $or: [{ image: url }, { 'gallery.url': url }] }))) {
+                        await deleteImage(url);
+                    }
+                }
+            } catch (cloudinaryError) {
+                console.error('Image deletion failed:', cloudinaryError);
+                return NextResponse.json(
+                    {
+                        message: 'Failed to delete image from cloud storage',
+                        error: process.env.NODE_ENV === 'development' ? (cloudinaryError as Error).message : undefined
+                    },
+                    { status: 500 }
+                );
+            }
+
+            await Booking.deleteMany({ eventId: event._id });
+            await event.deleteOne();
+
+            console.log('🗑️ Event permanently deleted:', sanitizedSlug);
+        } else {
+            event.deletedAt = new Date();
+            await event.save({ validateBeforeSave: false });
+
+            // Cascade: attendees of a deleted event no longer hold a seat
+            const activeBookings = await Booking.find({ eventId: event._id, status: { $ne: 'cancelled' } })
+                .select('promoCode');
+            const { modifiedCount } = await Booking.updateMany(
+                { _id: { $in: activeBookings.map((booking) => booking._id) }, status: { $ne: 'cancelled' } },
+                { status: 'cancelled' }
+            );
+
+            // Give the promo code uses back, as cancelling a single booking does
+            const promoCodeUses = new Map<string, number>();
+            activeBookings.forEach(({ promoCode }) => {
+                if (promoCode) {
+                    promoCodeUses.set(promoCode, (promoCodeUses.get(promoCode) || 0) + 1);
+                }
+            });
+            for (const [code, count] of promoCodeUses) {
+                await releasePromoCode(event._id, code, count);
+            }
+            await Event.updateOne(
+                { _id: event._id },
+                { $set: { seatsTaken: 0, ticketsSold: {} } },
+                { timestamps: false }
+            );
+
+            console.log('🗄️ Event archived:', sanitizedSlug, `(${modifiedCount} bookings cancelled)`);
+        }
+
+        revalidateTag(`event-${sanitizedSlug}`);
+        revalidatePath('/');
+        revalidatePath('/events');
+
+        return NextResponse.json(
+            {
+                message: API_MESSAGES.SUCCESS.EVENT_DELETED,
+                permanent: hardDelete
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error deleting event:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to delete event',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
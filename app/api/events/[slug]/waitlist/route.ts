@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Event Waitlist API Route Handler
+ * GET: Lists an event's waitlisted bookings in the order they will be promoted (admin only)
+ * PUT: Reorders the waitlist (admin only)
+ * POST: Promotes waitlisted bookings into any free seats, e.g. after raising the capacity (admin only)
+ */
+
+import { revalidateTag } from 'next/cache';
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import { API_MESSAGES } from '@/lib/constants';
+import { isAdminRequest } from '@/lib/auth';
+import { getWaitlist, promoteFromWaitlist, reorderWaitlist } from '@/lib/waitlist';
+
+interface RouteContext {
+    params: Promise<{
+        slug: string;
+    }>;
+}
+
+/**
+ * GET /api/events/[slug]/waitlist
+ * @param req - NextRequest carrying the admin key header
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with the waitlisted bookings, first in line first, or error message
+ */
+export async function GET(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        const event = await Event.findOne({ slug: sanitizedSlug }).select('_id');
+
+        if (!event) {
+            return NextResponse.json(
+                { message: `Event with slug '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const waitlist = await getWaitlist(event._id);
+
+        return NextResponse.json(
+            {
+                message: 'Waitlist fetched successfully',
+                waitlist: waitlist.map((booking, index) => ({ ...booking.toJSON(), rank: index + 1 }))
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error fetching waitlist:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to fetch waitlist',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/events/[slug]/waitlist
+ * Body: { bookingIds: string[] } - every waitlisted booking, first in line first
+ * @param req - NextRequest carrying the admin key header and a JSON body
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with the reordered waitlist or error message
+ */
+export async function PUT(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        let body: Record<string, any>;
+        try {
+            body = await req.json();
+        } catch {
+            return NextResponse.json(
+                { message: 'Invalid JSON body' },
+                { status: 400 }
+            );
+        }
+
+        const { bookingIds } = body;
+        if (!Array.isArray(bookingIds) || !bookingIds.every((id) => typeof id === 'string')) {
+            return NextResponse.json(
+                { message: 'bookingIds must be an array of booking IDs' },
+                { status: 400 }
+            );
+        }
+
+        const event = await Event.findOne({ slug: sanitizedSlug }).select('_id');
+
+        if (!event) {
+            return NextResponse.json(
+                { message: `Event with slug '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        // The waitlist may have changed since the organizer loaded it
+        if (!(await reorderWaitlist(event._id, bookingIds))) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.WAITLIST_MISMATCH },
+                { status: 409 }
+            );
+        }
+
+        const waitlist = await getWaitlist(event._id);
+
+        console.log('🔀 Waitlist reordered:', sanitizedSlug);
+
+        return NextResponse.json(
+            {
+                message: API_MESSAGES.SUCCESS.WAITLIST_REORDERED,
+                waitlist: waitlist.map((booking, index) => ({ ...booking.toJSON(), rank: index + 1 }))
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error reordering waitlist:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to reorder waitlist',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/events/[slug]/waitlist
+ * Confirms waitlisted bookings for as many seats as are free and notifies their attendees
+ * @param req - NextRequest carrying the admin key header
+ * @param context - Route context containing the event slug
+ * @returns NextResponse with the promoted bookings or error message
+ */
+export async function POST(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        const event = await Event.findOne({ slug: sanitizedSlug }).select('_id');
+
+        if (!event) {
+            return NextResponse.json(
+                { message: `Event with slug '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        const promoted = await promoteFromWaitlist(event._id);
+
+        if (promoted.length > 0) {
+            revalidateTag(`event-${sanitizedSlug}`);
+        }
+
+        return NextResponse.json(
+            {
+                message: 'Waitlist promotion completed',
+                promoted
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('❌ Error promoting waitlist:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to promote waitlist',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
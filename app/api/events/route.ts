@@ -1,5 +1,4 @@
 import { NextRequest, NextResponse } from "next/server";
-import { v2 as cloudinary } from 'cloudinary';
 
 /**
  * Events API Route Handler
@@ -8,36 +7,27 @@ import { v2 as cloudinary } from 'cloudinary';
 
 import connectDB from "@/lib/mongodb";
 import Event from '@/database/event.model';
-
-// Configure Cloudinary using the URL format
-if (process.env.CLOUDINARY_URL) {
-    cloudinary.config({
-        cloud_name: process.env.CLOUDINARY_URL.match(/cloudinary:\/\/(?:.*)@(.*)/)?.[1],
-        api_key: process.env.CLOUDINARY_URL.match(/cloudinary:\/\/(.*):/)?.[1],
-        api_secret: process.env.CLOUDINARY_URL.match(/cloudinary:\/\/.*:(.*)@/)?.[1],
-    });
-} else {
-    // Fallback to individual environment variables
-    cloudinary.config({
-        cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-        api_key: process.env.CLOUDINARY_API_KEY,
-        api_secret: process.env.CLOUDINARY_API_SECRET,
-    });
-}
-
-// Helper function to validate Cloudinary configuration
-function validateCloudinaryConfig() {
-    const config = cloudinary.config();
-    if (!config.cloud_name || !config.api_key || !config.api_secret) {
-        console.error('Cloudinary configuration is incomplete:', {
-            cloud_name: config.cloud_name ? 'set' : 'missing',
-            api_key: config.api_key ? 'set' : 'missing',
-            api_secret: config.api_secret ? 'set' : 'missing'
-        });
-        return false;
-    }
-    return true;
-}
+import EventSeries from '@/database/series.model';
+import { API_MESSAGES, EVENT_CONSTANTS } from '@/lib/constants';
+import { expandOccurrences, parseRRule } from '@/lib/recurrence';
+import { addCalendarDays, calendarDaysBetween } from '@/lib/timezone';
+import { findOrCreateOrganization } from '@/lib/organizations';
+import { applyEventVenue } from '@/lib/venues';
+import { getVisibleTicketTypes } from '@/lib/tickets';
+import { uploadImage, validateCloudinaryConfig } from '@/lib/cloudinary';
+import { EDITABLE_EVENT_FIELDS, getEventSaveError, parseEventFormData, validateEventImage } from '@/lib/event-form';
+import { isAdminRequest } from '@/lib/auth';
+import { canAccessEvent } from '@/lib/invites';
+import { escapeRegex } from '@/lib/utils';
+import {
+    activeEventFilter,
+    listedEventFilter,
+    nearbyEventFilter,
+    nearbyEventsStage,
+    overlappingEventFilter,
+    parseDateRange,
+    parseNearQuery,
+} from '@/lib/event-filters';
 
 export async function POST(req: NextRequest) {
     try {
@@ -53,23 +43,20 @@ export async function POST(req: NextRequest) {
 
         const formData = await req.formData();
 
-        // Parse form data into event object
-        let eventData: Record<string, any> = {};
+        // Parse form data into event object; recurrence and the duplicated event are handled separately
+        const eventData: Record<string, any> = {};
+        let recurrence: { rrule: string; exdates?: string[] } | undefined;
+        let cloneFrom: string | undefined;
 
         try {
-            // Convert FormData to plain object
-            for (const [key, value] of formData.entries()) {
-                if (key === 'tags' || key === 'agenda') {
-                    // Parse JSON arrays
-                    try {
-                        eventData[key] = JSON.parse(value as string);
-                    } catch (parseError) {
-                        console.error(`Error parsing ${key}:`, parseError);
-                        eventData[key] = key === 'tags' ? [] : [value as string];
-                    }
-                } else if (key !== 'image') {
-                    // Store other fields as strings
-                    eventData[key] = value;
+            const { recurrence: parsedRecurrence, cloneFrom: parsedCloneFrom, ...fields } = parseEventFormData(formData);
+            recurrence = parsedRecurrence;
+            cloneFrom = parsedCloneFrom;
+
+            // Only take the fields organizers fill in; seat counters, series, slugs and archiving are managed here
+            for (const field of EDITABLE_EVENT_FIELDS) {
+                if (field in fields) {
+                    eventData[field] = fields[field];
                 }
             }
         } catch (parseError) {
@@ -80,6 +67,19 @@ export async function POST(req: NextRequest) {
             );
         }
 
+        // Publishing, scheduling and restricting an event are left to organizers, as they are on edits;
+        // anyone else can only submit a public draft for an organizer to review
+        const isAdmin = isAdminRequest(req);
+
+        if (!isAdmin && (eventData.status !== 'draft'
+            || (eventData.visibility && eventData.visibility !== 'public')
+            || eventData.publishAt)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.DRAFT_ONLY },
+                { status: 401 }
+            );
+        }
+
         // Validate required fields
         const requiredFields = ['title', 'description', 'overview', 'venue', 'location', 'date', 'time', 'mode', 'audience', 'organizer'];
         const missingFields = requiredFields.filter(field => !eventData[field]);
@@ -91,88 +91,139 @@ export async function POST(req: NextRequest) {
             );
         }
 
-        // Handle image upload
-        const imageFile = formData.get('image') as File;
-
-        if (!imageFile) {
+        // Copy the picked venue's details and coordinates onto the event
+        const venueError = await applyEventVenue(eventData);
+        if (venueError) {
             return NextResponse.json(
-                { message: 'Event image is required' },
+                { message: venueError },
                 { status: 400 }
             );
         }
 
-        // Validate image file
-        const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
-        if (!allowedTypes.includes(imageFile.type)) {
+        // Expand the recurrence rule before uploading anything
+        let occurrenceDates: string[] | null = null;
+
+        if (recurrence) {
+            try {
+                occurrenceDates = expandOccurrences(parseRRule(recurrence.rrule), eventData.date, {
+                    exdates: recurrence.exdates,
+                    limit: EVENT_CONSTANTS.MAX_SERIES_OCCURRENCES,
+                });
+            } catch (ruleError) {
+                return NextResponse.json(
+                    { message: (ruleError as Error).message },
+                    { status: 400 }
+                );
+            }
+
+            if (occurrenceDates.length === 0) {
+                return NextResponse.json(
+                    { message: 'Recurrence rule does not produce any occurrences' },
+                    { status: 400 }
+                );
+            }
+        }
+
+        // Handle image upload; a duplicated event may keep the image of the event it was copied from
+        const imageFile = formData.get('image') as File | null;
+        const hasImageFile = imageFile instanceof File && imageFile.size > 0;
+        let imageUrl: string | undefined;
+
+        if (!hasImageFile && cloneFrom) {
+            const source = await Event.findOne({ slug: cloneFrom.trim().toLowerCase(), ...activeEventFilter() }).select('image visibility');
+
+            // A private event's image is only reused with its invite token in ?invite=, or by an admin
+            if (source && !isAdmin && !(await canAccessEvent(source, req.nextUrl.searchParams.get('invite')))) {
+                return NextResponse.json(
+                    { message: API_MESSAGES.ERROR.INVITE_REQUIRED },
+                    { status: 403 }
+                );
+            }
+            imageUrl = source?.image;
+        }
+
+        if (!hasImageFile && !imageUrl) {
             return NextResponse.json(
-                { message: 'Invalid image format. Please use JPEG, PNG, or WebP' },
+                { message: 'Event image is required' },
                 { status: 400 }
             );
         }
 
-        const maxSize = 5 * 1024 * 1024; // 5MB
-        if (imageFile.size > maxSize) {
+        // Validate image file
+        const imageError = hasImageFile ? validateEventImage(imageFile) : null;
+        if (imageError) {
             return NextResponse.json(
-                { message: 'Image size must be less than 5MB' },
+                { message: imageError },
                 { status: 400 }
             );
         }
 
-        let imageUrl: string;
-
-        try {
-            // Convert file to buffer for Cloudinary upload
-            const arrayBuffer = await imageFile.arrayBuffer();
-            const buffer = Buffer.from(arrayBuffer);
-
-            console.log('Uploading image to Cloudinary...', {
-                size: imageFile.size,
-                type: imageFile.type,
-                cloud_name: cloudinary.config().cloud_name
-            });
-
-            // Upload to Cloudinary with simpler configuration
-            const uploadResult = await new Promise<any>((resolve, reject) => {
-                cloudinary.uploader.upload_stream(
+        if (hasImageFile) {
+            try {
+                const uploadResult = await uploadImage(imageFile);
+                imageUrl = uploadResult.secure_url;
+            } catch (uploadError) {
+                console.error('Image upload failed:', uploadError);
+                return NextResponse.json(
                     {
-                        resource_type: 'image',
-                        folder: 'eventhub',
+                        message: 'Failed to upload image to cloud storage',
+                        error: process.env.NODE_ENV === 'development' ? (uploadError as Error).message : undefined
                     },
-                    (error, result) => {
-                        if (error) {
-                            console.error('Cloudinary upload error:', error);
-                            reject(error);
-                        } else {
-                            if (!result) {
-                                console.error('Cloudinary upload failed: result is undefined');
-                                reject(new Error('Cloudinary upload failed'));
-                                return;
-                            }
-
-                            console.log('Cloudinary upload successful:', {
-                                url: result.secure_url,
-                                public_id: result.public_id
-                            });
-                            resolve(result);
-                        }
-                    }
-                ).end(buffer);
-            });
-
-            imageUrl = uploadResult.secure_url;
-        } catch (uploadError) {
-            console.error('Image upload failed:', uploadError);
-            return NextResponse.json(
-                {
-                    message: 'Failed to upload image to cloud storage',
-                    error: process.env.NODE_ENV === 'development' ? (uploadError as Error).message : undefined
-                },
-                { status: 500 }
-            );
+                    { status: 500 }
+                );
+            }
         }
 
         // Create event in database
         try {
+            // Link the event to its organization, using the organization's canonical name
+            const organization = await findOrCreateOrganization(eventData.organizer);
+            if (organization) {
+                eventData.organization = organization._id;
+                eventData.organizer = organization.name;
+            }
+
+            if (recurrence && occurrenceDates) {
+                const series = await EventSeries.create({
+                    title: eventData.title,
+                    rrule: recurrence.rrule,
+                    startDate: eventData.date,
+                    time: eventData.time,
+                    timezone: eventData.timezone,
+                    exdates: recurrence.exdates || [],
+                });
+
+                // Multi-day occurrences keep the same length as the first one
+                const durationDays = eventData.endDate ? calendarDaysBetween(eventData.date, eventData.endDate) : null;
+
+                // Materialize each occurrence; roll back the whole series if any fails
+                let occurrences;
+                try {
+                    occurrences = await Event.create(
+                        occurrenceDates.map((date) => ({
+                            ...eventData,
+                            date,
+                            endDate: durationDays !== null ? addCalendarDays(date, durationDays) : undefined,
+                            image: imageUrl,
+                            series: series._id,
+                        }))
+                    );
+                } catch (occurrenceError) {
+                    await Event.deleteMany({ series: series._id });
+                    await series.deleteOne();
+                    throw occurrenceError;
+                }
+
+                return NextResponse.json(
+                    {
+                        message: 'Event series created successfully',
+                        event: occurrences[0],
+                        series
+                    },
+                    { status: 201 }
+                );
+            }
+
             const createdEvent = await Event.create({
                 ...eventData,
                 image: imageUrl,
@@ -189,21 +240,9 @@ export async function POST(req: NextRequest) {
         } catch (dbError: any) {
             console.error('Database creation error:', dbError);
 
-            // Handle duplicate slug error
-            if (dbError.code === 11000) {
-                return NextResponse.json(
-                    { message: 'An event with this title already exists' },
-                    { status: 409 }
-                );
-            }
-
-            // Handle validation errors
-            if (dbError.name === 'ValidationError') {
-                const errors = Object.values(dbError.errors).map((err: any) => err.message);
-                return NextResponse.json(
-                    { message: 'Validation failed', errors },
-                    { status: 400 }
-                );
+            const saveError = getEventSaveError(dbError);
+            if (saveError) {
+                return NextResponse.json(saveError.body, { status: saveError.status });
             }
 
             throw dbError;
@@ -225,6 +264,8 @@ export async function POST(req: NextRequest) {
 /**
  * GET /api/events
  * Fetches events with pagination, filtering, and sorting
+ * near=lat,lng (with an optional radius in km) limits results to events at venues nearby;
+ * these carry a distance in km and can be sorted with sort=distance
  * @param req - NextRequest with query parameters for filtering
  * @returns NextResponse with events array and pagination info
  */
@@ -241,15 +282,33 @@ export async function GET(req: NextRequest) {
         const tag = searchParams.get('tag');
         const search = searchParams.get('search');
         const sort = searchParams.get('sort') || 'date';
+        const range = parseDateRange(searchParams.get('from'), searchParams.get('to'));
 
-        const skip = (page - 1) * limit;
+        if (!range) {
+            return NextResponse.json(
+                { message: 'from and to must be valid dates (YYYY-MM-DD or ISO 8601)' },
+                { status: 400 }
+            );
+        }
 
-        // Build query filter
-        const filter: any = {};
+        const nearQuery = parseNearQuery(searchParams.get('near'), searchParams.get('radius'));
 
-        // Only show future events by default
-        const today = new Date().toISOString().split('T')[0];
-        filter.date = { $gte: today };
+        if (!nearQuery) {
+            return NextResponse.json(
+                { message: `near must be "latitude,longitude" and radius between 0 and ${EVENT_CONSTANTS.MAX_SEARCH_RADIUS_KM} km` },
+                { status: 400 }
+            );
+        }
+
+        const skip = (page - 1) * limit;
+        const now = new Date();
+
+        // Build query filter, listing published events that have not ended yet
+        // and, when a range is given, that are running at some point within it
+        const filter: any = {
+            ...listedEventFilter(),
+            ...overlappingEventFilter(range.from && range.from > now ? range.from : now, range.to),
+        };
 
         // Apply filters
         if (mode && ['online', 'offline', 'hybrid'].includes(mode)) {
@@ -261,42 +320,58 @@ export async function GET(req: NextRequest) {
         }
 
         if (search) {
+            const searchRegex = new RegExp(escapeRegex(search), 'i');
             filter.$or = [
-                { title: { $regex: search, $options: 'i' } },
-                { description: { $regex: search, $options: 'i' } },
-                { tags: { $in: [new RegExp(search, 'i')] } },
+                { title: searchRegex },
+                { descriptionText: searchRegex },
+                { tags: { $in: [searchRegex] } },
             ];
         }
 
+        // Online events can be joined from anywhere, so a location does not narrow them down
+        const near = mode !== 'online' ? nearQuery.point : undefined;
+
         // Build sort object
         const sortOptions: any = {};
         switch (sort) {
             case 'date':
-                sortOptions.date = 1;
+                sortOptions.startsAt = 1;
                 break;
             case 'date-desc':
-                sortOptions.date = -1;
+                sortOptions.startsAt = -1;
                 break;
             case 'created':
                 sortOptions.createdAt = -1;
                 break;
             default:
-                sortOptions.date = 1;
+                sortOptions.startsAt = 1;
         }
 
-        // Execute query with pagination
-        const [events, total] = await Promise.all([
-            Event.find(filter)
-                .sort(sortOptions)
-                .skip(skip)
-                .limit(limit)
-                .lean(),
-            Event.countDocuments(filter),
-        ]);
+        // Execute query with pagination; nearby searches run through $geoNear to get distances
+        const [events, total] = near
+            ? await Promise.all([
+                Event.aggregate([
+                    nearbyEventsStage(near, nearQuery.radiusKm, filter),
+                    // $geoNear already returns the nearest events first
+                    ...(sort === 'distance' ? [] : [{ $sort: sortOptions }]),
+                    { $skip: skip },
+                    { $limit: limit },
+                ]),
+                Event.countDocuments({ ...filter, ...nearbyEventFilter(near, nearQuery.radiusKm) }),
+            ])
+            : await Promise.all([
+                Event.find(filter)
+                    .sort(sortOptions)
+                    .skip(skip)
+                    .limit(limit)
+                    .lean(),
+                Event.countDocuments(filter),
+            ]);
 
         return NextResponse.json({
             message: 'Events fetched successfully',
-            events,
+            // Hidden ticket types are only offered through their direct link
+            events: events.map((event) => ({ ...event, ticketTypes: getVisibleTicketTypes(event.ticketTypes) })),
             pagination: {
                 page,
                 limit,
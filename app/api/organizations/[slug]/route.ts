@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Organization API Route Handler
+ * GET: Fetches an organization profile
+ * PATCH: Updates the profile (admin only); logos are uploaded beforehand via /api/upload
+ */
+
+import connectDB from '@/lib/mongodb';
+import Organization from '@/database/organization.model';
+import Event from '@/database/event.model';
+import { API_MESSAGES } from '@/lib/constants';
+import { isAdminRequest } from '@/lib/auth';
+
+interface RouteContext {
+    params: Promise<{
+        slug: string;
+    }>;
+}
+
+// Profile fields that may be changed through PATCH
+const EDITABLE_ORGANIZATION_FIELDS = ['name', 'logo', 'description', 'links', 'members'] as const;
+
+/**
+ * GET /api/organizations/[slug]
+ * @param req - NextRequest object
+ * @param context - Route context containing the organization slug
+ * @returns NextResponse with the organization or error message
+ */
+export async function GET(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        const organization = await Organization.findOne({ slug: sanitizedSlug });
+
+        if (!organization) {
+            return NextResponse.json(
+                { message: `Organization '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ organization }, { status: 200 });
+    } catch (error) {
+        console.error('❌ Error fetching organization:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to fetch organization',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PATCH /api/organizations/[slug]
+ * Body: any of { name, logo, description, links, members }
+ * @param req - NextRequest carrying the admin key header and a JSON body
+ * @param context - Route context containing the organization slug
+ * @returns NextResponse with the updated organization or error message
+ */
+export async function PATCH(
+    req: NextRequest,
+    context: RouteContext
+) {
+    try {
+        if (!isAdminRequest(req)) {
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.UNAUTHORIZED },
+                { status: 401 }
+            );
+        }
+
+        await connectDB();
+
+        const { slug } = await context.params;
+        const sanitizedSlug = slug.trim().toLowerCase();
+
+        let body: Record<string, any>;
+        try {
+            body = await req.json();
+        } catch {
+            return NextResponse.json(
+                { message: 'Invalid JSON body' },
+                { status: 400 }
+            );
+        }
+
+        const organization = await Organization.findOne({ slug: sanitizedSlug });
+
+        if (!organization) {
+            return NextResponse.json(
+                { message: `Organization '${sanitizedSlug}' not found` },
+                { status: 404 }
+            );
+        }
+
+        for (const field of EDITABLE_ORGANIZATION_FIELDS) {
+            if (field in body) {
+                organization.set(field, body[field]);
+            }
+        }
+
+        const renamed = organization.isModified('name');
+        await organization.save();
+
+        // Events display the organizer name, so keep it in step with a renamed organization
+        if (renamed) {
+            await Event.updateMany({ organization: organization._id }, { organizer: organization.name });
+        }
+
+        revalidatePath(`/organizers/${sanitizedSlug}`);
+        revalidatePath(`/organizers/${organization.slug}`);
+
+        return NextResponse.json(
+            {
+                message: 'Organization updated successfully',
+                organization
+            },
+            { status: 200 }
+        );
+    } catch (error: any) {
+        console.error('❌ Error updating organization:', error);
+
+        if (error.code === 11000) {
+            return NextResponse.json(
+                { message: 'An organization with this name already exists' },
+                { status: 409 }
+            );
+        }
+
+        if (error.name === 'ValidationError') {
+            const errors = Object.values(error.errors).map((err: any) => err.message);
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.VALIDATION_ERROR, errors },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                message: 'Failed to update organization',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Speakers API Route Handler
+ * GET: Searches speaker profiles, used by the event form's speaker picker
+ * POST: Creates a speaker profile; photos are uploaded beforehand via /api/upload
+ */
+
+import connectDB from '@/lib/mongodb';
+import Speaker from '@/database/speaker.model';
+import { API_MESSAGES } from '@/lib/constants';
+import { escapeRegex } from '@/lib/utils';
+
+/**
+ * GET /api/speakers?search=ada&limit=10
+ * @param req - NextRequest with optional search and limit parameters
+ * @returns NextResponse with matching speakers sorted by name
+ */
+export async function GET(req: NextRequest) {
+    try {
+        await connectDB();
+
+        const { searchParams } = new URL(req.url);
+        const search = searchParams.get('search')?.trim();
+        const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '10')));
+
+        const filter = search
+            ? {
+                $or: [
+                    { name: { $regex: escapeRegex(search), $options: 'i' } },
+                    { affiliation: { $regex: escapeRegex(search), $options: 'i' } },
+                ],
+            }
+            : {};
+
+        const speakers = await Speaker.find(filter)
+            .select('name slug photo affiliation')
+            .sort({ name: 1 })
+            .limit(limit)
+            .lean();
+
+        return NextResponse.json({ speakers }, { status: 200 });
+    } catch (error) {
+        console.error('❌ Error fetching speakers:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to fetch speakers',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/speakers
+ * Body: { name, bio?, photo?, affiliation?, links?: [{ label, url }] }
+ * @param req - NextRequest with a JSON speaker profile
+ * @returns NextResponse with the created speaker or error message
+ */
+export async function POST(req: NextRequest) {
+    try {
+        await connectDB();
+
+        let body: Record<string, any>;
+        try {
+            body = await req.json();
+        } catch {
+            return NextResponse.json(
+                { message: 'Invalid JSON body' },
+                { status: 400 }
+            );
+        }
+
+        const speaker = await Speaker.create({
+            name: body.name,
+            bio: body.bio,
+            photo: body.photo || undefined,
+            affiliation: body.affiliation,
+            links: Array.isArray(body.links) ? body.links : [],
+        });
+
+        return NextResponse.json(
+            {
+                message: API_MESSAGES.SUCCESS.SPEAKER_CREATED,
+                speaker
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error('❌ Error creating speaker:', error);
+
+        if (error.code === 11000) {
+            return NextResponse.json(
+                { message: 'A speaker with this name already exists' },
+                { status: 409 }
+            );
+        }
+
+        if (error.name === 'ValidationError') {
+            const errors = Object.values(error.errors).map((err: any) => err.message);
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.VALIDATION_ERROR, errors },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                message: 'Failed to create speaker',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,45 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { v2 as cloudinary } from 'cloudinary';
 
 /**
  * File Upload API Route
  * Handles standalone file uploads to Cloudinary with validation
- * Used for events images and other media uploads
+ * Used for events images, gallery photos and other media uploads
  */
 
-// Configure Cloudinary using the URL format
-if (process.env.CLOUDINARY_URL) {
-    cloudinary.config({
-        cloud_name: process.env.CLOUDINARY_URL.match(/cloudinary:\/\/(?:.*)@(.*)/)?.[1],
-        api_key: process.env.CLOUDINARY_URL.match(/cloudinary:\/\/(.*):/)?.[1],
-        api_secret: process.env.CLOUDINARY_URL.match(/cloudinary:\/\/.*:(.*)@/)?.[1],
-    });
-} else {
-    // Fallback to individual environment variables
-    cloudinary.config({
-        cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-        api_key: process.env.CLOUDINARY_API_KEY,
-        api_secret: process.env.CLOUDINARY_API_SECRET,
-    });
-}
-
-// Helper function to validate Cloudinary configuration
-function validateCloudinaryConfig() {
-    const config = cloudinary.config();
-    if (!config.cloud_name || !config.api_key || !config.api_secret) {
-        console.error('Cloudinary configuration is incomplete:', {
-            cloud_name: config.cloud_name ? 'set' : 'missing',
-            api_key: config.api_key ? 'set' : 'missing',
-            api_secret: config.api_secret ? 'set' : 'missing'
-        });
-        return false;
-    }
-    return true;
-}
+import { uploadImage, validateCloudinaryConfig } from '@/lib/cloudinary';
+import { EVENT_CONSTANTS } from '@/lib/constants';
 
 /**
  * POST /api/upload
  * Handles file uploads to Cloudinary with comprehensive validation
+ * Accepts several "file" fields at once (up to MAX_UPLOAD_FILES), e.g. for gallery photos;
+ * every file is checked before any is uploaded, and results are returned in the same order
+ * A single file's details are also returned at the top level for existing callers
  */
 export async function POST(req: NextRequest) {
     try {
@@ -52,85 +27,67 @@ export async function POST(req: NextRequest) {
         }
 
         const formData = await req.formData();
-        const file = formData.get('file') as File;
+        const files = formData.getAll('file').filter((entry): entry is File => entry instanceof File);
 
         // Validate file existence
-        if (!file) {
+        if (files.length === 0) {
             return NextResponse.json(
                 { message: 'No file provided' },
                 { status: 400 }
             );
         }
 
+        if (files.length > EVENT_CONSTANTS.MAX_UPLOAD_FILES) {
+            return NextResponse.json(
+                { message: `At most ${EVENT_CONSTANTS.MAX_UPLOAD_FILES} files can be uploaded at once` },
+                { status: 400 }
+            );
+        }
+
         // Validate file type
         const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
-        if (!allowedTypes.includes(file.type)) {
+        const invalidType = files.find((file) => !allowedTypes.includes(file.type));
+        if (invalidType) {
             return NextResponse.json(
-                { message: 'Invalid file type. Only JPEG, PNG, WebP, and GIF are allowed.' },
+                { message: `Invalid file type for ${invalidType.name}. Only JPEG, PNG, WebP, and GIF are allowed.` },
                 { status: 400 }
             );
         }
 
         // Validate file size (5MB limit)
         const maxSize = 5 * 1024 * 1024;
-        if (file.size > maxSize) {
+        const oversized = files.find((file) => file.size > maxSize);
+        if (oversized) {
             return NextResponse.json(
-                { message: 'File size must be less than 5MB' },
+                { message: `${oversized.name} is too large. File size must be less than 5MB` },
                 { status: 400 }
             );
         }
 
-        console.log('Uploading file to Cloudinary:', {
-            name: file.name,
-            type: file.type,
-            size: file.size,
-            cloud_name: cloudinary.config().cloud_name
-        });
-
-        // Convert file to buffer
-        const arrayBuffer = await file.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-
-        // Upload to Cloudinary with better error handling
-        const uploadResult = await new Promise((resolve, reject) => {
-            cloudinary.uploader.upload_stream(
-                {
-                    resource_type: 'image',
-                    folder: 'eventhub',
-                    transformation: [
-                        { width: 1200, height: 800, crop: 'limit' },
-                        { quality: 'auto', fetch_format: 'auto' }
-                    ],
-                },
-                (error, result) => {
-                    if (error) {
-                        console.error('Cloudinary upload error:', error);
-                        reject(error);
-                    } else {
-                        if (!result) {
-                            console.error('Cloudinary upload failed: result is undefined');
-                            reject(new Error('Cloudinary upload failed'));
-                            return;
-                        }
-
-                        console.log('Cloudinary upload successful:', {
-                            url: result.secure_url,
-                            public_id: result.public_id
-                        });
-                        resolve(result);
-                    }
-                }
-            ).end(buffer);
-        });
-
-        // Return upload result
-        return NextResponse.json(
-            {
-                message: 'File uploaded successfully',
+        // Upload to Cloudinary with size and format optimizations, one file at a time
+        const uploaded = [];
+        for (const file of files) {
+            const uploadResult = await uploadImage(file, {
+                transformation: [
+                    { width: 1200, height: 800, crop: 'limit' },
+                    { quality: 'auto', fetch_format: 'auto' }
+                ],
+            });
+
+            uploaded.push({
                 url: uploadResult.secure_url,
                 publicId: uploadResult.public_id,
                 format: uploadResult.format,
                 size: uploadResult.bytes,
+            });
+        }
+
+        // Return upload result
+        return NextResponse.json(
+            {
+                message: files.length === 1 ? 'File uploaded successfully' : `${files.length} files uploaded successfully`,
+                ...(uploaded.length === 1 ? uploaded[0] : {}),
+                files: uploaded,
             },
             { status: 200 }
         );
@@ -163,6 +120,7 @@ export async function GET() {
     return NextResponse.json({
         allowedTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
         maxSize: 5 * 1024 * 1024, // 5MB
+        maxFiles: EVENT_CONSTANTS.MAX_UPLOAD_FILES,
         maxDimensions: { width: 4000, height: 4000 },
     });
 }
\ No newline at end of file
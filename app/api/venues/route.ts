@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Venues API Route Handler
+ * GET: Searches venues by name or city, or lists venues near a point; used by the event form's venue picker
+ * POST: Creates a venue with its coordinates
+ */
+
+import connectDB from '@/lib/mongodb';
+import Venue from '@/database/venue.model';
+import { API_MESSAGES } from '@/lib/constants';
+import { escapeRegex } from '@/lib/utils';
+import { parseNearQuery } from '@/lib/event-filters';
+
+/**
+ * GET /api/venues?search=hub&near=18.52,73.86&limit=10
+ * @param req - NextRequest with optional search, near, radius and limit parameters
+ * @returns NextResponse with matching venues, nearest first when near is given, otherwise by name
+ */
+export async function GET(req: NextRequest) {
+    try {
+        await connectDB();
+
+        const { searchParams } = new URL(req.url);
+        const search = searchParams.get('search')?.trim();
+        const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '10')));
+        const nearQuery = parseNearQuery(searchParams.get('near'), searchParams.get('radius'));
+
+        if (!nearQuery) {
+            return NextResponse.json(
+                { message: 'near must be "latitude,longitude" with a valid radius' },
+                { status: 400 }
+            );
+        }
+
+        const filter: Record<string, any> = search
+            ? {
+                $or: [
+                    { name: { $regex: escapeRegex(search), $options: 'i' } },
+                    { city: { $regex: escapeRegex(search), $options: 'i' } },
+                ],
+            }
+            : {};
+
+        // $near sorts by distance itself
+        if (nearQuery.point) {
+            filter.location = {
+                $near: {
+                    $geometry: { type: 'Point', coordinates: nearQuery.point },
+                    $maxDistance: nearQuery.radiusKm * 1000,
+                },
+            };
+        }
+
+        const query = Venue.find(filter)
+            .select('name slug address city country location')
+            .limit(limit);
+
+        const venues = await (nearQuery.point ? query : query.sort({ name: 1 })).lean();
+
+        return NextResponse.json({ venues }, { status: 200 });
+    } catch (error) {
+        console.error('❌ Error fetching venues:', error);
+
+        return NextResponse.json(
+            {
+                message: 'Failed to fetch venues',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/venues
+ * Body: { name, address, city?, country?, latitude, longitude }
+ * @param req - NextRequest with a JSON venue
+ * @returns NextResponse with the created venue or error message
+ */
+export async function POST(req: NextRequest) {
+    try {
+        await connectDB();
+
+        let body: Record<string, any>;
+        try {
+            body = await req.json();
+        } catch {
+            return NextResponse.json(
+                { message: 'Invalid JSON body' },
+                { status: 400 }
+            );
+        }
+
+        const latitude = Number(body.latitude);
+        const longitude = Number(body.longitude);
+
+        if (body.latitude === undefined || body.longitude === undefined || isNaN(latitude) || isNaN(longitude)) {
+            return NextResponse.json(
+                { message: 'latitude and longitude are required numbers' },
+                { status: 400 }
+            );
+        }
+
+        const venue = await Venue.create({
+            name: body.name,
+            address: body.address,
+            city: body.city,
+            country: body.country,
+            location: { type: 'Point', coordinates: [longitude, latitude] },
+        });
+
+        return NextResponse.json(
+            {
+                message: API_MESSAGES.SUCCESS.VENUE_CREATED,
+                venue
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error('❌ Error creating venue:', error);
+
+        if (error.code === 11000) {
+            return NextResponse.json(
+                { message: 'A venue with this name already exists in this city' },
+                { status: 409 }
+            );
+        }
+
+        if (error.name === 'ValidationError') {
+            const errors = Object.values(error.errors).map((err: any) => err.message);
+            return NextResponse.json(
+                { message: API_MESSAGES.ERROR.VALIDATION_ERROR, errors },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                message: 'Failed to create venue',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
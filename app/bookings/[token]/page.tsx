@@ -0,0 +1,151 @@
+import Link from "next/link";
+import { Metadata } from "next";
+import ManageBooking from "@/components/ManageBooking";
+import { getManagedBooking } from "@/lib/actions/booking.actions";
+import { API_MESSAGES } from "@/lib/constants";
+import { DEFAULT_TIMEZONE } from "@/lib/timezone";
+import { formatDateRange, formatPrice, formatTime, cn } from "@/lib/utils";
+
+/**
+ * Attendee booking page, opened from the magic link emailed with every booking
+ * Shows the booking and its event, and lets the attendee update their name, download the ticket or cancel
+ */
+
+type Props = {
+    params: Promise<{ token: string }>;
+};
+
+export const metadata: Metadata = {
+    title: "Your Booking | EventHub",
+    description: "View and manage your event registration.",
+    robots: { index: false },
+};
+
+const STATUS_STYLES = {
+    confirmed: { label: 'Confirmed', className: 'bg-green-500/20 text-green-300' },
+    waitlisted: { label: 'Waitlisted', className: 'bg-yellow-500/20 text-yellow-300' },
+    pending_verification: { label: 'Awaiting email confirmation', className: 'bg-blue-500/20 text-blue-300' },
+    cancelled: { label: 'Cancelled', className: 'bg-red-500/20 text-red-300' },
+} as const;
+
+export default async function ManageBookingPage({ params }: Props) {
+    const { token } = await params;
+    const booking = await getManagedBooking(token);
+
+    if (!booking) {
+        return (
+            <div className="max-w-xl mx-auto px-4 py-24 text-center">
+                <h1 className="text-3xl font-bold text-white mb-4">Booking Link</h1>
+                <p className="text-gray-300">{API_MESSAGES.ERROR.MANAGE_LINK_INVALID}</p>
+            </div>
+        );
+    }
+
+    const { event } = booking;
+    const status = STATUS_STYLES[booking.status as keyof typeof STATUS_STYLES];
+    const timeZone = event.timezone || DEFAULT_TIMEZONE;
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-dark-100 via-dark-200 to-dark-300 py-12">
+            <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+                {/* Page Header */}
+                <div className="text-center">
+                    <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">
+                        Your <span className="text-primary-400">Booking</span>
+                    </h1>
+                    <p className="text-xl text-gray-300">
+                        <Link href={`/events/${event.slug}`} className="text-white hover:text-primary-300">
+                            {event.title}
+                        </Link>
+                    </p>
+                </div>
+
+                <section className="bg-white/5 rounded-2xl p-6 backdrop-blur-sm border border-white/10 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <h2 className="text-2xl font-bold text-white">{booking.fullName}</h2>
+                        <span className={cn("px-3 py-1 rounded-full text-sm font-medium", status.className)}>
+                            {status.label}
+                        </span>
+                    </div>
+
+                    {booking.status === 'waitlisted' && booking.waitlistPosition && (
+                        <p className="text-yellow-300">
+                            The event is full. You&apos;re number {booking.waitlistPosition} on the waitlist, and we&apos;ll email you if a seat opens up.
+                        </p>
+                    )}
+
+                    {booking.status === 'pending_verification' && (
+                        <p className="text-blue-300">
+                            Your seat is held until you confirm your email address with the link we sent to {booking.email}.
+                        </p>
+                    )}
+
+                    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                        <div>
+                            <dt className="text-gray-400">Date</dt>
+                            <dd className="text-white">
+                                {formatDateRange(event.date, event.endDate, { weekday: 'short', year: 'numeric', month: 'long', day: 'numeric' })}
+                            </dd>
+                        </div>
+                        <div>
+                            <dt className="text-gray-400">Time</dt>
+                            <dd className="text-white">{formatTime(event.startsAt || event.time, { timeZone, showTimeZone: true })}</dd>
+                        </div>
+                        <div>
+                            <dt className="text-gray-400">Venue</dt>
+                            <dd className="text-white">{event.venue}, {event.location}</dd>
+                        </div>
+                        <div>
+                            <dt className="text-gray-400">Email</dt>
+                            <dd className="text-white">{booking.email}</dd>
+                        </div>
+                        {booking.ticketName && (
+                            <div>
+                                <dt className="text-gray-400">Ticket</dt>
+                                <dd className="text-white">{booking.ticketName}</dd>
+                            </div>
+                        )}
+                        {booking.price > 0 && (
+                            <div>
+                                <dt className="text-gray-400">Price</dt>
+                                <dd className="text-white">{formatPrice(booking.price, booking.currency)}</dd>
+                            </div>
+                        )}
+                        {booking.purchaser && (
+                            <div>
+                                <dt className="text-gray-400">Booked by</dt>
+                                <dd className="text-white">{booking.purchaser.fullName}</dd>
+                            </div>
+                        )}
+                    </dl>
+
+                    {booking.answers?.length > 0 && (
+                        <dl className="space-y-2 text-sm border-t border-white/10 pt-4">
+                            {booking.answers.map((answer: { questionId: string; label: string; value: unknown }) => (
+                                <div key={answer.questionId}>
+                                    <dt className="text-gray-400">{answer.label}</dt>
+                                    <dd className="text-white">
+                                        {Array.isArray(answer.value) ? answer.value.join(', ') : answer.value === true ? 'Yes' : String(answer.value)}
+                                    </dd>
+                                </div>
+                            ))}
+                        </dl>
+                    )}
+                </section>
+
+                <section className="bg-white/5 rounded-2xl p-6 backdrop-blur-sm border border-white/10">
+                    {booking.status === 'cancelled' ? (
+                        <p className="text-gray-300">
+                            This booking has been cancelled.{' '}
+                            <Link href={`/events/${event.slug}`} className="text-primary-400 hover:text-primary-300">
+                                View the event
+                            </Link>
+                        </p>
+                    ) : (
+                        <ManageBooking token={token} fullName={booking.fullName} status={booking.status} />
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+}
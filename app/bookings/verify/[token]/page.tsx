@@ -0,0 +1,47 @@
+import { Metadata } from "next";
+import VerifyBooking from "@/components/VerifyBooking";
+import { getVerificationBooking } from "@/lib/actions/booking.actions";
+import { API_MESSAGES } from "@/lib/constants";
+
+/**
+ * Email verification page, opened from the link emailed with bookings on events that require it
+ * Shows the booking with a button that confirms the attendee's email address and, for a held seat,
+ * the booking itself; loading the page changes nothing, so link scanners cannot confirm it
+ */
+
+type Props = {
+    params: Promise<{ token: string }>;
+};
+
+export const metadata: Metadata = {
+    title: "Confirm Your Email | EventHub",
+    description: "Confirm your email address to complete your event registration.",
+    robots: { index: false },
+};
+
+export default async function VerifyBookingPage({ params }: Props) {
+    const { token } = await params;
+    const booking = await getVerificationBooking(token);
+
+    if (!booking) {
+        return (
+            <div className="max-w-xl mx-auto px-4 py-24 text-center space-y-4">
+                <h1 className="text-3xl font-bold text-white">Confirmation Link</h1>
+                <p className="text-gray-300">{API_MESSAGES.ERROR.VERIFICATION_LINK_INVALID}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-w-xl mx-auto px-4 py-24 text-center">
+            <VerifyBooking
+                token={token}
+                eventTitle={booking.eventTitle}
+                eventSlug={booking.eventSlug}
+                initialResult={booking.verified
+                    ? { status: booking.status, manageUrl: booking.manageUrl, waitlistPosition: booking.waitlistPosition }
+                    : undefined}
+            />
+        </div>
+    );
+}
@@ -1,9 +1,12 @@
 import CreateEventForm from "@/components/CreateEventForm";
 import { Metadata } from "next";
+import { cookies, headers } from "next/headers";
+import { hasAdminAccess } from "@/lib/auth";
 
 /**
  * Event creation page with comprehensive form and validation
  * Features multi-step form process and image upload
+ * Signed-in organizers publish events; other visitors submit drafts for them to review
  */
 
 export const metadata: Metadata = {
@@ -26,7 +29,7 @@ export default function CreateEventPage() {
                 </div>
 
                 {/* Event Creation Form */}
-                <CreateEventForm />
+                <CreateEventForm canPublish={hasAdminAccess(headers(), cookies())} />
             </div>
         </div>
     );
@@ -0,0 +1,53 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { cookies, headers } from "next/headers";
+import CreateEventForm from "@/components/CreateEventForm";
+import { getEventBySlug } from "@/lib/actions/event.actions";
+import { buildEventCopy } from "@/lib/event-clone";
+import { hasAdminAccess } from "@/lib/auth";
+import type { IEvent } from "@/database";
+
+/**
+ * Event duplication page
+ * Opens the creation form pre-filled with a copy of an existing event; the date is left to pick
+ */
+
+type Props = {
+    params: Promise<{ slug: string }>;
+    searchParams: Promise<{ invite?: string }>;
+};
+
+export const metadata: Metadata = {
+    title: "Duplicate Event | EventHub",
+    description: "Start a new event from a copy of an earlier one.",
+};
+
+export default async function DuplicateEventPage({ params, searchParams }: Props) {
+    const { slug } = await params;
+    // Private events can only be copied with an invite, or by an admin
+    const { invite } = await searchParams;
+    const event = await getEventBySlug(slug, invite);
+
+    if (!event) {
+        return notFound();
+    }
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-dark-100 via-dark-200 to-dark-300 py-12">
+            <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+                {/* Page Header */}
+                <div className="text-center mb-12">
+                    <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">
+                        Duplicate <span className="text-primary-400">Event</span>
+                    </h1>
+                    <p className="text-xl text-gray-300 max-w-2xl mx-auto">
+                        Everything from {event.title} is filled in. Pick a date and adjust what changed.
+                    </p>
+                </div>
+
+                {/* Event Creation Form */}
+                <CreateEventForm initialEvent={buildEventCopy(event) as IEvent} duplicateOf={event.slug} inviteToken={invite} canPublish={hasAdminAccess(headers(), cookies())} />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,54 @@
+import { notFound, redirect } from "next/navigation";
+import { Metadata } from "next";
+import { cookies, headers } from "next/headers";
+import CreateEventForm from "@/components/CreateEventForm";
+import { getEventBySlug } from "@/lib/actions/event.actions";
+import { hasAdminAccess } from "@/lib/auth";
+
+/**
+ * Event editing page reusing the creation form in edit mode
+ * Loads the current event and submits changes to PATCH /api/events/[slug]
+ * Only for signed-in organizers; other visitors are sent to the sign-in page first
+ */
+
+type Props = {
+    params: Promise<{ slug: string }>;
+};
+
+export const metadata: Metadata = {
+    title: "Edit Event | EventHub",
+    description: "Update the details of your event on EventHub.",
+};
+
+export default async function EditEventPage({ params }: Props) {
+    const { slug } = await params;
+
+    if (!hasAdminAccess(headers(), cookies())) {
+        redirect(`/sign-in?next=${encodeURIComponent(`/events/${slug}/edit`)}`);
+    }
+
+    const event = await getEventBySlug(slug);
+
+    if (!event) {
+        return notFound();
+    }
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-dark-100 via-dark-200 to-dark-300 py-12">
+            <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+                {/* Page Header */}
+                <div className="text-center mb-12">
+                    <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">
+                        Edit <span className="text-primary-400">Event</span>
+                    </h1>
+                    <p className="text-xl text-gray-300 max-w-2xl mx-auto">
+                        Fix a typo, move the date or change the venue. Attendees will see the changes right away.
+                    </p>
+                </div>
+
+                {/* Event Edit Form */}
+                <CreateEventForm mode="edit" initialEvent={event} canPublish />
+            </div>
+        </div>
+    );
+}
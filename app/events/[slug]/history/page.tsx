@@ -0,0 +1,60 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { Metadata } from "next";
+import { cookies, headers } from "next/headers";
+import RevisionHistory, { RevisionEntry } from "@/components/RevisionHistory";
+import { getEventBySlug, getEventRevisions } from "@/lib/actions/event.actions";
+import { hasAdminAccess } from "@/lib/auth";
+
+/**
+ * Event change history for organizers
+ * Lists every saved change with field-level diffs and lets an earlier revision be restored
+ * Only for signed-in organizers; other visitors are sent to the sign-in page first
+ */
+
+type Props = {
+    params: Promise<{ slug: string }>;
+};
+
+export const metadata: Metadata = {
+    title: "Event History | EventHub",
+    description: "See who changed what on your event, and undo changes.",
+};
+
+export default async function EventHistoryPage({ params }: Props) {
+    const { slug } = await params;
+
+    if (!hasAdminAccess(headers(), cookies())) {
+        redirect(`/sign-in?next=${encodeURIComponent(`/events/${slug}/history`)}`);
+    }
+
+    const event = await getEventBySlug(slug);
+
+    if (!event) {
+        return notFound();
+    }
+
+    const revisions: RevisionEntry[] = await getEventRevisions(event._id);
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-dark-100 via-dark-200 to-dark-300 py-12">
+            <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+                {/* Page Header */}
+                <div className="text-center mb-12">
+                    <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">
+                        Change <span className="text-primary-400">History</span>
+                    </h1>
+                    <p className="text-xl text-gray-300 max-w-2xl mx-auto">
+                        Every change to{' '}
+                        <Link href={`/events/${event.slug}`} className="text-white hover:text-primary-300">
+                            {event.title}
+                        </Link>
+                        , newest first.
+                    </p>
+                </div>
+
+                <RevisionHistory slug={event.slug} revisions={revisions} />
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,8 @@
 import { Suspense } from "react";
 import EventDetails from "@/components/EventDetails";
 import { Metadata } from "next";
+import { markdownToPlainText } from "@/lib/markdown";
+import { truncateText } from "@/lib/utils";
 
 /**
  * Dynamic events detail page with SSR and metadata generation
@@ -9,15 +11,18 @@ import { Metadata } from "next";
 
 type Props = {
     params: Promise<{ slug: string }>;
+    searchParams: Promise<{ ticket?: string; invite?: string }>;
 };
 
 // Generate metadata for SEO
-export async function generateMetadata({ params }: Props): Promise<Metadata> {
+export async function generateMetadata({ params, searchParams }: Props): Promise<Metadata> {
     const { slug } = await params;
+    // Private events are only described to visitors with an invite
+    const { invite } = await searchParams;
 
     try {
         const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
-        const response = await fetch(`${BASE_URL}/api/events/${slug}`, {
+        const response = await fetch(`${BASE_URL}/api/events/${slug}${invite ? `?invite=${encodeURIComponent(invite)}` : ''}`, {
             next: { revalidate: 3600 } // Revalidate every hour
         });
 
@@ -29,13 +34,17 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
         }
 
         const { event } = await response.json();
+        // Descriptions are Markdown; metadata needs plain text
+        const summary = event.overview || truncateText(markdownToPlainText(event.description), 160);
 
         return {
             title: `${event.title} | EventHub`,
-            description: event.overview || event.description,
+            description: summary,
+            // Keep unlisted and private events out of search engines
+            robots: event.visibility && event.visibility !== 'public' ? { index: false } : undefined,
             openGraph: {
                 title: event.title,
-                description: event.overview || event.description,
+                description: summary,
                 images: [event.image],
                 type: 'article',
                 publishedTime: event.createdAt,
@@ -43,7 +52,7 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
             twitter: {
                 card: 'summary_large_image',
                 title: event.title,
-                description: event.overview || event.description,
+                description: summary,
                 images: [event.image],
             },
         };
@@ -62,10 +71,10 @@ export async function generateStaticParams() {
     return []; // Let Next.js handle dynamic rendering
 }
 
-export default async function EventDetailsPage({ params }: Props) {
+export default async function EventDetailsPage({ params, searchParams }: Props) {
     return (
         <Suspense fallback={<EventDetailsLoading />}>
-            <EventDetails params={params} />
+            <EventDetails params={params} searchParams={searchParams} />
         </Suspense>
     );
 }
@@ -0,0 +1,65 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { Metadata } from "next";
+import { cookies, headers } from "next/headers";
+import WaitlistManager, { WaitlistEntry } from "@/components/WaitlistManager";
+import { getEventBySlug } from "@/lib/actions/event.actions";
+import { getEventWaitlist } from "@/lib/actions/booking.actions";
+import { hasAdminAccess } from "@/lib/auth";
+
+/**
+ * Event waitlist for organizers
+ * Lists the waitlisted bookings in the order they will get a seat, to reorder them or fill free seats
+ * Only for signed-in organizers; other visitors are sent to the sign-in page first
+ */
+
+type Props = {
+    params: Promise<{ slug: string }>;
+};
+
+export const metadata: Metadata = {
+    title: "Event Waitlist | EventHub",
+    description: "See who is waiting for a seat at your event, and in which order.",
+};
+
+export default async function EventWaitlistPage({ params }: Props) {
+    const { slug } = await params;
+
+    if (!hasAdminAccess(headers(), cookies())) {
+        redirect(`/sign-in?next=${encodeURIComponent(`/events/${slug}/waitlist`)}`);
+    }
+
+    const event = await getEventBySlug(slug);
+
+    if (!event) {
+        return notFound();
+    }
+
+    const waitlist: WaitlistEntry[] = await getEventWaitlist(event._id);
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-dark-100 via-dark-200 to-dark-300 py-12">
+            <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+                {/* Page Header */}
+                <div className="text-center mb-12">
+                    <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">
+                        <span className="text-primary-400">Waitlist</span>
+                    </h1>
+                    <p className="text-xl text-gray-300 max-w-2xl mx-auto">
+                        Who gets the next free seat at{' '}
+                        <Link href={`/events/${event.slug}`} className="text-white hover:text-primary-300">
+                            {event.title}
+                        </Link>
+                        {event.capacity ? ` (${event.seatsTaken || 0} of ${event.capacity} seats taken)` : ''}.
+                    </p>
+                </div>
+
+                <WaitlistManager
+                    slug={event.slug}
+                    waitlist={waitlist}
+                    requireEmailVerification={!!event.requireEmailVerification}
+                />
+            </div>
+        </div>
+    );
+}
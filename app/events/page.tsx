@@ -1,6 +1,8 @@
 import EventCard from "@/components/EventCard";
+import NearMeButton from "@/components/NearMeButton";
 import { IEvent } from "@/database";
 import { getUpcomingEvents } from "@/lib/actions/event.actions";
+import { EVENT_CONSTANTS } from "@/lib/constants";
 import {
     MagnifyingGlassIcon,
     FunnelIcon,
@@ -29,6 +31,10 @@ interface EventsPageProps {
         tag?: string;
         view?: "grid" | "list";
         sort?: string;
+        from?: string;
+        to?: string;
+        near?: string;
+        radius?: string;
     };
 }
 
@@ -39,6 +45,10 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
     const tag = searchParams.tag || "";
     const view = searchParams.view || "grid";
     const sort = searchParams.sort || "date";
+    const from = searchParams.from || "";
+    const to = searchParams.to || "";
+    const near = searchParams.near || "";
+    const radius = searchParams.radius || "";
 
     // Fetch events with filters
     const { events, totalPages, currentPage } = await getUpcomingEvents(
@@ -47,7 +57,11 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
         search,
         mode,
         tag,
-        sort
+        sort,
+        from,
+        to,
+        near,
+        radius
     );
 
     // Available filters
@@ -88,8 +102,13 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
         { value: "date-desc", label: "Date (Latest)" },
         { value: "created", label: "Recently Added" },
         { value: "popular", label: "Most Popular" },
+        // Distances are only known for a location search
+        ...(near ? [{ value: "distance", label: "Distance (Nearest)" }] : []),
     ];
 
+    const radiusOptions = ["5", "10", "25", "50", "100"];
+    const activeRadius = radius || EVENT_CONSTANTS.DEFAULT_SEARCH_RADIUS_KM.toString();
+
     // Build URL with updated search params
     const buildURL = (updates: Record<string, string | null>) => {
         const params = new URLSearchParams();
@@ -100,6 +119,10 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
         if (tag) params.set("tag", tag);
         if (view) params.set("view", view);
         if (sort && sort !== "date") params.set("sort", sort);
+        if (from) params.set("from", from);
+        if (to) params.set("to", to);
+        if (near) params.set("near", near);
+        if (radius) params.set("radius", radius);
 
         // Apply updates
         Object.entries(updates).forEach(([key, value]) => {
@@ -114,7 +137,7 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
         return `/events${queryString ? `?${queryString}` : ""}`;
     };
 
-    const hasActiveFilters = search || mode || tag;
+    const hasActiveFilters = search || mode || tag || near;
 
     return (
         <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
@@ -205,6 +228,17 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
                                     </Link>
                                 </div>
                             )}
+                            {near && (
+                                <div className="flex items-center gap-1 bg-green-500/20 border border-green-500/30 rounded-full px-3 py-1 text-sm text-green-300">
+                                    <span>Within {activeRadius} km of you</span>
+                                    <Link
+                                        href={buildURL({ near: null, radius: null, sort: null, page: null })}
+                                        className="hover:text-white transition-colors"
+                                    >
+                                        <XMarkIcon className="w-3 h-3" />
+                                    </Link>
+                                </div>
+                            )}
                             {tag && (
                                 <div className="flex items-center gap-1 bg-purple-500/20 border border-purple-500/30 rounded-full px-3 py-1 text-sm text-purple-300">
                                     <span>Tag: {tag}</span>
@@ -257,6 +291,24 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
                             })}
                         </div>
 
+                        {/* Location Filter */}
+                        <div className="flex flex-wrap items-center gap-2">
+                            <NearMeButton />
+                            {near && radiusOptions.map((radiusItem) => (
+                                <Link
+                                    key={radiusItem}
+                                    href={buildURL({ radius: radiusItem, page: null })}
+                                    className={`px-2 py-1 rounded-full border text-xs font-medium transition-all whitespace-nowrap ${
+                                        activeRadius === radiusItem
+                                            ? "bg-green-500/20 border-green-500 text-green-300"
+                                            : "bg-white/5 border-white/10 text-gray-400 hover:text-white hover:border-white/30"
+                                    }`}
+                                >
+                                    {radiusItem} km
+                                </Link>
+                            ))}
+                        </div>
+
                         {/* Popular Tags */}
                         <div className="flex flex-wrap gap-2">
               <span className="text-xs text-gray-400 font-medium whitespace-nowrap mt-1.5">
@@ -320,6 +372,10 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
                                     <input type="hidden" name="mode" value={mode} />
                                     <input type="hidden" name="tag" value={tag} />
                                     <input type="hidden" name="view" value={view} />
+                                    {from && <input type="hidden" name="from" value={from} />}
+                                    {to && <input type="hidden" name="to" value={to} />}
+                                    {near && <input type="hidden" name="near" value={near} />}
+                                    {radius && <input type="hidden" name="radius" value={radius} />}
                                     {/* Submit button that's hidden but allows form submission on select change */}
                                     <button type="submit" className="hidden">Apply Sort</button>
                                 </form>
@@ -339,6 +395,7 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
                                         {...event}
                                         id={event._id.toString()}
                                         view={view}
+                                        distance={(event as IEvent & { distance?: number }).distance}
                                     />
                                 ))}
                             </div>
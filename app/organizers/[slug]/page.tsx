@@ -0,0 +1,141 @@
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { IEvent, IOrganization } from "@/database";
+import { getOrganizationBySlug } from "@/lib/actions/organization.actions";
+import EventCard from "@/components/EventCard";
+import { formatDateRange } from "@/lib/utils";
+
+/**
+ * Organizer profile page with description, team and the organization's events
+ * Upcoming events are shown as cards; past events as a compact list
+ */
+
+type Props = {
+    params: Promise<{ slug: string }>;
+};
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+    const { slug } = await params;
+    const data = await getOrganizationBySlug(slug);
+
+    if (!data) {
+        return {
+            title: 'Organizer Not Found',
+            description: 'The requested organizer could not be found.',
+        };
+    }
+
+    return {
+        title: `${data.organization.name} | EventHub`,
+        description: data.organization.description?.slice(0, 160) || `Events hosted by ${data.organization.name}`,
+    };
+}
+
+export default async function OrganizerPage({ params }: Props) {
+    const { slug } = await params;
+    const data = await getOrganizationBySlug(slug);
+
+    if (!data) {
+        return notFound();
+    }
+
+    const organization: IOrganization = data.organization;
+    const upcoming: IEvent[] = data.upcoming;
+    const past: IEvent[] = data.past;
+
+    return (
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+            {/* Profile Header */}
+            <div className="flex flex-col md:flex-row items-center md:items-start gap-8 mb-12">
+                {organization.logo ? (
+                    <Image
+                        src={organization.logo}
+                        alt={organization.name}
+                        width={160}
+                        height={160}
+                        className="w-40 h-40 rounded-2xl object-cover border-4 border-white/10"
+                    />
+                ) : (
+                    <div className="w-40 h-40 rounded-2xl bg-primary-500/20 flex items-center justify-center text-5xl font-bold text-primary-300">
+                        {organization.name.charAt(0)}
+                    </div>
+                )}
+                <div className="text-center md:text-left">
+                    <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">{organization.name}</h1>
+                    {organization.description && (
+                        <p className="text-gray-300 leading-relaxed whitespace-pre-line">{organization.description}</p>
+                    )}
+                    {organization.links.length > 0 && (
+                        <div className="flex flex-wrap justify-center md:justify-start gap-3 mt-4">
+                            {organization.links.map((link) => (
+                                <a
+                                    key={link.url}
+                                    href={link.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-full text-sm text-gray-300 hover:text-white hover:border-white/30 transition-colors"
+                                >
+                                    {link.label}
+                                </a>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Team */}
+            {organization.members.length > 0 && (
+                <section className="mb-12">
+                    <h2 className="text-2xl font-bold text-white mb-6">Team</h2>
+                    <div className="flex flex-wrap gap-3">
+                        {organization.members.map((member) => (
+                            <div key={member.name} className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg">
+                                <p className="text-white font-medium">{member.name}</p>
+                                <p className="text-xs text-gray-400 capitalize">{member.role}</p>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            {/* Upcoming Events */}
+            <section className="mb-12">
+                <h2 className="text-2xl font-bold text-white mb-6">Upcoming Events</h2>
+                {upcoming.length > 0 ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                        {upcoming.map((event) => (
+                            <EventCard key={event.slug} {...event} id={event._id.toString()} />
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-gray-400">No upcoming events scheduled.</p>
+                )}
+            </section>
+
+            {/* Past Events */}
+            {past.length > 0 && (
+                <section>
+                    <h2 className="text-2xl font-bold text-white mb-6">Past Events</h2>
+                    <ul className="space-y-3">
+                        {past.map((event) => (
+                            <li key={event.slug}>
+                                <Link
+                                    href={`/events/${event.slug}`}
+                                    className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10 hover:bg-white/10 transition-colors"
+                                >
+                                    <span className="text-white font-medium">{event.title}</span>
+                                    <span className="text-sm text-gray-400">
+                                        {formatDateRange(event.date, event.endDate, { year: 'numeric', month: 'short', day: 'numeric' })}
+                                    </span>
+                                </Link>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,101 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { IEvent, IEventSeries } from "@/database";
+import { getSeriesBySlug } from "@/lib/actions/series.actions";
+import { describeRRule, parseRRule } from "@/lib/recurrence";
+import { formatDateRange, formatTime, cn } from "@/lib/utils";
+import { EVENT_STATUSES } from "@/lib/constants";
+import { DEFAULT_TIMEZONE } from "@/lib/timezone";
+
+/**
+ * Recurring event series page listing upcoming occurrences
+ * Each date links to its own event page for details and booking
+ */
+
+type Props = {
+    params: Promise<{ slug: string }>;
+};
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+    const { slug } = await params;
+    const data = await getSeriesBySlug(slug);
+
+    if (!data) {
+        return {
+            title: 'Series Not Found',
+            description: 'The requested event series could not be found.',
+        };
+    }
+
+    return {
+        title: `${data.series.title} | EventHub`,
+        description: `Upcoming dates for ${data.series.title}`,
+    };
+}
+
+export default async function SeriesPage({ params }: Props) {
+    const { slug } = await params;
+    const data = await getSeriesBySlug(slug);
+
+    if (!data) {
+        return notFound();
+    }
+
+    const series: IEventSeries = data.series;
+    const occurrences: IEvent[] = data.occurrences;
+
+    return (
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+            {/* Header */}
+            <div className="text-center mb-12">
+                <div className="inline-flex items-center space-x-2 bg-white/5 rounded-full px-4 py-2 mb-4 border border-white/10">
+                    <span className="text-sm text-primary-400 font-medium">🔁 {describeRRule(parseRRule(series.rrule))}</span>
+                </div>
+                <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">
+                    {series.title}
+                </h1>
+                <p className="text-xl text-gray-300">
+                    {occurrences.length > 0
+                        ? `${occurrences.length} upcoming ${occurrences.length === 1 ? 'date' : 'dates'}`
+                        : 'No upcoming dates'}
+                </p>
+            </div>
+
+            {/* Upcoming Dates */}
+            <div className="space-y-3">
+                {occurrences.map((occurrence) => {
+                    const status = occurrence.status || 'published';
+
+                    return (
+                        <Link
+                            key={occurrence.slug}
+                            href={`/events/${occurrence.slug}`}
+                            className="group flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10 hover:bg-white/10 transition-colors"
+                        >
+                            <div>
+                                <p className={cn("font-semibold text-white", status === 'cancelled' && "line-through text-gray-500")}>
+                                    {formatDateRange(occurrence.date, occurrence.endDate, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+                                </p>
+                                <p className="text-sm text-gray-400">
+                                    {formatTime(occurrence.startsAt || occurrence.time, { timeZone: occurrence.timezone || DEFAULT_TIMEZONE, showTimeZone: true })} · {occurrence.venue}
+                                </p>
+                            </div>
+                            <div className="flex items-center space-x-3">
+                                {status !== 'published' && (
+                                    <span className="px-3 py-1 rounded-full text-xs font-medium bg-yellow-500/10 text-yellow-300 border border-yellow-500/30">
+                                        {EVENT_STATUSES[status].label}
+                                    </span>
+                                )}
+                                <svg className="w-4 h-4 text-blue-400 transform group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                                </svg>
+                            </div>
+                        </Link>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,36 @@
+import { Metadata } from "next";
+import { cookies, headers } from "next/headers";
+import OrganizerSignIn from "@/components/OrganizerSignIn";
+import { hasAdminAccess } from "@/lib/auth";
+
+/**
+ * Organizer sign-in page
+ * Organizer pages such as event editing send visitors here with ?next= set to the page they wanted
+ */
+
+type Props = {
+    searchParams: Promise<{ next?: string }>;
+};
+
+export const metadata: Metadata = {
+    title: "Organizer Sign In | EventHub",
+    description: "Sign in to edit and manage your events.",
+    robots: { index: false },
+};
+
+export default async function SignInPage({ searchParams }: Props) {
+    const { next } = await searchParams;
+    const signedIn = hasAdminAccess(headers(), cookies());
+
+    return (
+        <div className="max-w-md mx-auto px-4 py-24 text-center space-y-6">
+            <h1 className="text-3xl font-bold text-white">
+                Organizer <span className="text-primary-400">Sign In</span>
+            </h1>
+            {!signedIn && (
+                <p className="text-gray-300">Enter the admin key to edit events, publish them and manage their attendees.</p>
+            )}
+            <OrganizerSignIn signedIn={signedIn} next={next} />
+        </div>
+    );
+}
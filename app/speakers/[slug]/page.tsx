@@ -0,0 +1,129 @@
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { IEvent, ISpeaker } from "@/database";
+import { getSpeakerBySlug } from "@/lib/actions/speaker.actions";
+import EventCard from "@/components/EventCard";
+import { formatDateRange } from "@/lib/utils";
+
+/**
+ * Speaker profile page with bio, links and the speaker's events
+ * Upcoming events are shown as cards; past talks as a compact list
+ */
+
+type Props = {
+    params: Promise<{ slug: string }>;
+};
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+    const { slug } = await params;
+    const data = await getSpeakerBySlug(slug);
+
+    if (!data) {
+        return {
+            title: 'Speaker Not Found',
+            description: 'The requested speaker could not be found.',
+        };
+    }
+
+    return {
+        title: `${data.speaker.name} | EventHub`,
+        description: data.speaker.bio?.slice(0, 160) || `Talks by ${data.speaker.name}`,
+    };
+}
+
+export default async function SpeakerPage({ params }: Props) {
+    const { slug } = await params;
+    const data = await getSpeakerBySlug(slug);
+
+    if (!data) {
+        return notFound();
+    }
+
+    const speaker: ISpeaker = data.speaker;
+    const upcoming: IEvent[] = data.upcoming;
+    const past: IEvent[] = data.past;
+
+    return (
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+            {/* Profile Header */}
+            <div className="flex flex-col md:flex-row items-center md:items-start gap-8 mb-12">
+                {speaker.photo ? (
+                    <Image
+                        src={speaker.photo}
+                        alt={speaker.name}
+                        width={160}
+                        height={160}
+                        className="w-40 h-40 rounded-full object-cover border-4 border-white/10"
+                    />
+                ) : (
+                    <div className="w-40 h-40 rounded-full bg-primary-500/20 flex items-center justify-center text-5xl font-bold text-primary-300">
+                        {speaker.name.charAt(0)}
+                    </div>
+                )}
+                <div className="text-center md:text-left">
+                    <h1 className="text-4xl md:text-5xl font-bold text-white mb-2">{speaker.name}</h1>
+                    {speaker.affiliation && (
+                        <p className="text-xl text-primary-400 mb-4">{speaker.affiliation}</p>
+                    )}
+                    {speaker.bio && (
+                        <p className="text-gray-300 leading-relaxed whitespace-pre-line">{speaker.bio}</p>
+                    )}
+                    {speaker.links.length > 0 && (
+                        <div className="flex flex-wrap justify-center md:justify-start gap-3 mt-4">
+                            {speaker.links.map((link) => (
+                                <a
+                                    key={link.url}
+                                    href={link.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-full text-sm text-gray-300 hover:text-white hover:border-white/30 transition-colors"
+                                >
+                                    {link.label}
+                                </a>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Upcoming Events */}
+            <section className="mb-12">
+                <h2 className="text-2xl font-bold text-white mb-6">Upcoming Talks</h2>
+                {upcoming.length > 0 ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                        {upcoming.map((event) => (
+                            <EventCard key={event.slug} {...event} id={event._id.toString()} />
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-gray-400">No upcoming talks scheduled.</p>
+                )}
+            </section>
+
+            {/* Past Events */}
+            {past.length > 0 && (
+                <section>
+                    <h2 className="text-2xl font-bold text-white mb-6">Past Talks</h2>
+                    <ul className="space-y-3">
+                        {past.map((event) => (
+                            <li key={event.slug}>
+                                <Link
+                                    href={`/events/${event.slug}`}
+                                    className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10 hover:bg-white/10 transition-colors"
+                                >
+                                    <span className="text-white font-medium">{event.title}</span>
+                                    <span className="text-sm text-gray-400">
+                                        {formatDateRange(event.date, event.endDate, { year: 'numeric', month: 'short', day: 'numeric' })}
+                                    </span>
+                                </Link>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,297 @@
+'use client';
+
+import { useState } from 'react';
+import { AgendaSession } from '@/lib/agenda';
+import { SESSION_TYPES, SessionType } from '@/lib/constants';
+import { formatDate, formatTime, cn } from '@/lib/utils';
+import type { SpeakerOption } from '@/components/SpeakerPicker';
+
+/**
+ * Agenda session editor for the event form
+ * Sessions are added or edited one at a time through a small sub-form
+ * Multi-day events let each session pick the day it takes place on
+ * Speakers from the event lineup can be assigned; others are entered by name
+ */
+
+interface AgendaEditorProps {
+    sessions: AgendaSession[];
+    onChange: (sessions: AgendaSession[]) => void;
+    days: string[];
+    lineup: SpeakerOption[];
+}
+
+type SessionDraft = Omit<AgendaSession, 'speakers'> & { speakers: string };
+
+const EMPTY_DRAFT: SessionDraft = {
+    title: '',
+    abstract: '',
+    type: 'talk',
+    day: '',
+    startTime: '',
+    endTime: '',
+    speakers: '',
+    speakerIds: [],
+    room: '',
+    track: '',
+};
+
+const inputClassName = "w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+
+const AgendaEditor = ({ sessions, onChange, days, lineup }: AgendaEditorProps) => {
+    const [draft, setDraft] = useState<SessionDraft>(EMPTY_DRAFT);
+    const [editingIndex, setEditingIndex] = useState<number | null>(null);
+    const [error, setError] = useState('');
+
+    const handleDraftChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setDraft(prev => ({ ...prev, [name]: value }));
+        setError('');
+    };
+
+    const handleSave = () => {
+        if (!draft.title.trim()) {
+            setError('Session title is required');
+            return;
+        }
+        if (draft.startTime && draft.endTime && draft.endTime <= draft.startTime) {
+            setError('Session must end after it starts');
+            return;
+        }
+
+        const session: AgendaSession = {
+            title: draft.title.trim(),
+            abstract: draft.abstract?.trim() || undefined,
+            type: draft.type,
+            day: days.length > 1 ? draft.day || undefined : undefined,
+            startTime: draft.startTime || undefined,
+            endTime: draft.endTime || undefined,
+            speakers: draft.speakers.split(',').map(name => name.trim()).filter(Boolean),
+            speakerIds: draft.speakerIds,
+            room: draft.room?.trim() || undefined,
+            track: draft.track?.trim() || undefined,
+        };
+
+        onChange(editingIndex === null
+            ? [...sessions, session]
+            : sessions.map((existing, index) => index === editingIndex ? session : existing));
+        setDraft(EMPTY_DRAFT);
+        setEditingIndex(null);
+    };
+
+    const handleEdit = (index: number) => {
+        const session = sessions[index];
+        setDraft({ ...EMPTY_DRAFT, ...session, speakers: session.speakers.join(', '), speakerIds: session.speakerIds || [] });
+        setEditingIndex(index);
+        setError('');
+    };
+
+    const toggleSpeaker = (speakerId: string) => {
+        setDraft(prev => {
+            const speakerIds = prev.speakerIds || [];
+            return {
+                ...prev,
+                speakerIds: speakerIds.includes(speakerId)
+                    ? speakerIds.filter(id => id !== speakerId)
+                    : [...speakerIds, speakerId],
+            };
+        });
+    };
+
+    // Names of the lineup speakers and guest speakers of a session
+    const speakerNames = (session: AgendaSession) => [
+        ...lineup.filter(speaker => session.speakerIds?.includes(speaker._id)).map(speaker => speaker.name),
+        ...session.speakers,
+    ];
+
+    const handleRemove = (index: number) => {
+        onChange(sessions.filter((_, i) => i !== index));
+        if (editingIndex === index) {
+            setDraft(EMPTY_DRAFT);
+            setEditingIndex(null);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {sessions.map((session, index) => (
+                <div key={index} className="flex items-start gap-3 p-3 bg-white/5 rounded-lg">
+                    <span className="text-lg" title={SESSION_TYPES[session.type]?.label}>
+                        {SESSION_TYPES[session.type]?.icon}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                        <p className="text-gray-200 font-medium">{session.title}</p>
+                        <p className="text-gray-400 text-sm">
+                            {[
+                                session.day && formatDate(session.day, { weekday: 'short', month: 'short', day: 'numeric' }),
+                                session.startTime && `${formatTime(session.startTime)}${session.endTime ? ` – ${formatTime(session.endTime)}` : ''}`,
+                                session.track,
+                                session.room,
+                                speakerNames(session).join(', '),
+                            ].filter(Boolean).join(' · ') || 'Untimed'}
+                        </p>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => handleEdit(index)}
+                        className="text-primary-400 hover:text-primary-300"
+                    >
+                        Edit
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => handleRemove(index)}
+                        className="text-red-400 hover:text-red-300"
+                    >
+                        Remove
+                    </button>
+                </div>
+            ))}
+
+            <div className="space-y-3 p-4 bg-white/5 rounded-lg border border-white/10">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <input
+                        type="text"
+                        name="title"
+                        value={draft.title}
+                        onChange={handleDraftChange}
+                        className={`${inputClassName} md:col-span-2`}
+                        placeholder="Session title"
+                        aria-label="Session title"
+                    />
+                    <select
+                        name="type"
+                        value={draft.type}
+                        onChange={(e) => setDraft(prev => ({ ...prev, type: e.target.value as SessionType }))}
+                        className={inputClassName}
+                        aria-label="Session type"
+                    >
+                        {Object.entries(SESSION_TYPES).map(([value, config]) => (
+                            <option key={value} value={value}>
+                                {config.icon} {config.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {days.length > 1 && (
+                        <select
+                            name="day"
+                            value={draft.day}
+                            onChange={handleDraftChange}
+                            className={inputClassName}
+                            aria-label="Session day"
+                        >
+                            <option value="">Any day</option>
+                            {days.map((day) => (
+                                <option key={day} value={day}>
+                                    {formatDate(day, { weekday: 'short', month: 'short', day: 'numeric' })}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    <input
+                        type="time"
+                        name="startTime"
+                        value={draft.startTime}
+                        onChange={handleDraftChange}
+                        className={inputClassName}
+                        aria-label="Session start time"
+                    />
+                    <input
+                        type="time"
+                        name="endTime"
+                        value={draft.endTime}
+                        onChange={handleDraftChange}
+                        className={inputClassName}
+                        aria-label="Session end time"
+                    />
+                </div>
+
+                {lineup.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {lineup.map((speaker) => (
+                            <button
+                                key={speaker._id}
+                                type="button"
+                                onClick={() => toggleSpeaker(speaker._id)}
+                                className={cn(
+                                    "px-3 py-1.5 rounded-full text-sm transition-colors",
+                                    draft.speakerIds?.includes(speaker._id) ? "bg-primary-500 text-white" : "bg-white/5 text-gray-300 hover:bg-white/10"
+                                )}
+                            >
+                                {speaker.name}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <input
+                        type="text"
+                        name="speakers"
+                        value={draft.speakers}
+                        onChange={handleDraftChange}
+                        className={inputClassName}
+                        placeholder={lineup.length > 0 ? "Other speakers (comma separated)" : "Speakers (comma separated)"}
+                        aria-label="Speakers"
+                    />
+                    <input
+                        type="text"
+                        name="track"
+                        value={draft.track}
+                        onChange={handleDraftChange}
+                        className={inputClassName}
+                        placeholder="Track"
+                        aria-label="Track"
+                    />
+                    <input
+                        type="text"
+                        name="room"
+                        value={draft.room}
+                        onChange={handleDraftChange}
+                        className={inputClassName}
+                        placeholder="Room"
+                        aria-label="Room"
+                    />
+                </div>
+
+                <textarea
+                    name="abstract"
+                    value={draft.abstract}
+                    onChange={handleDraftChange}
+                    rows={2}
+                    className={inputClassName}
+                    placeholder="Abstract (optional)"
+                    aria-label="Session abstract"
+                />
+
+                {error && <p className="text-red-400 text-sm">{error}</p>}
+
+                <div className="flex gap-2">
+                    <button
+                        type="button"
+                        onClick={handleSave}
+                        className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+                    >
+                        {editingIndex === null ? 'Add Session' : 'Update Session'}
+                    </button>
+                    {editingIndex !== null && (
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setDraft(EMPTY_DRAFT);
+                                setEditingIndex(null);
+                            }}
+                            className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AgendaEditor;
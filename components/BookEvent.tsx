@@ -1,30 +1,99 @@
 'use client';
 
 import { useState } from "react";
-import { createBooking } from "@/lib/actions/booking.actions";
-import { isValidEmail } from "@/lib/utils";
+import { createBooking, createGroupBooking, previewPromoCode } from "@/lib/actions/booking.actions";
+import { formatDate, formatPrice, isValidEmail, cn } from "@/lib/utils";
+import { TicketType, getTicketSaleState } from "@/lib/tickets";
+import { EVENT_CONSTANTS } from "@/lib/constants";
+import { RegistrationAnswerValue, RegistrationQuestion, validateRegistrationAnswers } from "@/lib/registration-questions";
 
 /**
  * Booking form component with real-time validation and submission handling
  * Features loading states, error handling, and success feedback
+ * Events with ticket types let the attendee pick one; unavailable tickets are shown but disabled
+ * Paid events accept a promo code, which is checked before submitting to show the discounted price
+ * The event's registration questions are rendered after name and email
+ * Full events take bookings onto the waitlist and show the attendee their place in line
+ * A purchaser can register a group of attendees at once; the group is booked completely or not at all
  */
 
+// Ticket type as returned by the events API, with the number of tickets left when limited
+export type TicketOption = TicketType & { _id: string; remaining?: number | null };
+
+// Registration question as returned by the events API
+export type QuestionOption = RegistrationQuestion & { _id: string };
+
 interface BookEventProps {
     eventId: string;
     slug: string;
     eventTitle: string;
     capacity?: number;
+    // No seats left, so new bookings join the waitlist
+    isFull?: boolean;
+    ticketTypes?: TicketOption[];
+    price?: number;
+    registrationQuestions?: QuestionOption[];
+    // Invite token from the link that opened a private event
+    inviteToken?: string;
+}
+
+// Attendee added to a group booking
+interface GroupAttendee {
+    fullName: string;
+    email: string;
+}
+
+// Promo code that has been checked against the selected ticket
+interface AppliedPromo {
+    code: string;
+    ticketTypeId: string;
+    price: number;
+    discount: number;
 }
 
-const BookEvent = ({ eventId, slug, eventTitle, capacity }: BookEventProps) => {
+// Reason a ticket type cannot be picked, or null when it is available
+const getUnavailableReason = (ticket: TicketOption) => {
+    const saleState = getTicketSaleState(ticket);
+    if (saleState === 'upcoming') return `On sale ${formatDate(new Date(ticket.saleStart!), { month: 'short', day: 'numeric' })}`;
+    if (saleState === 'ended') return 'Sales ended';
+    if (ticket.remaining === 0) return 'Sold out';
+    return null;
+};
+
+const BookEvent = ({ eventId, slug, eventTitle, capacity, isFull = false, ticketTypes = [], price = 0, registrationQuestions = [], inviteToken }: BookEventProps) => {
     const [formData, setFormData] = useState({
         email: '',
         fullName: '',
     });
+    // Preselect the first ticket type that can be bought
+    const [ticketTypeId, setTicketTypeId] = useState(
+        () => ticketTypes.find(ticket => !getUnavailableReason(ticket))?._id || ''
+    );
+    const [answers, setAnswers] = useState<Record<string, RegistrationAnswerValue>>({});
+    const [promoCode, setPromoCode] = useState('');
+    const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+    const [promoError, setPromoError] = useState('');
+    const [isApplyingPromo, setIsApplyingPromo] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [submitted, setSubmitted] = useState(false);
+    // Place in line when the booking was waitlisted
+    const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+    // Group booking: the person filling in the form may attend too, alongside the listed attendees
+    const [isGroup, setIsGroup] = useState(false);
+    const [includeSelf, setIncludeSelf] = useState(true);
+    const [groupAttendees, setGroupAttendees] = useState<GroupAttendee[]>([{ fullName: '', email: '' }]);
+    const [bookedCount, setBookedCount] = useState(1);
+    // Magic link to the attendee's booking page
+    const [manageUrl, setManageUrl] = useState<string | null>(null);
+    const [verificationRequired, setVerificationRequired] = useState(false);
     const [error, setError] = useState('');
 
+    const selectedTicket = ticketTypes.find(ticket => ticket._id === ticketTypeId);
+    const currency = selectedTicket?.currency || EVENT_CONSTANTS.DEFAULT_CURRENCY;
+    const isPaid = ticketTypes.length > 0 ? ticketTypes.some(ticket => ticket.price > 0) : price > 0;
+    // A discount only holds for the ticket type it was checked against
+    const promo = appliedPromo && appliedPromo.ticketTypeId === ticketTypeId ? appliedPromo : null;
+
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const { name, value } = e.target;
         setFormData(prev => ({ ...prev, [name]: value }));
@@ -33,6 +102,53 @@ const BookEvent = ({ eventId, slug, eventTitle, capacity }: BookEventProps) => {
         if (error) setError('');
     };
 
+    const handleAnswerChange = (questionId: string, value: RegistrationAnswerValue) => {
+        setAnswers(prev => ({ ...prev, [questionId]: value }));
+        if (error) setError('');
+    };
+
+    // Adds or removes an option of a multiple choice question
+    const toggleAnswerOption = (questionId: string, option: string) => {
+        const selected = (answers[questionId] as string[] | undefined) || [];
+        handleAnswerChange(questionId, selected.includes(option)
+            ? selected.filter(value => value !== option)
+            : [...selected, option]);
+    };
+
+    const updateGroupAttendee = (index: number, field: keyof GroupAttendee, value: string) => {
+        setGroupAttendees(prev => prev.map((attendee, i) => i === index ? { ...attendee, [field]: value } : attendee));
+        if (error) setError('');
+    };
+
+    const attendeeCount = groupAttendees.length + (includeSelf ? 1 : 0);
+
+    const handleApplyPromo = async () => {
+        if (!promoCode.trim()) return;
+
+        setPromoError('');
+        setIsApplyingPromo(true);
+        try {
+            const result = await previewPromoCode(eventId, promoCode.trim(), ticketTypeId || undefined);
+
+            if (result.success) {
+                setAppliedPromo({
+                    code: promoCode.trim().toUpperCase(),
+                    ticketTypeId,
+                    price: result.price!,
+                    discount: result.discount!,
+                });
+            } else {
+                setAppliedPromo(null);
+                setPromoError(result.message || 'Invalid promo code');
+            }
+        } catch (err) {
+            console.error('Promo code check error:', err);
+            setPromoError('An unexpected error occurred. Please try again.');
+        } finally {
+            setIsApplyingPromo(false);
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
@@ -57,22 +173,63 @@ const BookEvent = ({ eventId, slug, eventTitle, capacity }: BookEventProps) => {
             return;
         }
 
+        if (ticketTypes.length > 0 && !ticketTypeId) {
+            setError('Please choose a ticket type');
+            setIsSubmitting(false);
+            return;
+        }
+
+        const { errors: answerErrors } = validateRegistrationAnswers(registrationQuestions, answers);
+        if (answerErrors.length > 0) {
+            setError(answerErrors.join(', '));
+            setIsSubmitting(false);
+            return;
+        }
+
+        const attendees = isGroup ? [...(includeSelf ? [formData] : []), ...groupAttendees] : [];
+        if (isGroup) {
+            if (attendees.length === 0 || attendees.length > EVENT_CONSTANTS.MAX_GROUP_SIZE) {
+                setError(`Please add between 1 and ${EVENT_CONSTANTS.MAX_GROUP_SIZE} attendees`);
+                setIsSubmitting(false);
+                return;
+            }
+
+            if (groupAttendees.some(attendee => attendee.fullName.trim().length < 2 || !isValidEmail(attendee.email))) {
+                setError('Please enter a name and a valid email address for every attendee');
+                setIsSubmitting(false);
+                return;
+            }
+        }
+
         try {
-            const result = await createBooking({
+            const request = {
                 eventId,
-                email: formData.email,
-                fullName: formData.fullName,
-            });
+                ticketTypeId: ticketTypeId || undefined,
+                promoCode: promoCode.trim() || undefined,
+                answers,
+                inviteToken,
+            };
+            const result = isGroup
+                ? await createGroupBooking({ ...request, purchaser: formData, attendees })
+                : await createBooking({ ...request, email: formData.email, fullName: formData.fullName });
 
             if (result.success) {
                 setSubmitted(true);
+                setBookedCount(isGroup ? attendees.length : 1);
+                setManageUrl('manageUrl' in result ? result.manageUrl ?? null : null);
+                setWaitlistPosition('waitlistPosition' in result && result.waitlistPosition !== undefined ? result.waitlistPosition : null);
+                setVerificationRequired('verificationRequired' in result && Boolean(result.verificationRequired));
                 // Track successful booking with analytics
                 if (typeof window !== 'undefined' && (window as any).posthog) {
                     (window as any).posthog.capture('event_booked', {
                         eventId,
                         slug,
                         eventTitle,
-                        email: formData.email
+                        email: formData.email,
+                        ticketTypeId,
+                        promoCode: promo?.code,
+                        waitlisted: 'waitlistPosition' in result && result.waitlistPosition !== undefined,
+                        groupSize: isGroup ? attendees.length : undefined
                     });
                 }
             } else {
@@ -86,6 +243,57 @@ const BookEvent = ({ eventId, slug, eventTitle, capacity }: BookEventProps) => {
         }
     };
 
+    // Verification state: the booking is only held until the email address is confirmed
+    if (submitted && verificationRequired) {
+        return (
+            <div className="text-center py-8">
+                <div className="w-16 h-16 bg-blue-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <svg className="w-8 h-8 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                    </svg>
+                </div>
+                <h3 className="text-xl font-semibold text-white mb-2">Check Your Inbox</h3>
+                <p className="text-gray-400">
+                    {bookedCount > 1
+                        ? <>Each attendee has been emailed a link to confirm their booking for </>
+                        : <>We've sent a link to {formData.email} to confirm your booking for </>}
+                    <span className="text-white font-medium">{eventTitle}</span>
+                </p>
+                <p className="text-sm text-gray-500 mt-2">
+                    {waitlistPosition !== null
+                        ? `The event is full. Confirm your email to keep your place, number ${waitlistPosition}, on the waitlist`
+                        : 'Seats are only held for a short time, so confirm soon'}
+                </p>
+            </div>
+        );
+    }
+
+    // Waitlisted state
+    if (submitted && waitlistPosition !== null) {
+        return (
+            <div className="text-center py-8">
+                <div className="w-16 h-16 bg-yellow-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <svg className="w-8 h-8 text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                </div>
+                <h3 className="text-xl font-semibold text-white mb-2">You're on the Waitlist</h3>
+                <p className="text-gray-400">
+                    <span className="text-white font-medium">{eventTitle}</span> is full. You're number{' '}
+                    <span className="text-white font-medium">{waitlistPosition}</span> in line.
+                </p>
+                <p className="text-sm text-gray-500 mt-2">
+                    We'll email {formData.email} if a seat opens up and your booking is confirmed
+                </p>
+                {manageUrl && (
+                    <a href={manageUrl} className="inline-block text-sm text-primary-400 hover:text-primary-300 mt-4">
+                        Manage your booking →
+                    </a>
+                )}
+            </div>
+        );
+    }
+
     // Success state
     if (submitted) {
         return (
@@ -97,19 +305,36 @@ const BookEvent = ({ eventId, slug, eventTitle, capacity }: BookEventProps) => {
                 </div>
                 <h3 className="text-xl font-semibold text-white mb-2">Successfully Registered!</h3>
                 <p className="text-gray-400">
-                    You're all set for <span className="text-white font-medium">{eventTitle}</span>
+                    {bookedCount > 1
+                        ? <>{bookedCount} attendees are registered for </>
+                        : <>You're all set for </>}
+                    <span className="text-white font-medium">{eventTitle}</span>
                 </p>
                 <p className="text-sm text-gray-500 mt-2">
-                    We've sent a confirmation email to {formData.email}
+                    {bookedCount > 1
+                        ? 'Each attendee has been emailed a link to manage their booking'
+                        : `We've sent a confirmation email to ${formData.email}`}
                 </p>
+                {manageUrl && (
+                    <a href={manageUrl} className="inline-block text-sm text-primary-400 hover:text-primary-300 mt-4">
+                        Manage your booking →
+                    </a>
+                )}
             </div>
         );
     }
 
     return (
         <div className="space-y-6">
+            {/* Waitlist Notice */}
+            {isFull && (
+                <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 text-yellow-400 text-sm">
+                    This event is full. Register to join the waitlist; seats are offered in order as they free up.
+                </div>
+            )}
+
             {/* Capacity Warning */}
-            {capacity && capacity < 50 && (
+            {!isFull && capacity && capacity < 50 && (
                 <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
                     <div className="flex items-center space-x-2 text-yellow-400 text-sm">
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -133,6 +358,44 @@ const BookEvent = ({ eventId, slug, eventTitle, capacity }: BookEventProps) => {
             )}
 
             <form onSubmit={handleSubmit} className="space-y-4">
+                {/* Ticket Type Field */}
+                {ticketTypes.length > 0 && (
+                    <fieldset className="space-y-2">
+                        <legend className="block text-sm font-medium text-gray-300 mb-2">Ticket *</legend>
+                        {ticketTypes.map((ticket) => {
+                            const unavailableReason = getUnavailableReason(ticket);
+                            return (
+                                <label
+                                    key={ticket._id}
+                                    className={cn(
+                                        "flex items-center justify-between gap-3 p-3 rounded-lg border transition-colors",
+                                        ticketTypeId === ticket._id ? "border-primary-500 bg-primary-500/10" : "border-white/10 bg-white/5",
+                                        unavailableReason ? "opacity-50 cursor-not-allowed" : "cursor-pointer hover:border-white/30"
+                                    )}
+                                >
+                                    <span className="flex items-center gap-3">
+                                        <input
+                                            type="radio"
+                                            name="ticketTypeId"
+                                            value={ticket._id}
+                                            checked={ticketTypeId === ticket._id}
+                                            onChange={() => setTicketTypeId(ticket._id)}
+                                            disabled={!!unavailableReason || isSubmitting}
+                                        />
+                                        <span>
+                                            <span className="block text-white font-medium">{ticket.name}</span>
+                                            <span className="block text-xs text-gray-400">
+                                                {unavailableReason || (ticket.remaining ? `${ticket.remaining} left` : 'Available')}
+                                            </span>
+                                        </span>
+                                    </span>
+                                    <span className="text-white font-semibold">{formatPrice(ticket.price, ticket.currency)}</span>
+                                </label>
+                            );
+                        })}
+                    </fieldset>
+                )}
+
                 {/* Full Name Field */}
                 <div>
                     <label htmlFor="fullName" className="block text-sm font-medium text-gray-300 mb-2">
@@ -169,6 +432,191 @@ const BookEvent = ({ eventId, slug, eventTitle, capacity }: BookEventProps) => {
                     />
                 </div>
 
+                {/* Group Booking */}
+                {!isFull && (
+                    <div className="space-y-3">
+                        <label className="flex items-center space-x-3 text-sm text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={isGroup}
+                                onChange={(e) => setIsGroup(e.target.checked)}
+                                className="accent-primary-500"
+                                disabled={isSubmitting}
+                            />
+                            <span>I'm registering a group</span>
+                        </label>
+
+                        {isGroup && (
+                            <div className="space-y-3 p-3 rounded-lg border border-white/10 bg-white/5">
+                                <label className="flex items-center space-x-3 text-sm text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={includeSelf}
+                                        onChange={(e) => setIncludeSelf(e.target.checked)}
+                                        className="accent-primary-500"
+                                        disabled={isSubmitting}
+                                    />
+                                    <span>I'm attending too</span>
+                                </label>
+
+                                {groupAttendees.map((attendee, index) => (
+                                    <div key={index} className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={attendee.fullName}
+                                            onChange={(e) => updateGroupAttendee(index, 'fullName', e.target.value)}
+                                            placeholder="Attendee name"
+                                            aria-label={`Attendee ${index + 1} name`}
+                                            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+                                            disabled={isSubmitting}
+                                        />
+                                        <input
+                                            type="email"
+                                            value={attendee.email}
+                                            onChange={(e) => updateGroupAttendee(index, 'email', e.target.value)}
+                                            placeholder="Attendee email"
+                                            aria-label={`Attendee ${index + 1} email`}
+                                            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+                                            disabled={isSubmitting}
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => setGroupAttendees(prev => prev.filter((_, i) => i !== index))}
+                                            disabled={groupAttendees.length === 1 || isSubmitting}
+                                            className="px-2 text-gray-400 hover:text-red-400 disabled:opacity-30"
+                                            aria-label={`Remove attendee ${index + 1}`}
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                ))}
+
+                                <button
+                                    type="button"
+                                    onClick={() => setGroupAttendees(prev => [...prev, { fullName: '', email: '' }])}
+                                    disabled={attendeeCount >= EVENT_CONSTANTS.MAX_GROUP_SIZE || isSubmitting}
+                                    className="text-sm text-primary-400 hover:text-primary-300 disabled:opacity-50"
+                                >
+                                    + Add attendee
+                                </button>
+                                <p className="text-xs text-gray-500">
+                                    {attendeeCount} of {EVENT_CONSTANTS.MAX_GROUP_SIZE} attendees · the ticket, promo code and answers below apply to everyone
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Registration Questions */}
+                {registrationQuestions.map((question) => (
+                    <div key={question._id}>
+                        {question.type === 'checkbox' ? (
+                            <label className="flex items-start space-x-3 text-sm text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={answers[question._id] === true}
+                                    onChange={(e) => handleAnswerChange(question._id, e.target.checked)}
+                                    className="mt-1 accent-primary-500"
+                                    disabled={isSubmitting}
+                                />
+                                <span>{question.label}{question.required && ' *'}</span>
+                            </label>
+                        ) : (
+                            <>
+                                <label htmlFor={`question-${question._id}`} className="block text-sm font-medium text-gray-300 mb-2">
+                                    {question.label}{question.required && ' *'}
+                                </label>
+                                {question.type === 'text' && (
+                                    <input
+                                        type="text"
+                                        id={`question-${question._id}`}
+                                        value={(answers[question._id] as string | undefined) || ''}
+                                        onChange={(e) => handleAnswerChange(question._id, e.target.value)}
+                                        maxLength={EVENT_CONSTANTS.MAX_ANSWER_LENGTH}
+                                        className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+                                        disabled={isSubmitting}
+                                    />
+                                )}
+                                {question.type === 'select' && (
+                                    <select
+                                        id={`question-${question._id}`}
+                                        value={(answers[question._id] as string | undefined) || ''}
+                                        onChange={(e) => handleAnswerChange(question._id, e.target.value)}
+                                        className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+                                        disabled={isSubmitting}
+                                    >
+                                        <option value="">Choose...</option>
+                                        {question.options.map((option) => (
+                                            <option key={option} value={option}>{option}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                {question.type === 'multiselect' && (
+                                    <div id={`question-${question._id}`} className="flex flex-wrap gap-2">
+                                        {question.options.map((option) => {
+                                            const selected = ((answers[question._id] as string[] | undefined) || []).includes(option);
+                                            return (
+                                                <button
+                                                    key={option}
+                                                    type="button"
+                                                    onClick={() => toggleAnswerOption(question._id, option)}
+                                                    aria-pressed={selected}
+                                                    disabled={isSubmitting}
+                                                    className={cn(
+                                                        "px-3 py-1.5 rounded-full text-sm transition-colors",
+                                                        selected ? "bg-primary-500 text-white" : "bg-white/5 text-gray-300 hover:bg-white/10"
+                                                    )}
+                                                >
+                                                    {option}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </div>
+                ))}
+
+                {/* Promo Code Field */}
+                {isPaid && (
+                    <div>
+                        <label htmlFor="promoCode" className="block text-sm font-medium text-gray-300 mb-2">
+                            Promo Code
+                        </label>
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                id="promoCode"
+                                name="promoCode"
+                                value={promoCode}
+                                onChange={(e) => {
+                                    setPromoCode(e.target.value);
+                                    setAppliedPromo(null);
+                                    setPromoError('');
+                                }}
+                                placeholder="Enter a code"
+                                className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white uppercase placeholder:normal-case placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+                                disabled={isSubmitting}
+                            />
+                            <button
+                                type="button"
+                                onClick={handleApplyPromo}
+                                disabled={!promoCode.trim() || isApplyingPromo || isSubmitting}
+                                className="px-4 py-3 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                            >
+                                {isApplyingPromo ? 'Checking...' : 'Apply'}
+                            </button>
+                        </div>
+                        {promoError && <p className="text-red-400 text-sm mt-2">{promoError}</p>}
+                        {promo && (
+                            <p className="text-green-400 text-sm mt-2">
+                                {promo.code} applied: you pay {formatPrice(promo.price, currency)} ({formatPrice(promo.discount, currency)} off)
+                            </p>
+                        )}
+                    </div>
+                )}
+
                 {/* Submit Button */}
                 <button
                     type="submit"
@@ -184,7 +632,7 @@ const BookEvent = ({ eventId, slug, eventTitle, capacity }: BookEventProps) => {
                             <span>Processing...</span>
                         </>
                     ) : (
-                        <span>Register for Event</span>
+                        <span>{isFull ? 'Join Waitlist' : isGroup ? `Register ${attendeeCount} Attendees` : 'Register for Event'}</span>
                     )}
                 </button>
 
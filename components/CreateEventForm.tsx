@@ -1,14 +1,51 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
-import { EVENT_MODES, EVENT_TAGS, DEFAULT_EVENT_VALUES } from '@/lib/constants';
-import { generateSlug, cn } from '@/lib/utils';
+import {
+    EVENT_CONSTANTS,
+    EVENT_MODES,
+    EVENT_STATUSES,
+    EVENT_STATUS_TRANSITIONS,
+    EVENT_VISIBILITIES,
+    DEFAULT_EVENT_VALUES,
+    EventStatus,
+    EventVisibility,
+} from '@/lib/constants';
+import { generateEventSlug, cn } from '@/lib/utils';
+import type { IEvent } from '@/database';
+import RecurrenceEditor, { RecurrenceValue } from '@/components/RecurrenceEditor';
+import AgendaEditor from '@/components/AgendaEditor';
+import SpeakerPicker, { SpeakerOption } from '@/components/SpeakerPicker';
+import VenuePicker, { VenueOption } from '@/components/VenuePicker';
+import TicketTypesEditor from '@/components/TicketTypesEditor';
+import RegistrationQuestionsEditor from '@/components/RegistrationQuestionsEditor';
+import Markdown from '@/components/Markdown';
+import GalleryEditor from '@/components/GalleryEditor';
+import { TicketType } from '@/lib/tickets';
+import { RegistrationQuestion } from '@/lib/registration-questions';
+import { GalleryImage } from '@/lib/gallery';
+import { AgendaSession, normalizeAgenda } from '@/lib/agenda';
+import {
+    DEFAULT_TIMEZONE,
+    addCalendarDays,
+    calendarDaysBetween,
+    getDateInTimeZone,
+    getLocalTimeZone,
+    getSupportedTimeZones,
+    getTimeInTimeZone,
+    zonedTimeToUtc,
+} from '@/lib/timezone';
 
 /**
  * Comprehensive events creation form with real-time validation and image upload
- * Features multi-step form handling, tag management, and agenda building
+ * Features multi-step form handling, tag management, and agenda session building
+ * In edit mode the form is pre-filled from an existing event and submits a PATCH
+ * Events can be saved as drafts and published later, or have their status changed when editing
+ * New events may repeat as a series; edits to an occurrence can apply to later or all occurrences
+ * A duplicated event is created from a copy of another one, keeping its image unless a new one is chosen
+ * Visitors who are not signed in as organizers can only submit new events as public drafts
  */
 
 interface EventFormData {
@@ -17,51 +54,119 @@ interface EventFormData {
     overview: string;
     venue: string;
     location: string;
+    venueId: string;
     date: string;
     time: string;
+    endDate: string;
+    endTime: string;
+    timezone: string;
     mode: 'online' | 'offline' | 'hybrid';
     audience: string;
     organizer: string;
     tags: string[];
-    agenda: string[];
+    agenda: AgendaSession[];
+    speakers: SpeakerOption[];
+    ticketTypes: TicketType[];
+    registrationQuestions: RegistrationQuestion[];
+    gallery: GalleryImage[];
     price: number;
     capacity: number;
     registrationUrl: string;
+    requireEmailVerification: boolean;
+    status: EventStatus;
+    statusNote: string;
+    visibility: EventVisibility;
     image: File | null;
 }
 
-const CreateEventForm = () => {
+interface CreateEventFormProps {
+    mode?: 'create' | 'edit';
+    initialEvent?: IEvent;
+    // Slug of the event a new event was copied from
+    duplicateOf?: string;
+    // Invite token for copying a private event
+    inviteToken?: string;
+    // Whether the visitor is signed in as an organizer, and may publish, schedule and restrict events
+    canPublish?: boolean;
+}
+
+const CreateEventForm = ({ mode = 'create', initialEvent, duplicateOf, inviteToken, canPublish = false }: CreateEventFormProps) => {
     const router = useRouter();
+    const isEditing = mode === 'edit' && !!initialEvent;
+    const initialStatus: EventStatus = initialEvent?.status || DEFAULT_EVENT_VALUES.status;
+    // Drafts can be saved repeatedly until they are published
+    const canSaveDraft = !isEditing || initialStatus === 'draft';
     const [step, setStep] = useState(1);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [errors, setErrors] = useState<Record<string, string>>({});
-    const [imagePreview, setImagePreview] = useState<string>('');
+    const [imagePreview, setImagePreview] = useState<string>(initialEvent?.image || '');
+    // Gallery photo picked as the cover, sent when it differs from the current image
+    const [coverImage, setCoverImage] = useState<string>(initialEvent?.image || '');
     const [newTag, setNewTag] = useState('');
-    const [newAgendaItem, setNewAgendaItem] = useState('');
+    const [recurrence, setRecurrence] = useState<RecurrenceValue | null>(null);
+    const [editScope, setEditScope] = useState<'this' | 'following' | 'all'>('this');
+    const [changedBy, setChangedBy] = useState('');
+    const [descriptionTab, setDescriptionTab] = useState<'write' | 'preview'>('write');
+
+    // Scheduled publication, entered as a date and time in the event's timezone
+    const initialPublishAt = initialEvent?.publishAt ? new Date(initialEvent.publishAt) : null;
+    const wasScheduled = !!initialPublishAt && initialPublishAt > new Date();
+    const [schedule, setSchedule] = useState({
+        enabled: wasScheduled,
+        date: initialPublishAt ? getDateInTimeZone(initialEvent!.timezone, initialPublishAt) : '',
+        time: initialPublishAt ? getTimeInTimeZone(initialEvent!.timezone, initialPublishAt) : '',
+    });
 
     const [formData, setFormData] = useState<EventFormData>({
-        title: '',
-        description: '',
-        overview: '',
-        venue: '',
-        location: '',
-        date: '',
-        time: '',
-        mode: DEFAULT_EVENT_VALUES.mode,
-        audience: '',
-        organizer: '',
-        tags: DEFAULT_EVENT_VALUES.tags,
-        agenda: [],
-        price: DEFAULT_EVENT_VALUES.price,
-        capacity: DEFAULT_EVENT_VALUES.capacity,
-        registrationUrl: '',
+        title: initialEvent?.title || '',
+        description: initialEvent?.description || '',
+        overview: initialEvent?.overview || '',
+        venue: initialEvent?.venue || '',
+        location: initialEvent?.location || '',
+        venueId: initialEvent?.venueId?.toString() || '',
+        date: initialEvent?.date || '',
+        time: initialEvent?.time || '',
+        endDate: initialEvent?.endDate || '',
+        endTime: initialEvent?.endTime || '',
+        timezone: initialEvent?.timezone || DEFAULT_TIMEZONE,
+        mode: initialEvent?.mode || DEFAULT_EVENT_VALUES.mode,
+        audience: initialEvent?.audience || '',
+        organizer: initialEvent?.organizer || '',
+        tags: initialEvent?.tags || [...DEFAULT_EVENT_VALUES.tags],
+        agenda: normalizeAgenda(initialEvent?.agenda),
+        // Populated by getEventBySlug when editing
+        speakers: (initialEvent?.speakers || []) as unknown as SpeakerOption[],
+        ticketTypes: (initialEvent?.ticketTypes || []).map(ticket => ({ ...ticket, _id: ticket._id?.toString() })),
+        registrationQuestions: (initialEvent?.registrationQuestions || []).map(question => ({ ...question, _id: question._id?.toString() })),
+        gallery: (initialEvent?.gallery || []).map(photo => ({ url: photo.url, caption: photo.caption || '' })),
+        price: initialEvent?.price ?? DEFAULT_EVENT_VALUES.price,
+        capacity: initialEvent?.capacity ?? DEFAULT_EVENT_VALUES.capacity,
+        registrationUrl: initialEvent?.registrationUrl || '',
+        requireEmailVerification: initialEvent?.requireEmailVerification ?? false,
+        status: initialStatus,
+        statusNote: initialEvent?.statusNote || '',
+        visibility: initialEvent?.visibility || 'public',
         image: null,
     });
 
+    const [timeZones, setTimeZones] = useState<string[]>([formData.timezone]);
+
+    // The browser's timezone list and the organizer's own timezone are only known on the client
+    // Edited and duplicated events keep the timezone they were loaded with
+    const hasInitialEvent = !!initialEvent;
+    useEffect(() => {
+        setTimeZones(getSupportedTimeZones());
+        if (!hasInitialEvent) {
+            setFormData(prev => ({ ...prev, timezone: getLocalTimeZone() }));
+        }
+    }, [hasInitialEvent]);
+
     // Handle input changes
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
-        setFormData(prev => ({ ...prev, [name]: value }));
+        // Editing the venue text by hand unlinks the picked venue
+        const unlinksVenue = name === 'venue' || name === 'location';
+        setFormData(prev => ({ ...prev, [name]: value, ...(unlinksVenue ? { venueId: '' } : {}) }));
 
         // Clear error for this field
         if (errors[name]) {
@@ -69,6 +174,17 @@ const CreateEventForm = () => {
         }
     };
 
+    // Fill the venue fields from a saved venue
+    const handleVenueSelect = (venue: VenueOption) => {
+        setFormData(prev => ({
+            ...prev,
+            venueId: venue._id,
+            venue: venue.name,
+            location: [venue.address, venue.city, venue.country].filter(Boolean).join(', '),
+        }));
+        setErrors(prev => ({ ...prev, venue: '', location: '' }));
+    };
+
     // Handle image upload
     const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -89,6 +205,8 @@ const CreateEventForm = () => {
 
             setFormData(prev => ({ ...prev, image: file }));
             setErrors(prev => ({ ...prev, image: '' }));
+            // An uploaded file replaces any gallery photo picked as the cover
+            setCoverImage(initialEvent?.image || '');
 
             // Create preview
             const reader = new FileReader();
@@ -117,24 +235,42 @@ const CreateEventForm = () => {
         }));
     };
 
-    // Handle agenda management
-    const handleAddAgendaItem = () => {
-        if (newAgendaItem.trim()) {
-            setFormData(prev => ({
-                ...prev,
-                agenda: [...prev.agenda, newAgendaItem.trim()]
-            }));
-            setNewAgendaItem('');
-        }
-    };
-
-    const handleRemoveAgendaItem = (index: number) => {
+    // Removing a speaker from the lineup also removes them from sessions
+    const handleSpeakersChange = (speakers: SpeakerOption[]) => {
+        const lineup = new Set(speakers.map(speaker => speaker._id));
         setFormData(prev => ({
             ...prev,
-            agenda: prev.agenda.filter((_, i) => i !== index)
+            speakers,
+            agenda: prev.agenda.map(session => ({
+                ...session,
+                speakerIds: session.speakerIds?.filter(id => lineup.has(id)),
+            })),
         }));
     };
 
+    // Use a gallery photo as the cover instead of uploading a new image
+    const handleCoverChange = (url: string) => {
+        setCoverImage(url);
+        setImagePreview(url);
+        setFormData(prev => ({ ...prev, image: null }));
+    };
+
+    // Handle agenda management
+    const handleAgendaChange = (agenda: AgendaSession[]) => {
+        setFormData(prev => ({ ...prev, agenda }));
+        if (errors.agenda) {
+            setErrors(prev => ({ ...prev, agenda: '' }));
+        }
+    };
+
+    // Days a session can be scheduled on; more than one only for multi-day events
+    const eventDays = formData.date && formData.endDate > formData.date
+        ? Array.from(
+            { length: Math.min(calendarDaysBetween(formData.date, formData.endDate) + 1, 31) },
+            (_, i) => addCalendarDays(formData.date, i)
+        )
+        : [formData.date].filter(Boolean);
+
     // Form validation
     const validateStep = (step: number): boolean => {
         const newErrors: Record<string, string> = {};
@@ -143,7 +279,8 @@ const CreateEventForm = () => {
             if (!formData.title.trim()) newErrors.title = 'Event title is required';
             if (!formData.description.trim()) newErrors.description = 'Event description is required';
             if (!formData.overview.trim()) newErrors.overview = 'Event overview is required';
-            if (!formData.image) newErrors.image = 'Event image is required';
+            // Existing and duplicated events keep their current image unless a new one is chosen
+            if (!formData.image && !initialEvent?.image) newErrors.image = 'Event image is required';
         }
 
         if (step === 2) {
@@ -151,13 +288,39 @@ const CreateEventForm = () => {
             if (!formData.location.trim()) newErrors.location = 'Event location is required';
             if (!formData.date) newErrors.date = 'Event date is required';
             if (!formData.time) newErrors.time = 'Event time is required';
+            // Dates (YYYY-MM-DD) and times (HH:MM) compare correctly as strings
+            const lastDay = formData.endDate || formData.date;
+            if (formData.endDate && formData.date && formData.endDate < formData.date) {
+                newErrors.endDate = 'End date cannot be before the start date';
+            } else if (formData.endTime && lastDay === formData.date && formData.time && formData.endTime <= formData.time) {
+                newErrors.endTime = 'Event must end after it starts';
+            }
             if (!formData.audience.trim()) newErrors.audience = 'Target audience is required';
             if (!formData.organizer.trim()) newErrors.organizer = 'Organizer name is required';
+            const invalidTicket = formData.ticketTypes.find(ticket =>
+                !ticket.name.trim() || !/^[A-Z]{3}$/.test(ticket.currency)
+                || (ticket.saleStart && ticket.saleEnd && new Date(ticket.saleEnd) <= new Date(ticket.saleStart)));
+            if (invalidTicket) {
+                newErrors.ticketTypes = 'Each ticket type needs a name and a 3-letter currency, and sales must end after they start';
+            }
+            const invalidQuestion = formData.registrationQuestions.find(question =>
+                !question.label.trim()
+                || ((question.type === 'select' || question.type === 'multiselect') && !question.options.some(option => option.trim())));
+            if (invalidQuestion) {
+                newErrors.registrationQuestions = 'Each question needs a label, and choice questions need at least one option';
+            }
         }
 
         if (step === 3) {
             if (formData.tags.length === 0) newErrors.tags = 'At least one tag is required';
             if (formData.agenda.length === 0) newErrors.agenda = 'At least one agenda item is required';
+            if (canPublish && schedule.enabled) {
+                if (!schedule.date || !schedule.time) {
+                    newErrors.publishAt = 'Pick the date and time to publish the event';
+                } else if (zonedTimeToUtc(schedule.date, schedule.time, formData.timezone) <= new Date()) {
+                    newErrors.publishAt = 'Publication must be scheduled in the future';
+                }
+            }
         }
 
         setErrors(newErrors);
@@ -175,15 +338,34 @@ const CreateEventForm = () => {
             return;
         }
 
-        // Final submission
+        // Drafts are published by the primary action; other events keep the selected status
+        // Visitors who cannot publish submit their event as a draft
+        await submitEvent(!canPublish ? 'draft' : formData.status === 'draft' ? 'published' : formData.status);
+    };
+
+    // Save the event without publishing it
+    const handleSaveDraft = async () => {
+        if (!validateStep(step)) return;
+        await submitEvent('draft');
+    };
+
+    // Final submission
+    const submitEvent = async (status: EventStatus) => {
         setIsSubmitting(true);
         try {
             const submitData = new FormData();
 
             // Append all form fields
-            Object.entries(formData).forEach(([key, value]) => {
-                if (key === 'tags' || key === 'agenda') {
+            Object.entries({ ...formData, status }).forEach(([key, value]) => {
+                // Visibility is left to organizers, so drafts from anyone else stay public
+                if (key === 'visibility' && !canPublish) {
+                    return;
+                }
+
+                if (key === 'tags' || key === 'agenda' || key === 'ticketTypes' || key === 'registrationQuestions' || key === 'gallery') {
                     submitData.append(key, JSON.stringify(value));
+                } else if (key === 'speakers') {
+                    submitData.append(key, JSON.stringify((value as SpeakerOption[]).map(speaker => speaker._id)));
                 } else if (key === 'image' && value) {
                     submitData.append(key, value as File);
                 } else if (value !== null && value !== undefined) {
@@ -191,22 +373,57 @@ const CreateEventForm = () => {
                 }
             });
 
-            const response = await fetch('/api/events', {
-                method: 'POST',
-                body: submitData,
-            });
+            // An empty value publishes the event right away
+            if (canPublish) {
+                submitData.append('publishAt', schedule.enabled
+                    ? zonedTimeToUtc(schedule.date, schedule.time, formData.timezone).toISOString()
+                    : '');
+            }
+
+            if (!isEditing && recurrence) {
+                submitData.append('recurrence', JSON.stringify(recurrence));
+            }
+
+            if (isEditing && initialEvent.series) {
+                submitData.append('scope', editScope);
+            }
+
+            if (!isEditing && duplicateOf) {
+                submitData.append('cloneFrom', duplicateOf);
+            }
+
+            if (isEditing && coverImage && coverImage !== initialEvent.image) {
+                submitData.append('coverImage', coverImage);
+            }
+
+            if (isEditing && changedBy.trim()) {
+                submitData.append('changedBy', changedBy.trim());
+            }
+
+            // Edits are authorized by the organizer's session; copies of private events by their invite
+            const inviteQuery = !isEditing && inviteToken ? `?invite=${encodeURIComponent(inviteToken)}` : '';
+            const response = await fetch(
+                (isEditing ? `/api/events/${initialEvent.slug}` : '/api/events') + inviteQuery,
+                {
+                    method: isEditing ? 'PATCH' : 'POST',
+                    body: submitData,
+                }
+            );
 
             const result = await response.json();
 
             if (response.ok) {
-                // Success - redirect to the new events
-                router.push(`/events/${result.event.slug}`);
+                // Success - redirect to the new series or events (the slug may change on edit)
+                router.push(result.series ? `/series/${result.series.slug}` : `/events/${result.event.slug}`);
                 router.refresh();
             } else {
-                setErrors({ submit: result.message || 'Failed to create events' });
+                const details = result.errors?.length ? `: ${result.errors.join(', ')}` : '';
+                setErrors({
+                    submit: (result.message || (isEditing ? 'Failed to update events' : 'Failed to create events')) + details
+                });
             }
         } catch (error) {
-            console.error('Event creation error:', error);
+            console.error(isEditing ? 'Event update error:' : 'Event creation error:', error);
             setErrors({ submit: 'An unexpected error occurred' });
         } finally {
             setIsSubmitting(false);
@@ -275,22 +492,57 @@ const CreateEventForm = () => {
                                 placeholder="Enter event title"
                             />
                             {errors.title && <p className="text-red-400 text-sm mt-1">{errors.title}</p>}
+                            {formData.title.trim() && (!isEditing || formData.title !== initialEvent.title) && (
+                                <p className="text-gray-500 text-sm mt-1">
+                                    /events/{generateEventSlug(formData.title, recurrence || initialEvent?.series ? formData.date : undefined)}
+                                    {' '}(a number is added if this address is taken)
+                                </p>
+                            )}
                         </div>
 
                         {/* Description */}
                         <div>
-                            <label htmlFor="description" className="block text-sm font-medium text-gray-300 mb-2">
-                                Description *
-                            </label>
-                            <textarea
-                                id="description"
-                                name="description"
-                                value={formData.description}
-                                onChange={handleInputChange}
-                                rows={4}
-                                className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-vertical"
-                                placeholder="Describe your event in detail..."
-                            />
+                            <div className="flex items-center justify-between mb-2">
+                                <label htmlFor="description" className="block text-sm font-medium text-gray-300">
+                                    Description *
+                                </label>
+                                <div className="flex gap-1 text-sm">
+                                    {(['write', 'preview'] as const).map((tab) => (
+                                        <button
+                                            key={tab}
+                                            type="button"
+                                            onClick={() => setDescriptionTab(tab)}
+                                            className={cn(
+                                                "px-3 py-1 rounded-lg capitalize transition-colors",
+                                                descriptionTab === tab ? "bg-white/10 text-white" : "text-gray-400 hover:text-white"
+                                            )}
+                                        >
+                                            {tab}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            {descriptionTab === 'write' ? (
+                                <textarea
+                                    id="description"
+                                    name="description"
+                                    value={formData.description}
+                                    onChange={handleInputChange}
+                                    rows={8}
+                                    maxLength={EVENT_CONSTANTS.MAX_DESCRIPTION_LENGTH}
+                                    className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-vertical font-mono text-sm"
+                                    placeholder="Describe your event in detail..."
+                                />
+                            ) : (
+                                <div className="min-h-[12rem] bg-white/5 border border-white/10 rounded-lg px-4 py-3">
+                                    {formData.description.trim()
+                                        ? <Markdown source={formData.description} />
+                                        : <p className="text-gray-500">Nothing to preview yet</p>}
+                                </div>
+                            )}
+                            <p className="text-gray-500 text-xs mt-1">
+                                Markdown is supported: **bold**, *italic*, [links](https://example.com), lists and # headings
+                            </p>
                             {errors.description && <p className="text-red-400 text-sm mt-1">{errors.description}</p>}
                         </div>
 
@@ -314,7 +566,7 @@ const CreateEventForm = () => {
                         {/* Image Upload */}
                         <div>
                             <label className="block text-sm font-medium text-gray-300 mb-2">
-                                Event Image *
+                                Event Image {isEditing ? '' : '*'}
                             </label>
                             <div className="flex items-center justify-center w-full">
                                 <label className="flex flex-col items-center justify-center w-full h-64 border-2 border-dashed border-white/20 rounded-lg cursor-pointer bg-white/5 hover:bg-white/10 transition-colors">
@@ -346,6 +598,21 @@ const CreateEventForm = () => {
                             </div>
                             {errors.image && <p className="text-red-400 text-sm mt-1">{errors.image}</p>}
                         </div>
+
+                        {/* Photo gallery (existing events) */}
+                        {isEditing && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-2">
+                                    Photo Gallery
+                                </label>
+                                <GalleryEditor
+                                    photos={formData.gallery}
+                                    onChange={(gallery) => setFormData(prev => ({ ...prev, gallery }))}
+                                    coverImage={coverImage}
+                                    onCoverChange={handleCoverChange}
+                                />
+                            </div>
+                        )}
                     </div>
                 )}
 
@@ -354,6 +621,17 @@ const CreateEventForm = () => {
                     <div className="space-y-6 animate-fade-in">
                         <h2 className="text-2xl font-bold text-white">Event Details</h2>
 
+                        {/* Saved venues give in-person events coordinates for "near me" searches */}
+                        {formData.mode !== 'online' && (
+                            <div>
+                                <p className="block text-sm font-medium text-gray-300 mb-2">
+                                    Saved Venue
+                                    {formData.venueId && <span className="ml-2 text-green-400 text-xs">📍 Linked to {formData.venue}</span>}
+                                </p>
+                                <VenuePicker venueId={formData.venueId} onSelect={handleVenueSelect} />
+                            </div>
+                        )}
+
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                             {/* Venue */}
                             <div>
@@ -400,7 +678,7 @@ const CreateEventForm = () => {
                                     name="date"
                                     value={formData.date}
                                     onChange={handleInputChange}
-                                    min={new Date().toISOString().split('T')[0]}
+                                    min={isEditing ? undefined : getDateInTimeZone(formData.timezone)}
                                     className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                                 />
                                 {errors.date && <p className="text-red-400 text-sm mt-1">{errors.date}</p>}
@@ -422,6 +700,61 @@ const CreateEventForm = () => {
                                 {errors.time && <p className="text-red-400 text-sm mt-1">{errors.time}</p>}
                             </div>
 
+                            {/* End Date */}
+                            <div>
+                                <label htmlFor="endDate" className="block text-sm font-medium text-gray-300 mb-2">
+                                    End Date
+                                </label>
+                                <input
+                                    type="date"
+                                    id="endDate"
+                                    name="endDate"
+                                    value={formData.endDate}
+                                    onChange={handleInputChange}
+                                    min={formData.date || undefined}
+                                    className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                />
+                                <p className="text-gray-500 text-xs mt-1">For events spanning several days</p>
+                                {errors.endDate && <p className="text-red-400 text-sm mt-1">{errors.endDate}</p>}
+                            </div>
+
+                            {/* End Time */}
+                            <div>
+                                <label htmlFor="endTime" className="block text-sm font-medium text-gray-300 mb-2">
+                                    End Time
+                                </label>
+                                <input
+                                    type="time"
+                                    id="endTime"
+                                    name="endTime"
+                                    value={formData.endTime}
+                                    onChange={handleInputChange}
+                                    className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                />
+                                {errors.endTime && <p className="text-red-400 text-sm mt-1">{errors.endTime}</p>}
+                            </div>
+
+                            {/* Timezone */}
+                            <div>
+                                <label htmlFor="timezone" className="block text-sm font-medium text-gray-300 mb-2">
+                                    Timezone *
+                                </label>
+                                <select
+                                    id="timezone"
+                                    name="timezone"
+                                    value={formData.timezone}
+                                    onChange={handleInputChange}
+                                    className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                >
+                                    {(timeZones.includes(formData.timezone) ? timeZones : [formData.timezone, ...timeZones]).map((timeZone) => (
+                                        <option key={timeZone} value={timeZone}>
+                                            {timeZone.replace(/_/g, ' ')}
+                                        </option>
+                                    ))}
+                                </select>
+                                <p className="text-gray-500 text-xs mt-1">The date and time above are in this timezone</p>
+                            </div>
+
                             {/* Mode */}
                             <div>
                                 <label htmlFor="mode" className="block text-sm font-medium text-gray-300 mb-2">
@@ -460,6 +793,11 @@ const CreateEventForm = () => {
                             </div>
                         </div>
 
+                        {/* Recurrence (new events only) */}
+                        {!isEditing && (
+                            <RecurrenceEditor startDate={formData.date} onChange={setRecurrence} />
+                        )}
+
                         {/* Organizer */}
                         <div>
                             <label htmlFor="organizer" className="block text-sm font-medium text-gray-300 mb-2">
@@ -479,7 +817,7 @@ const CreateEventForm = () => {
 
                         {/* Additional Options */}
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                            {/* Price */}
+                            {/* Price; set by the cheapest ticket type when there are ticket types */}
                             <div>
                                 <label htmlFor="price" className="block text-sm font-medium text-gray-300 mb-2">
                                     Price (USD)
@@ -492,9 +830,13 @@ const CreateEventForm = () => {
                                     onChange={handleInputChange}
                                     min="0"
                                     step="0.01"
-                                    className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                    disabled={formData.ticketTypes.length > 0}
+                                    className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:opacity-50"
                                     placeholder="0.00"
                                 />
+                                {formData.ticketTypes.length > 0 && (
+                                    <p className="text-gray-500 text-xs mt-1">Priced by ticket type below</p>
+                                )}
                             </div>
 
                             {/* Capacity */}
@@ -530,6 +872,58 @@ const CreateEventForm = () => {
                                 />
                             </div>
                         </div>
+
+                        {/* Email verification */}
+                        <div>
+                            <label className="flex items-center gap-3 text-sm font-medium text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={formData.requireEmailVerification}
+                                    onChange={(e) => setFormData(prev => ({ ...prev, requireEmailVerification: e.target.checked }))}
+                                    className="w-4 h-4 rounded border-white/10 bg-white/5 text-primary-500 focus:ring-primary-500"
+                                />
+                                Require email verification
+                            </label>
+                            <p className="text-gray-500 text-xs mt-1">
+                                Bookings hold their seat only until the attendee confirms their email address
+                            </p>
+                        </div>
+
+                        {/* Ticket Types */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-2">
+                                Ticket Types
+                            </label>
+                            <p className="text-gray-500 text-xs mb-3">
+                                Sell tiers such as early-bird, student or sponsor tickets; capacity still limits the total
+                            </p>
+                            <TicketTypesEditor
+                                ticketTypes={formData.ticketTypes}
+                                onChange={(ticketTypes) => {
+                                    setFormData(prev => ({ ...prev, ticketTypes }));
+                                    setErrors(prev => ({ ...prev, ticketTypes: '' }));
+                                }}
+                            />
+                            {errors.ticketTypes && <p className="text-red-400 text-sm mt-1">{errors.ticketTypes}</p>}
+                        </div>
+
+                        {/* Registration Questions */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-2">
+                                Registration Questions
+                            </label>
+                            <p className="text-gray-500 text-xs mb-3">
+                                Ask attendees for details such as company, t-shirt size, dietary needs or consent
+                            </p>
+                            <RegistrationQuestionsEditor
+                                questions={formData.registrationQuestions}
+                                onChange={(registrationQuestions) => {
+                                    setFormData(prev => ({ ...prev, registrationQuestions }));
+                                    setErrors(prev => ({ ...prev, registrationQuestions: '' }));
+                                }}
+                            />
+                            {errors.registrationQuestions && <p className="text-red-400 text-sm mt-1">{errors.registrationQuestions}</p>}
+                        </div>
                     </div>
                 )}
 
@@ -582,47 +976,192 @@ const CreateEventForm = () => {
                             </div>
                         </div>
 
+                        {/* Speakers */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-2">
+                                Speakers
+                            </label>
+                            <SpeakerPicker
+                                selected={formData.speakers}
+                                onChange={handleSpeakersChange}
+                            />
+                        </div>
+
                         {/* Agenda */}
                         <div>
                             <label className="block text-sm font-medium text-gray-300 mb-2">
                                 Event Agenda *
                             </label>
+                            <AgendaEditor
+                                sessions={formData.agenda}
+                                onChange={handleAgendaChange}
+                                days={eventDays}
+                                lineup={formData.speakers}
+                            />
+                            {errors.agenda && <p className="text-red-400 text-sm mt-1">{errors.agenda}</p>}
+                        </div>
+
+                        {/* Series edit scope */}
+                        {isEditing && initialEvent.series && (
+                            <fieldset>
+                                <legend className="block text-sm font-medium text-gray-300 mb-2">
+                                    Apply Changes To
+                                </legend>
+                                <div className="flex flex-wrap gap-4">
+                                    {([
+                                        { value: 'this', label: 'This event' },
+                                        { value: 'following', label: 'This and following events' },
+                                        { value: 'all', label: 'All events in the series' },
+                                    ] as const).map((option) => (
+                                        <label key={option.value} className="flex items-center space-x-2 text-gray-300">
+                                            <input
+                                                type="radio"
+                                                name="scope"
+                                                value={option.value}
+                                                checked={editScope === option.value}
+                                                onChange={() => setEditScope(option.value)}
+                                                className="accent-primary-500"
+                                            />
+                                            <span>{option.label}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-gray-500 mt-2">The date is only changed for this event.</p>
+                            </fieldset>
+                        )}
+
+                        {/* Publishing is left to organizers; anyone else submits a draft for them to review */}
+                        {!canPublish && (
+                            <p className="text-sm text-gray-400 bg-white/5 border border-white/10 rounded-lg p-4">
+                                Your event will be saved as a draft for an organizer to review and publish.{' '}
+                                <a href={`/sign-in?next=${encodeURIComponent(duplicateOf ? `/events/${duplicateOf}/duplicate` : '/create-event')}`} className="text-primary-400 hover:text-primary-300">
+                                    Organizers can sign in
+                                </a>{' '}
+                                to publish it right away, schedule it or make it private.
+                            </p>
+                        )}
+
+                        {/* Visibility */}
+                        {canPublish && (
+                            <div>
+                                <label htmlFor="visibility" className="block text-sm font-medium text-gray-300 mb-2">
+                                    Visibility
+                                </label>
+                                <select
+                                    id="visibility"
+                                    name="visibility"
+                                    value={formData.visibility}
+                                    onChange={handleInputChange}
+                                    className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                >
+                                    {Object.entries(EVENT_VISIBILITIES).map(([value, config]) => (
+                                        <option key={value} value={value}>
+                                            {config.label}
+                                        </option>
+                                    ))}
+                                </select>
+                                <p className="text-gray-500 text-xs mt-1">{EVENT_VISIBILITIES[formData.visibility].description}</p>
+                            </div>
+                        )}
+
+                        {/* Scheduled publication (unpublished or still scheduled events) */}
+                        {canPublish && (canSaveDraft || wasScheduled) && (
                             <div className="space-y-3">
-                                {formData.agenda.map((item, index) => (
-                                    <div key={index} className="flex items-center gap-3 p-3 bg-white/5 rounded-lg">
-                    <span className="w-6 h-6 bg-primary-500 rounded-full text-sm flex items-center justify-center text-white font-medium">
-                      {index + 1}
-                    </span>
-                                        <span className="flex-1 text-gray-300">{item}</span>
-                                        <button
-                                            type="button"
-                                            onClick={() => handleRemoveAgendaItem(index)}
-                                            className="text-red-400 hover:text-red-300"
-                                        >
-                                            Remove
-                                        </button>
-                                    </div>
-                                ))}
-                                <div className="flex gap-2">
+                                <label className="flex items-center gap-3 text-sm font-medium text-gray-300">
                                     <input
-                                        type="text"
-                                        value={newAgendaItem}
-                                        onChange={(e) => setNewAgendaItem(e.target.value)}
-                                        onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddAgendaItem())}
-                                        className="flex-1 bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                                        placeholder="Add agenda item..."
+                                        type="checkbox"
+                                        checked={schedule.enabled}
+                                        onChange={(e) => setSchedule(prev => ({ ...prev, enabled: e.target.checked }))}
+                                        className="w-4 h-4 rounded border-white/10 bg-white/5 text-primary-500 focus:ring-primary-500"
                                     />
-                                    <button
-                                        type="button"
-                                        onClick={handleAddAgendaItem}
-                                        className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+                                    Schedule publication
+                                </label>
+                                {schedule.enabled && (
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <input
+                                            type="date"
+                                            value={schedule.date}
+                                            onChange={(e) => setSchedule(prev => ({ ...prev, date: e.target.value }))}
+                                            className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                            aria-label="Publication date"
+                                        />
+                                        <input
+                                            type="time"
+                                            value={schedule.time}
+                                            onChange={(e) => setSchedule(prev => ({ ...prev, time: e.target.value }))}
+                                            className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                            aria-label="Publication time"
+                                        />
+                                    </div>
+                                )}
+                                <p className="text-gray-500 text-xs">
+                                    {schedule.enabled
+                                        ? `The event page works by link right away, but stays out of listings until this time (${formData.timezone.replace(/_/g, ' ')}).`
+                                        : 'Publish now, or pick a time to announce the event.'}
+                                </p>
+                                {errors.publishAt && <p className="text-red-400 text-sm">{errors.publishAt}</p>}
+                            </div>
+                        )}
+
+                        {/* Editor name for the change history */}
+                        {isEditing && (
+                            <div>
+                                <label htmlFor="changedBy" className="block text-sm font-medium text-gray-300 mb-2">
+                                    Your Name
+                                </label>
+                                <input
+                                    type="text"
+                                    id="changedBy"
+                                    value={changedBy}
+                                    onChange={(e) => setChangedBy(e.target.value)}
+                                    maxLength={100}
+                                    className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                    placeholder="Shown next to this change in the event history"
+                                />
+                            </div>
+                        )}
+
+                        {/* Status (published events only) */}
+                        {!canSaveDraft && (
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                <div>
+                                    <label htmlFor="status" className="block text-sm font-medium text-gray-300 mb-2">
+                                        Event Status
+                                    </label>
+                                    <select
+                                        id="status"
+                                        name="status"
+                                        value={formData.status}
+                                        onChange={handleInputChange}
+                                        className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                                     >
-                                        Add
-                                    </button>
+                                        {[initialStatus, ...EVENT_STATUS_TRANSITIONS[initialStatus]].map((status) => (
+                                            <option key={status} value={status}>
+                                                {EVENT_STATUSES[status].label}
+                                            </option>
+                                        ))}
+                                    </select>
                                 </div>
-                                {errors.agenda && <p className="text-red-400 text-sm mt-1">{errors.agenda}</p>}
+
+                                {(formData.status === 'postponed' || formData.status === 'cancelled') && (
+                                    <div className="md:col-span-2">
+                                        <label htmlFor="statusNote" className="block text-sm font-medium text-gray-300 mb-2">
+                                            Note for Attendees
+                                        </label>
+                                        <textarea
+                                            id="statusNote"
+                                            name="statusNote"
+                                            value={formData.statusNote}
+                                            onChange={handleInputChange}
+                                            rows={2}
+                                            maxLength={300}
+                                            className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-vertical"
+                                            placeholder="Explain what changed and what attendees should expect..."
+                                        />
+                                    </div>
+                                )}
                             </div>
-                        </div>
+                        )}
                     </div>
                 )}
 
@@ -649,23 +1188,35 @@ const CreateEventForm = () => {
                             Continue
                         </button>
                     ) : (
-                        <button
-                            type="submit"
-                            disabled={isSubmitting}
-                            className="px-6 py-3 bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-lg hover:shadow-glow transition-all duration-200 disabled:opacity-50 flex items-center space-x-2"
-                        >
-                            {isSubmitting ? (
-                                <>
-                                    <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
-                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                                    </svg>
-                                    <span>Creating Event...</span>
-                                </>
-                            ) : (
-                                <span>Create Event</span>
+                        <div className="flex items-center gap-3">
+                            {canPublish && canSaveDraft && (
+                                <button
+                                    type="button"
+                                    onClick={handleSaveDraft}
+                                    disabled={isSubmitting}
+                                    className="px-6 py-3 bg-white/5 border border-white/10 text-gray-300 rounded-lg hover:bg-white/10 hover:text-white transition-colors disabled:opacity-50"
+                                >
+                                    {isEditing ? 'Save Draft' : 'Save as Draft'}
+                                </button>
                             )}
-                        </button>
+                            <button
+                                type="submit"
+                                disabled={isSubmitting}
+                                className="px-6 py-3 bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-lg hover:shadow-glow transition-all duration-200 disabled:opacity-50 flex items-center space-x-2"
+                            >
+                                {isSubmitting ? (
+                                    <>
+                                        <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                                        </svg>
+                                        <span>{isEditing ? 'Saving Changes...' : 'Creating Event...'}</span>
+                                    </>
+                                ) : (
+                                    <span>{!canPublish ? 'Submit Draft' : canSaveDraft ? (schedule.enabled ? 'Schedule Event' : isEditing ? 'Publish Event' : 'Create Event') : 'Save Changes'}</span>
+                                )}
+                            </button>
+                        </div>
                     )}
                 </div>
 
@@ -1,24 +1,39 @@
 import Link from "next/link";
 import Image from "next/image";
 import { IEvent } from "@/database";
-import { formatDate, formatTime } from "@/lib/utils";
+import { formatDateRange, formatPrice, formatTime, truncateText } from "@/lib/utils";
+import { markdownToPlainText } from "@/lib/markdown";
+import { DEFAULT_TIMEZONE } from "@/lib/timezone";
+import { EVENT_CONSTANTS } from "@/lib/constants";
+import { getLowestTicketPrice, getVisibleTicketTypes } from "@/lib/tickets";
 
-interface EventCardProps extends Omit<IEvent, '_id' | '__v'> {
-    id: string;
-    className?: string;
-}
+// Card fields only, so plain (lean) event objects can be spread into the card
+type EventCardProps = Pick<IEvent, 'title' | 'image' | 'slug' | 'location' | 'date' | 'time' | 'mode' | 'tags'>
+    & Partial<Pick<IEvent, 'description' | 'endDate' | 'timezone' | 'startsAt' | 'price' | 'ticketTypes'>>
+    & {
+        id: string;
+        className?: string;
+        distance?: number; // Kilometres from the searched location
+    };
 
 const EventCard = ({
                        id,
                        title,
+                       description,
                        image,
                        slug,
                        location,
                        date,
                        time,
+                       endDate,
+                       timezone,
+                       startsAt,
+                       price,
+                       ticketTypes,
                        mode,
                        tags,
-                       className
+                       className,
+                       distance
                    }: EventCardProps) => {
     const modeConfig = {
         online: { label: 'Online', icon: '🌐' },
@@ -26,6 +41,11 @@ const EventCard = ({
         hybrid: { label: 'Hybrid', icon: '🔀' },
     }[mode] || { label: 'In-Person', icon: '📍' };
 
+    // Cheapest public ticket, or the single event price for events without ticket types
+    const lowestPrice = getLowestTicketPrice(ticketTypes)
+        || (price !== undefined ? { price, currency: EVENT_CONSTANTS.DEFAULT_CURRENCY } : null);
+    const hasPriceRange = getVisibleTicketTypes(ticketTypes).length > 1;
+
     return (
         <Link
             href={`/events/${slug}`}
@@ -77,6 +97,13 @@ const EventCard = ({
                     {title}
                 </h3>
 
+                {/* Description excerpt, as plain text */}
+                {description && (
+                    <p className="text-sm text-gray-400 line-clamp-2">
+                        {truncateText(markdownToPlainText(description), 140)}
+                    </p>
+                )}
+
                 {/* Location */}
                 <div className="flex items-center space-x-2 text-sm text-gray-400">
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -84,6 +111,9 @@ const EventCard = ({
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
                     </svg>
                     <span className="line-clamp-1">{location}</span>
+                    {distance !== undefined && (
+                        <span className="flex-shrink-0 text-blue-300">· {distance < 1 ? '<1' : distance.toFixed(distance < 10 ? 1 : 0)} km</span>
+                    )}
                 </div>
 
                 {/* Date and Time */}
@@ -92,13 +122,13 @@ const EventCard = ({
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                         </svg>
-                        <span>{formatDate(date, { month: 'short', day: 'numeric' })}</span>
+                        <span>{formatDateRange(date, endDate, { month: 'short', day: 'numeric' })}</span>
                     </div>
                     <div className="flex items-center space-x-1">
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
-                        <span>{formatTime(time)}</span>
+                        <span>{formatTime(startsAt || time, { timeZone: timezone || DEFAULT_TIMEZONE, showTimeZone: true })}</span>
                     </div>
                 </div>
 
@@ -106,6 +136,12 @@ const EventCard = ({
                 <div className="pt-2 border-t border-white/10">
                     <div className="flex items-center justify-between text-xs text-blue-400">
                         <span>View details</span>
+                        {lowestPrice && (
+                            <span className="ml-auto mr-2 text-sm font-semibold text-white">
+                                {hasPriceRange && lowestPrice.price > 0 && <span className="text-xs font-normal text-gray-400">from </span>}
+                                {formatPrice(lowestPrice.price, lowestPrice.currency)}
+                            </span>
+                        )}
                         <svg className="w-4 h-4 transform group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                         </svg>
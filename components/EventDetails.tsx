@@ -1,12 +1,20 @@
 import React from 'react'
-import { notFound } from "next/navigation";
-import { IEvent } from "@/database";
+import { notFound, permanentRedirect } from "next/navigation";
+import Link from "next/link";
+import { IEvent, IEventSeries, IOrganization, ISpeaker } from "@/database";
 import { getSimilarEventsBySlug } from "@/lib/actions/event.actions";
 import Image from "next/image";
-import BookEvent from "@/components/BookEvent";
+import BookEvent, { QuestionOption, TicketOption } from "@/components/BookEvent";
 import EventCard from "@/components/EventCard";
-import { formatDate, formatTime, cn } from "@/lib/utils";
-import { EVENT_MODES } from "@/lib/constants";
+import Markdown from "@/components/Markdown";
+import EventGallery from "@/components/EventGallery";
+import LocalTime from "@/components/LocalTime";
+import { formatDate, formatDateRange, formatPrice, formatTime, cn } from "@/lib/utils";
+import { API_MESSAGES, EVENT_MODES, EventStatus, SESSION_TYPES } from "@/lib/constants";
+import { AgendaSession, groupSessionsByTrack, normalizeAgenda } from "@/lib/agenda";
+import { describeRRule, parseRRule } from "@/lib/recurrence";
+import { DEFAULT_TIMEZONE } from "@/lib/timezone";
+import { getLowestTicketPrice } from "@/lib/tickets";
 
 /**
  * Event details page component with comprehensive events information
@@ -36,22 +44,134 @@ const EventDetailItem = ({
     </div>
 );
 
-// Agenda component for structured events timeline
-const EventAgenda = ({ agendaItems }: { agendaItems: string[] }) => (
-    <div className="space-y-4">
-        <h2 className="text-2xl font-bold text-white mb-4">Event Agenda</h2>
-        <div className="space-y-3">
-            {agendaItems.map((item, index) => (
-                <div key={index} className="flex items-start space-x-3 p-3 bg-white/5 rounded-lg">
-                    <div className="flex items-center justify-center w-6 h-6 bg-primary-500 rounded-full text-xs font-bold text-white mt-0.5 flex-shrink-0">
-                        {index + 1}
-                    </div>
-                    <p className="text-gray-300 leading-relaxed">{item}</p>
+// Time range of a session, e.g. "9:00 AM – 10:30 AM"
+const formatSessionTime = (session: AgendaSession) => session.startTime
+    ? `${formatTime(session.startTime)}${session.endTime ? ` – ${formatTime(session.endTime)}` : ''}`
+    : null;
+
+// Speaker fields populated by the events API
+type SpeakerSummary = Pick<ISpeaker, 'name' | 'slug' | 'photo' | 'affiliation' | 'bio'> & { _id: string };
+
+// Speaker card linking to the speaker's profile page
+const SpeakerCard = ({ speaker }: { speaker: SpeakerSummary }) => (
+    <Link
+        href={`/speakers/${speaker.slug}`}
+        className="flex items-start gap-4 p-4 bg-white/5 rounded-lg border border-white/10 hover:border-primary-500/40 transition-colors"
+    >
+        {speaker.photo ? (
+            <Image src={speaker.photo} alt={speaker.name} width={56} height={56} className="w-14 h-14 rounded-full object-cover flex-shrink-0" />
+        ) : (
+            <div className="w-14 h-14 rounded-full bg-primary-500/20 flex items-center justify-center text-xl font-bold text-primary-300 flex-shrink-0">
+                {speaker.name.charAt(0)}
+            </div>
+        )}
+        <div className="min-w-0">
+            <p className="text-white font-semibold">{speaker.name}</p>
+            {speaker.affiliation && <p className="text-sm text-primary-400">{speaker.affiliation}</p>}
+            {speaker.bio && <p className="text-sm text-gray-400 mt-1 line-clamp-2">{speaker.bio}</p>}
+        </div>
+    </Link>
+);
+
+// Agenda component rendering sessions as a timeline per track
+const EventAgenda = ({ sessions, multiDay, lineup }: { sessions: AgendaSession[]; multiDay: boolean; lineup: SpeakerSummary[] }) => {
+    const tracks = groupSessionsByTrack(sessions);
+
+    return (
+        <div className="space-y-6">
+            <h2 className="text-2xl font-bold text-white mb-4">Event Agenda</h2>
+            {tracks.map(({ track, sessions: trackSessions }) => (
+                <div key={track || 'general'} className="space-y-3">
+                    {tracks.length > 1 && (
+                        <h3 className="text-lg font-semibold text-primary-300">{track || 'All Tracks'}</h3>
+                    )}
+                    <ol className="relative border-l border-white/10 ml-3 space-y-3">
+                        {trackSessions.map((session, index) => {
+                            const sessionType = SESSION_TYPES[session.type] || SESSION_TYPES.talk;
+                            const time = formatSessionTime(session);
+                            const sessionSpeakers = lineup.filter((speaker) => session.speakerIds?.includes(speaker._id));
+
+                            return (
+                                <li key={index} className="relative ml-6">
+                                    <span className="absolute -left-9 top-3 flex items-center justify-center w-6 h-6 bg-primary-500 rounded-full text-xs">
+                                        {sessionType.icon}
+                                    </span>
+                                    <div className={cn("p-3 rounded-lg", session.type === 'break' ? "bg-white/[0.02]" : "bg-white/5")}>
+                                        {(time || (multiDay && session.day)) && (
+                                            <p className="text-sm text-primary-400 font-medium">
+                                                {[multiDay && session.day && formatDate(session.day, { weekday: 'short', month: 'short', day: 'numeric' }), time]
+                                                    .filter(Boolean)
+                                                    .join(' · ')}
+                                            </p>
+                                        )}
+                                        <p className={cn("font-medium", session.type === 'break' ? "text-gray-400" : "text-white")}>
+                                            {session.title}
+                                        </p>
+                                        {(sessionSpeakers.length > 0 || session.speakers.length > 0 || session.room) && (
+                                            <p className="text-sm text-gray-400 mt-1">
+                                                {sessionSpeakers.map((speaker, speakerIndex) => (
+                                                    <React.Fragment key={speaker._id}>
+                                                        {speakerIndex > 0 && ', '}
+                                                        <Link href={`/speakers/${speaker.slug}`} className="text-primary-300 hover:underline">
+                                                            {speaker.name}
+                                                        </Link>
+                                                    </React.Fragment>
+                                                ))}
+                                                {sessionSpeakers.length > 0 && session.speakers.length > 0 && ', '}
+                                                {session.speakers.join(', ')}
+                                                {session.room && `${sessionSpeakers.length > 0 || session.speakers.length > 0 ? ' · ' : ''}${session.room}`}
+                                            </p>
+                                        )}
+                                        {session.abstract && (
+                                            <p className="text-gray-300 text-sm leading-relaxed mt-2">{session.abstract}</p>
+                                        )}
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ol>
                 </div>
             ))}
         </div>
-    </div>
-);
+    );
+};
+
+// Status banner content for events that are not simply published
+const STATUS_BANNERS: Partial<Record<EventStatus, { title: string; description: string; className: string }>> = {
+    draft: {
+        title: 'Draft',
+        description: 'This event is not published yet and is only visible to people with the link.',
+        className: 'bg-white/5 border-white/20 text-gray-300',
+    },
+    postponed: {
+        title: 'This event has been postponed',
+        description: 'A new date will be announced. Registration is closed until then.',
+        className: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-300',
+    },
+    cancelled: {
+        title: 'This event has been cancelled',
+        description: 'It will not take place and registration is closed.',
+        className: 'bg-red-500/10 border-red-500/30 text-red-300',
+    },
+    completed: {
+        title: 'This event has ended',
+        description: 'Thanks to everyone who attended.',
+        className: 'bg-white/5 border-white/20 text-gray-300',
+    },
+};
+
+// Banner highlighting drafts, postponements and cancellations
+const EventStatusBanner = ({ status, note }: { status: EventStatus; note?: string }) => {
+    const banner = STATUS_BANNERS[status];
+    if (!banner) return null;
+
+    return (
+        <div role="status" className={cn("rounded-2xl border p-5 mb-8 text-center", banner.className)}>
+            <p className="text-lg font-semibold">{banner.title}</p>
+            <p className="text-sm mt-1 opacity-90">{note || banner.description}</p>
+        </div>
+    );
+};
 
 // Tags component for events categorization
 const EventTags = ({ tags }: { tags: string[] }) => (
@@ -71,15 +191,30 @@ const EventTags = ({ tags }: { tags: string[] }) => (
 );
 
 // Main events details component
-const EventDetails = async ({ params }: { params: Promise<{ slug: string }> }) => {
+const EventDetails = async ({
+                                params,
+                                searchParams
+                            }: {
+    params: Promise<{ slug: string }>;
+    searchParams?: Promise<{ ticket?: string; invite?: string }>;
+}) => {
     const { slug } = await params;
+    // A direct link to a hidden ticket type, e.g. for sponsors, and the invite token of a private event
+    const { ticket, invite } = (await searchParams) || {};
+    // Copying a private event needs the invite as well; editing is left to signed-in organizers
+    const inviteQuery = invite ? `?invite=${encodeURIComponent(invite)}` : '';
+    const query = new URLSearchParams({
+        ...(ticket ? { ticket } : {}),
+        ...(invite ? { invite } : {}),
+    }).toString();
 
-    let event: IEvent | null = null;
+    // The events API adds the seats left before bookings go on the waitlist
+    let event: (IEvent & { spotsRemaining?: number | null }) | null = null;
 
     try {
         // Fetch events data from API
         const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
-        const response = await fetch(`${BASE_URL}/api/events/${slug}`, {
+        const response = await fetch(`${BASE_URL}/api/events/${slug}${query ? `?${query}` : ''}`, {
             next: {
                 revalidate: 60, // Revalidate every minute
                 tags: [`event-${slug}`] // For on-demand revalidation
@@ -90,6 +225,14 @@ const EventDetails = async ({ params }: { params: Promise<{ slug: string }> }) =
             if (response.status === 404) {
                 return notFound();
             }
+            if (response.status === 403) {
+                return (
+                    <div className="max-w-xl mx-auto px-4 py-24 text-center">
+                        <h1 className="text-3xl font-bold text-white mb-4">Private Event</h1>
+                        <p className="text-gray-300">{API_MESSAGES.ERROR.INVITE_REQUIRED}</p>
+                    </div>
+                );
+            }
             throw new Error(`Failed to fetch event: ${response.statusText}`);
         }
 
@@ -104,14 +247,25 @@ const EventDetails = async ({ params }: { params: Promise<{ slug: string }> }) =
         return notFound();
     }
 
+    // Old slugs resolve to the renamed event; send visitors to its current URL
+    if (event.slug !== slug) {
+        permanentRedirect(`/events/${event.slug}${query ? `?${query}` : ''}`);
+    }
+
     // Extract events properties with fallbacks
     const {
         title,
         description,
         image,
+        gallery,
         overview,
         date,
         time,
+        endDate,
+        endTime,
+        timezone,
+        startsAt,
+        endsAt,
         location,
         mode,
         agenda,
@@ -119,12 +273,43 @@ const EventDetails = async ({ params }: { params: Promise<{ slug: string }> }) =
         tags,
         organizer,
         venue,
+        geo,
         capacity,
+        spotsRemaining,
         price,
+        ticketTypes,
+        registrationQuestions,
         registrationUrl,
+        status,
+        statusNote,
         _id: eventId
     } = event;
 
+    // Events created before statuses existed are treated as published
+    const eventStatus: EventStatus = status || 'published';
+    const isBookable = eventStatus === 'published';
+
+    // Times are shown in the event's own timezone; events created before timezones existed use UTC
+    const eventTimeZone = timezone || DEFAULT_TIMEZONE;
+    const startTime = formatTime(startsAt || time, { timeZone: eventTimeZone, showTimeZone: true });
+    const timeLabel = endTime
+        ? `${startTime} – ${formatTime(endsAt || endTime, { timeZone: eventTimeZone, showTimeZone: true })}`
+        : startTime;
+
+    // The API only returns ticket types offered to this visitor
+    const lowestTicketPrice = getLowestTicketPrice(ticketTypes) || (ticketTypes.length > 0
+        ? { price: ticketTypes[0].price, currency: ticketTypes[0].currency }
+        : null);
+
+    // Populated by the API with profile fields
+    const speakers = (event.speakers || []) as unknown as SpeakerSummary[];
+
+    // Populated by the API when the organizer has an organization profile
+    const organization = event.organization as unknown as Pick<IOrganization, 'name' | 'slug' | 'logo'> | undefined;
+
+    // Populated by the API for occurrences of a recurring series
+    const series = event.series as unknown as Pick<IEventSeries, 'title' | 'slug' | 'rrule'> | undefined;
+
     const modeConfig = EVENT_MODES[mode as keyof typeof EVENT_MODES] || EVENT_MODES.offline;
 
     // Fetch similar events for recommendations
@@ -141,10 +326,61 @@ const EventDetails = async ({ params }: { params: Promise<{ slug: string }> }) =
                     {title}
                 </h1>
                 <p className="text-xl text-gray-300 max-w-3xl mx-auto leading-relaxed">
-                    {description}
+                    {overview}
                 </p>
+                <div className="flex items-center justify-center gap-6 mt-6">
+                    <Link
+                        href={`/events/${event.slug}/edit`}
+                        className="inline-flex items-center space-x-2 text-sm text-gray-400 hover:text-white transition-colors"
+                    >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                        </svg>
+                        <span>Edit Event</span>
+                    </Link>
+                    <Link
+                        href={`/events/${event.slug}/duplicate${inviteQuery}`}
+                        className="inline-flex items-center space-x-2 text-sm text-gray-400 hover:text-white transition-colors"
+                    >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                        </svg>
+                        <span>Duplicate</span>
+                    </Link>
+                    <Link
+                        href={`/events/${event.slug}/history`}
+                        className="inline-flex items-center space-x-2 text-sm text-gray-400 hover:text-white transition-colors"
+                    >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                        <span>History</span>
+                    </Link>
+                    <Link
+                        href={`/events/${event.slug}/waitlist`}
+                        className="inline-flex items-center space-x-2 text-sm text-gray-400 hover:text-white transition-colors"
+                    >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+                        </svg>
+                        <span>Waitlist</span>
+                    </Link>
+                </div>
             </div>
 
+            <EventStatusBanner status={eventStatus} note={statusNote} />
+
+            {/* Series Link */}
+            {series && (
+                <Link
+                    href={`/series/${series.slug}`}
+                    className="flex items-center justify-between rounded-2xl border border-primary-500/30 bg-primary-500/10 p-4 mb-8 text-primary-300 hover:bg-primary-500/20 transition-colors"
+                >
+                    <span>🔁 Part of <span className="font-semibold text-white">{series.title}</span> · {describeRRule(parseRRule(series.rrule))}</span>
+                    <span className="text-sm">See all dates →</span>
+                </Link>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                 {/* Main Content - 2/3 width on large screens */}
                 <div className="lg:col-span-2 space-y-8">
@@ -161,12 +397,20 @@ const EventDetails = async ({ params }: { params: Promise<{ slug: string }> }) =
                         <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent" />
                     </div>
 
-                    {/* Overview Section */}
+                    {/* Description Section (Markdown) */}
                     <section className="bg-white/5 rounded-2xl p-6 backdrop-blur-sm border border-white/10">
-                        <h2 className="text-2xl font-bold text-white mb-4">Overview</h2>
-                        <p className="text-gray-300 leading-relaxed text-lg">{overview}</p>
+                        <h2 className="text-2xl font-bold text-white mb-4">About This Event</h2>
+                        <Markdown source={description} className="text-lg" />
                     </section>
 
+                    {/* Photo Gallery */}
+                    {gallery && gallery.length > 0 && (
+                        <section className="bg-white/5 rounded-2xl p-6 backdrop-blur-sm border border-white/10">
+                            <h2 className="text-2xl font-bold text-white mb-4">Gallery</h2>
+                            <EventGallery photos={gallery} eventTitle={title} />
+                        </section>
+                    )}
+
                     {/* Event Details Grid */}
                     <section className="bg-white/5 rounded-2xl p-6 backdrop-blur-sm border border-white/10">
                         <h2 className="text-2xl font-bold text-white mb-6">Event Details</h2>
@@ -175,13 +419,13 @@ const EventDetails = async ({ params }: { params: Promise<{ slug: string }> }) =
                                 icon="/icons/calendar.svg"
                                 alt="Date"
                                 label="Date"
-                                value={formatDate(date, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+                                value={formatDateRange(date, endDate, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
                             />
                             <EventDetailItem
                                 icon="/icons/clock.svg"
                                 alt="Time"
                                 label="Time"
-                                value={formatTime(time)}
+                                value={timeLabel}
                             />
                             <EventDetailItem
                                 icon="/icons/pin.svg"
@@ -210,19 +454,57 @@ const EventDetails = async ({ params }: { params: Promise<{ slug: string }> }) =
                                 />
                             )}
                         </div>
+                        {startsAt && (
+                            <LocalTime
+                                startsAt={startsAt}
+                                timeZone={eventTimeZone}
+                                className="mt-4 text-sm text-gray-400"
+                            />
+                        )}
+                        {geo && (
+                            <a
+                                href={`https://www.openstreetmap.org/?mlat=${geo.coordinates[1]}&mlon=${geo.coordinates[0]}#map=17/${geo.coordinates[1]}/${geo.coordinates[0]}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-block mt-4 text-sm text-primary-400 hover:text-primary-300"
+                            >
+                                View venue on map →
+                            </a>
+                        )}
                     </section>
 
                     {/* Agenda Section */}
                     {agenda && agenda.length > 0 && (
                         <section className="bg-white/5 rounded-2xl p-6 backdrop-blur-sm border border-white/10">
-                            <EventAgenda agendaItems={agenda} />
+                            <EventAgenda sessions={normalizeAgenda(agenda)} multiDay={!!endDate && endDate !== date} lineup={speakers} />
+                        </section>
+                    )}
+
+                    {/* Speakers Section */}
+                    {speakers.length > 0 && (
+                        <section className="bg-white/5 rounded-2xl p-6 backdrop-blur-sm border border-white/10">
+                            <h2 className="text-2xl font-bold text-white mb-4">Speakers</h2>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                {speakers.map((speaker) => (
+                                    <SpeakerCard key={speaker._id} speaker={speaker} />
+                                ))}
+                            </div>
                         </section>
                     )}
 
                     {/* Organizer Section */}
                     <section className="bg-white/5 rounded-2xl p-6 backdrop-blur-sm border border-white/10">
                         <h2 className="text-2xl font-bold text-white mb-4">About the Organizer</h2>
-                        <p className="text-gray-300 leading-relaxed">{organizer}</p>
+                        {organization ? (
+                            <Link href={`/organizers/${organization.slug}`} className="flex items-center gap-4 group">
+                                {organization.logo && (
+                                    <Image src={organization.logo} alt={organization.name} width={48} height={48} className="w-12 h-12 rounded-lg object-cover" />
+                                )}
+                                <span className="text-gray-300 leading-relaxed group-hover:text-white transition-colors">{organization.name}</span>
+                            </Link>
+                        ) : (
+                            <p className="text-gray-300 leading-relaxed">{organizer}</p>
+                        )}
                     </section>
 
                     {/* Tags Section */}
@@ -244,15 +526,24 @@ const EventDetails = async ({ params }: { params: Promise<{ slug: string }> }) =
                         </div>
 
                         {/* Price Display */}
-                        {price !== undefined && price > 0 && (
+                        {lowestTicketPrice ? (
+                            <div className="text-center mb-6">
+                                {ticketTypes.length > 1 && <span className="text-gray-400 mr-2">from</span>}
+                                <span className="text-3xl font-bold text-white">{formatPrice(lowestTicketPrice.price, lowestTicketPrice.currency)}</span>
+                            </div>
+                        ) : price !== undefined && price > 0 && (
                             <div className="text-center mb-6">
                                 <span className="text-3xl font-bold text-white">${price}</span>
                                 <span className="text-gray-400 ml-2">per ticket</span>
                             </div>
                         )}
 
-                        {/* External Registration Link */}
-                        {registrationUrl ? (
+                        {/* Registration closed for unpublished events */}
+                        {!isBookable ? (
+                            <div className="bg-white/5 border border-white/10 rounded-lg p-4 text-center text-gray-300">
+                                {API_MESSAGES.ERROR.EVENT_NOT_OPEN}
+                            </div>
+                        ) : registrationUrl ? (
                             <a
                                 href={registrationUrl}
                                 target="_blank"
@@ -271,6 +562,11 @@ const EventDetails = async ({ params }: { params: Promise<{ slug: string }> }) =
                                 slug={slug}
                                 eventTitle={title}
                                 capacity={capacity}
+                                isFull={spotsRemaining === 0}
+                                ticketTypes={ticketTypes as TicketOption[]}
+                                price={price}
+                                registrationQuestions={(registrationQuestions || []) as QuestionOption[]}
+                                inviteToken={invite}
                             />
                         )}
 
@@ -0,0 +1,113 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import { GalleryImage } from '@/lib/gallery';
+
+/**
+ * Photo gallery section for the event page
+ * Thumbnails open a lightbox that can be stepped through with the arrow keys and closed with Escape
+ */
+
+interface EventGalleryProps {
+    photos: GalleryImage[];
+    eventTitle: string;
+}
+
+const EventGallery = ({ photos, eventTitle }: EventGalleryProps) => {
+    const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+    const close = useCallback(() => setOpenIndex(null), []);
+    const step = useCallback((offset: number) => {
+        setOpenIndex(current => current === null ? null : (current + offset + photos.length) % photos.length);
+    }, [photos.length]);
+
+    // Keyboard navigation while the lightbox is open
+    useEffect(() => {
+        if (openIndex === null) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') close();
+            if (e.key === 'ArrowLeft') step(-1);
+            if (e.key === 'ArrowRight') step(1);
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [openIndex, close, step]);
+
+    const photoAlt = (photo: GalleryImage, index: number) => photo.caption || `${eventTitle} photo ${index + 1}`;
+    const openPhoto = openIndex !== null ? photos[openIndex] : null;
+
+    return (
+        <>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {photos.map((photo, index) => (
+                    <button
+                        key={photo.url}
+                        type="button"
+                        onClick={() => setOpenIndex(index)}
+                        className="relative aspect-[4/3] rounded-lg overflow-hidden group focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                        <Image
+                            src={photo.url}
+                            alt={photoAlt(photo, index)}
+                            fill
+                            className="object-cover transition-transform duration-300 group-hover:scale-105"
+                            sizes="(max-width: 768px) 50vw, 22vw"
+                        />
+                    </button>
+                ))}
+            </div>
+
+            {openPhoto && openIndex !== null && (
+                <div
+                    role="dialog"
+                    aria-modal="true"
+                    aria-label={photoAlt(openPhoto, openIndex)}
+                    className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-black/90 backdrop-blur-sm p-4"
+                    onClick={close}
+                >
+                    <div className="relative w-full max-w-5xl h-[75vh]" onClick={(e) => e.stopPropagation()}>
+                        <Image
+                            src={openPhoto.url}
+                            alt={photoAlt(openPhoto, openIndex)}
+                            fill
+                            className="object-contain"
+                            sizes="100vw"
+                            priority
+                        />
+                    </div>
+
+                    <div className="mt-4 flex items-center gap-6 text-white" onClick={(e) => e.stopPropagation()}>
+                        {photos.length > 1 && (
+                            <button type="button" onClick={() => step(-1)} className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20" aria-label="Previous photo">
+                                ←
+                            </button>
+                        )}
+                        <p className="text-sm text-gray-300 text-center max-w-xl">
+                            {openPhoto.caption && <span className="text-white">{openPhoto.caption} · </span>}
+                            {openIndex + 1} / {photos.length}
+                        </p>
+                        {photos.length > 1 && (
+                            <button type="button" onClick={() => step(1)} className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20" aria-label="Next photo">
+                                →
+                            </button>
+                        )}
+                    </div>
+
+                    <button
+                        type="button"
+                        onClick={close}
+                        className="absolute top-4 right-4 text-3xl text-gray-300 hover:text-white"
+                        aria-label="Close gallery"
+                    >
+                        ×
+                    </button>
+                </div>
+            )}
+        </>
+    );
+};
+
+export default EventGallery;
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { GalleryImage } from '@/lib/gallery';
+import { EVENT_CONSTANTS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+
+/**
+ * Photo gallery editor for the event form
+ * Photos are uploaded in bulk through /api/upload, then captioned, reordered or removed
+ * Any photo can be picked as the event's cover image
+ */
+
+interface GalleryEditorProps {
+    photos: GalleryImage[];
+    onChange: (photos: GalleryImage[]) => void;
+    coverImage: string;
+    onCoverChange: (url: string) => void;
+}
+
+const inputClassName = "w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+
+const GalleryEditor = ({ photos, onChange, coverImage, onCoverChange }: GalleryEditorProps) => {
+    const [isUploading, setIsUploading] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        const room = EVENT_CONSTANTS.MAX_GALLERY_IMAGES - photos.length;
+        if (files.length > room) {
+            setError(`A gallery can have at most ${EVENT_CONSTANTS.MAX_GALLERY_IMAGES} photos; ${room} more can be added`);
+            return;
+        }
+
+        setIsUploading(true);
+        setError('');
+        try {
+            // The upload API takes a limited number of files per request
+            const uploaded: GalleryImage[] = [];
+            for (let i = 0; i < files.length; i += EVENT_CONSTANTS.MAX_UPLOAD_FILES) {
+                const uploadData = new FormData();
+                files.slice(i, i + EVENT_CONSTANTS.MAX_UPLOAD_FILES).forEach(file => uploadData.append('file', file));
+
+                const response = await fetch('/api/upload', { method: 'POST', body: uploadData });
+                const result = await response.json();
+
+                if (!response.ok) {
+                    setError(result.message || 'Failed to upload photos');
+                    break;
+                }
+                uploaded.push(...result.files.map((file: { url: string }) => ({ url: file.url, caption: '' })));
+            }
+
+            if (uploaded.length > 0) {
+                onChange([...photos, ...uploaded]);
+            }
+        } catch (uploadError) {
+            console.error('Gallery upload error:', uploadError);
+            setError('An unexpected error occurred');
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const updateCaption = (index: number, caption: string) => {
+        onChange(photos.map((photo, i) => i === index ? { ...photo, caption } : photo));
+    };
+
+    const movePhoto = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= photos.length) return;
+
+        const reordered = [...photos];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        onChange(reordered);
+    };
+
+    return (
+        <div className="space-y-3">
+            {photos.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {photos.map((photo, index) => (
+                        <div key={photo.url} className="flex gap-3 p-3 bg-white/5 rounded-lg">
+                            <div className="relative w-24 h-16 flex-shrink-0 rounded overflow-hidden">
+                                <Image src={photo.url} alt={photo.caption || `Photo ${index + 1}`} fill className="object-cover" sizes="96px" />
+                                {photo.url === coverImage && (
+                                    <span className="absolute bottom-0 inset-x-0 bg-primary-500/80 text-white text-[10px] text-center">Cover</span>
+                                )}
+                            </div>
+                            <div className="flex-1 min-w-0 space-y-2">
+                                <input
+                                    type="text"
+                                    value={photo.caption || ''}
+                                    onChange={(e) => updateCaption(index, e.target.value)}
+                                    maxLength={200}
+                                    className={inputClassName}
+                                    placeholder="Caption (optional)"
+                                    aria-label={`Caption for photo ${index + 1}`}
+                                />
+                                <div className="flex flex-wrap gap-3 text-xs">
+                                    <button type="button" onClick={() => movePhoto(index, -1)} disabled={index === 0} className="text-gray-400 hover:text-white disabled:opacity-30">
+                                        ← Earlier
+                                    </button>
+                                    <button type="button" onClick={() => movePhoto(index, 1)} disabled={index === photos.length - 1} className="text-gray-400 hover:text-white disabled:opacity-30">
+                                        Later →
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onCoverChange(photo.url)}
+                                        disabled={photo.url === coverImage}
+                                        className={cn("text-primary-400 hover:text-primary-300", photo.url === coverImage && "opacity-30")}
+                                    >
+                                        Use as cover
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onChange(photos.filter((_, i) => i !== index))}
+                                        disabled={photo.url === coverImage}
+                                        className="text-red-400 hover:text-red-300 disabled:opacity-30"
+                                        title={photo.url === coverImage ? 'Pick another cover before removing this photo' : undefined}
+                                    >
+                                        Remove
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <label className={cn(
+                "inline-flex items-center px-4 py-2 rounded-lg text-sm transition-colors",
+                isUploading ? "bg-white/5 text-gray-500" : "bg-primary-500 text-white hover:bg-primary-600 cursor-pointer"
+            )}>
+                {isUploading ? 'Uploading...' : '+ Add Photos'}
+                <input
+                    type="file"
+                    className="hidden"
+                    accept="image/jpeg,image/png,image/webp,image/gif"
+                    multiple
+                    disabled={isUploading}
+                    onChange={handleUpload}
+                />
+            </label>
+            <p className="text-xs text-gray-500">
+                {photos.length} of {EVENT_CONSTANTS.MAX_GALLERY_IMAGES} photos · up to 5MB each
+            </p>
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+        </div>
+    );
+};
+
+export default GalleryEditor;
@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDate, formatTime } from '@/lib/utils';
+import { getLocalTimeZone } from '@/lib/timezone';
+
+/**
+ * Shows an event's start in the viewer's own timezone
+ * Renders nothing when the viewer is in the event's timezone
+ * The viewer's timezone is only known in the browser, so it is read after mounting
+ */
+
+interface LocalTimeProps {
+    startsAt: string | Date;
+    timeZone: string;
+    className?: string;
+}
+
+const LocalTime = ({ startsAt, timeZone, className }: LocalTimeProps) => {
+    const [viewerTimeZone, setViewerTimeZone] = useState<string | null>(null);
+
+    useEffect(() => {
+        setViewerTimeZone(getLocalTimeZone());
+    }, []);
+
+    if (!viewerTimeZone) return null;
+
+    // Zones with the same offset and abbreviation (e.g. Europe/Paris and Europe/Berlin) need no conversion
+    const localTime = formatTime(startsAt, { timeZone: viewerTimeZone, showTimeZone: true });
+    if (localTime === formatTime(startsAt, { timeZone, showTimeZone: true })) return null;
+
+    return (
+        <p className={className}>
+            Your time: {formatDate(new Date(startsAt), { weekday: 'short', month: 'short', day: 'numeric', timeZone: viewerTimeZone })}, {localTime}
+        </p>
+    );
+};
+
+export default LocalTime;
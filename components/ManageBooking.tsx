@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { cancelBooking, updateBookingName } from '@/lib/actions/booking.actions';
+
+/**
+ * Actions on the attendee's booking page: fix the attendee name, download the ticket or cancel
+ * Every action sends the manage link's token, which is the attendee's only credential
+ */
+
+interface ManageBookingProps {
+    token: string;
+    fullName: string;
+    status: 'confirmed' | 'waitlisted' | 'pending_verification';
+}
+
+const ManageBooking = ({ token, fullName, status }: ManageBookingProps) => {
+    const router = useRouter();
+    const [name, setName] = useState(fullName);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isCancelling, setIsCancelling] = useState(false);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setMessage('');
+        setError('');
+
+        if (name.trim().length < 2) {
+            setError('Please enter your full name');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const result = await updateBookingName(token, name.trim());
+            if (result.success) {
+                setMessage(result.message);
+                router.refresh();
+            } else {
+                setError(result.message);
+            }
+        } catch (err) {
+            console.error('Booking update error:', err);
+            setError('An unexpected error occurred. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!window.confirm('Cancel this booking? Your seat will be offered to someone else.')) return;
+
+        setMessage('');
+        setError('');
+        setIsCancelling(true);
+        try {
+            const result = await cancelBooking(token);
+            if (result.success) {
+                router.refresh();
+            } else {
+                setError(result.message);
+            }
+        } catch (err) {
+            console.error('Booking cancellation error:', err);
+            setError('An unexpected error occurred. Please try again.');
+        } finally {
+            setIsCancelling(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <form onSubmit={handleSave} className="space-y-3">
+                <label htmlFor="fullName" className="block text-sm font-medium text-gray-300">
+                    Attendee Name
+                </label>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        id="fullName"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        maxLength={100}
+                        className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+                        disabled={isSaving || isCancelling}
+                    />
+                    <button
+                        type="submit"
+                        disabled={isSaving || isCancelling || name.trim() === fullName}
+                        className="px-4 py-3 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                    >
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </form>
+
+            {message && <p className="text-green-400 text-sm">{message}</p>}
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+            <div className="flex flex-wrap gap-3">
+                {status === 'confirmed' && (
+                    <a
+                        href={`/api/bookings/${encodeURIComponent(token)}/ticket`}
+                        className="px-6 py-3 bg-gradient-to-r from-primary-500 to-accent-500 text-white font-semibold rounded-lg hover:shadow-glow transition-all duration-200"
+                    >
+                        Download Ticket
+                    </a>
+                )}
+                <button
+                    type="button"
+                    onClick={handleCancel}
+                    disabled={isSaving || isCancelling}
+                    className="px-6 py-3 bg-red-500/10 text-red-400 border border-red-500/20 rounded-lg hover:bg-red-500/20 transition-colors disabled:opacity-50"
+                >
+                    {isCancelling ? 'Cancelling...' : status === 'waitlisted' ? 'Leave Waitlist' : 'Cancel Booking'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ManageBooking;
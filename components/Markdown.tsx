@@ -0,0 +1,87 @@
+import React from 'react';
+import { MarkdownInline, parseMarkdown } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+/**
+ * Renders Markdown from lib/markdown as React elements
+ * Text is escaped by React and links are limited to safe protocols, so no HTML from the source
+ * is ever injected; external links open in a new tab without passing the opener or referrer
+ * Works on the server (event page) and in the browser (form preview)
+ */
+
+interface MarkdownProps {
+    source: string;
+    className?: string;
+}
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] => nodes.map((node, index) => {
+    switch (node.type) {
+        case 'text':
+            return <React.Fragment key={index}>{node.text}</React.Fragment>;
+        case 'code':
+            return <code key={index} className="px-1.5 py-0.5 rounded bg-white/10 text-primary-200 text-[0.9em]">{node.text}</code>;
+        case 'strong':
+            return <strong key={index} className="font-semibold text-white">{renderInline(node.children)}</strong>;
+        case 'emphasis':
+            return <em key={index}>{renderInline(node.children)}</em>;
+        case 'link': {
+            const isExternal = !node.href.startsWith('/');
+            return (
+                <a
+                    key={index}
+                    href={node.href}
+                    className="text-primary-400 underline underline-offset-2 hover:text-primary-300"
+                    {...(isExternal ? { target: '_blank', rel: 'nofollow noopener noreferrer' } : {})}
+                >
+                    {renderInline(node.children)}
+                </a>
+            );
+        }
+        case 'break':
+            return <br key={index} />;
+    }
+});
+
+const HEADING_CLASSES = {
+    1: 'text-2xl font-bold text-white',
+    2: 'text-xl font-semibold text-white',
+    3: 'text-lg font-semibold text-white',
+};
+
+const Markdown = ({ source, className }: MarkdownProps) => (
+    <div className={cn('space-y-4 text-gray-300 leading-relaxed', className)}>
+        {parseMarkdown(source).map((block, index) => {
+            switch (block.type) {
+                case 'heading': {
+                    // Start below the page's own h1 and section h2 headings
+                    const Tag = `h${block.level + 2}` as 'h3' | 'h4' | 'h5';
+                    return <Tag key={index} className={HEADING_CLASSES[block.level]}>{renderInline(block.children)}</Tag>;
+                }
+                case 'paragraph':
+                    return <p key={index}>{renderInline(block.children)}</p>;
+                case 'list': {
+                    const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+                    return block.ordered
+                        ? <ol key={index} start={block.start} className="list-decimal pl-6 space-y-1">{items}</ol>
+                        : <ul key={index} className="list-disc pl-6 space-y-1">{items}</ul>;
+                }
+                case 'blockquote':
+                    return (
+                        <blockquote key={index} className="border-l-4 border-primary-500/50 pl-4 italic text-gray-400">
+                            {renderInline(block.children)}
+                        </blockquote>
+                    );
+                case 'code':
+                    return (
+                        <pre key={index} className="p-4 rounded-lg bg-black/40 border border-white/10 overflow-x-auto text-sm">
+                            <code>{block.text}</code>
+                        </pre>
+                    );
+                case 'rule':
+                    return <hr key={index} className="border-white/10" />;
+            }
+        })}
+    </div>
+);
+
+export default Markdown;
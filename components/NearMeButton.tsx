@@ -0,0 +1,60 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { MapPinIcon } from '@heroicons/react/24/outline';
+
+/**
+ * Button limiting the events listing to events near the viewer
+ * Reads the browser's location and adds it to the URL as near=lat,lng, sorted by distance
+ */
+
+const NearMeButton = () => {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const [isLocating, setIsLocating] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleClick = () => {
+        if (!navigator.geolocation) {
+            setError('Location is not available in this browser');
+            return;
+        }
+
+        setIsLocating(true);
+        setError('');
+        navigator.geolocation.getCurrentPosition(
+            ({ coords }) => {
+                const params = new URLSearchParams(searchParams.toString());
+                // Two decimals (about 1 km) are precise enough and keep the URL readable
+                params.set('near', `${coords.latitude.toFixed(2)},${coords.longitude.toFixed(2)}`);
+                params.set('sort', 'distance');
+                params.delete('page');
+                setIsLocating(false);
+                router.push(`/events?${params.toString()}`);
+            },
+            () => {
+                setIsLocating(false);
+                setError('Could not get your location');
+            },
+            { timeout: 10000 }
+        );
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <button
+                type="button"
+                onClick={handleClick}
+                disabled={isLocating}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-medium transition-all whitespace-nowrap bg-white/5 border-white/10 text-gray-400 hover:text-white hover:border-white/30 disabled:opacity-50"
+            >
+                <MapPinIcon className="w-3 h-3 text-green-400" />
+                <span>{isLocating ? 'Locating...' : 'Near me'}</span>
+            </button>
+            {error && <span className="text-xs text-red-400">{error}</span>}
+        </div>
+    );
+};
+
+export default NearMeButton;
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { signInOrganizer, signOutOrganizer } from '@/lib/actions/auth.actions';
+
+/**
+ * Organizer sign-in with the admin key, or sign-out for a browser that is already signed in
+ * After signing in the organizer is sent on to the page that asked for it
+ */
+
+interface OrganizerSignInProps {
+    signedIn: boolean;
+    // Page to return to after signing in; only paths on this site are followed
+    next?: string;
+}
+
+const OrganizerSignIn = ({ signedIn, next }: OrganizerSignInProps) => {
+    const router = useRouter();
+    const [key, setKey] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    const returnTo = next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/';
+
+    const handleSignIn = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setIsSubmitting(true);
+        try {
+            const result = await signInOrganizer(key);
+            if (result.success) {
+                router.push(returnTo);
+                router.refresh();
+            } else {
+                setError(result.message);
+            }
+        } catch (err) {
+            console.error('Organizer sign-in error:', err);
+            setError('An unexpected error occurred. Please try again.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleSignOut = async () => {
+        setIsSubmitting(true);
+        try {
+            await signOutOrganizer();
+            router.refresh();
+        } catch (err) {
+            console.error('Organizer sign-out error:', err);
+            setError('An unexpected error occurred. Please try again.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (signedIn) {
+        return (
+            <div className="space-y-4">
+                <p className="text-gray-300">You&apos;re signed in as an organizer on this browser.</p>
+                <button
+                    type="button"
+                    onClick={handleSignOut}
+                    disabled={isSubmitting}
+                    className="px-6 py-3 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                >
+                    {isSubmitting ? 'Signing out...' : 'Sign Out'}
+                </button>
+                {error && <p className="text-red-400 text-sm">{error}</p>}
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleSignIn} className="space-y-4 text-left">
+            <label htmlFor="adminKey" className="block text-sm font-medium text-gray-300">
+                Admin Key
+            </label>
+            <input
+                type="password"
+                id="adminKey"
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                autoComplete="current-password"
+                className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+                disabled={isSubmitting}
+            />
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+            <button
+                type="submit"
+                disabled={isSubmitting || key.trim() === ''}
+                className="w-full px-6 py-3 bg-gradient-to-r from-primary-500 to-accent-500 text-white font-semibold rounded-lg hover:shadow-glow transition-all duration-200 disabled:opacity-50"
+            >
+                {isSubmitting ? 'Signing in...' : 'Sign In'}
+            </button>
+        </form>
+    );
+};
+
+export default OrganizerSignIn;
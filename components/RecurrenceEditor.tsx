@@ -0,0 +1,274 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+    WEEKDAYS,
+    Weekday,
+    RecurrenceRule,
+    describeRRule,
+    expandOccurrences,
+    formatRRule,
+} from '@/lib/recurrence';
+import { formatDate, cn } from '@/lib/utils';
+import { EVENT_CONSTANTS } from '@/lib/constants';
+
+/**
+ * Recurrence editor for creating an event series
+ * Builds an RRULE from simple controls and previews the upcoming dates
+ * onChange must be stable (e.g. a state setter) since it is an effect dependency
+ */
+
+export interface RecurrenceValue {
+    rrule: string;
+    exdates: string[];
+}
+
+interface RecurrenceEditorProps {
+    startDate: string;
+    onChange: (value: RecurrenceValue | null) => void;
+}
+
+type EndMode = 'never' | 'count' | 'until';
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+    MO: 'Mon',
+    TU: 'Tue',
+    WE: 'Wed',
+    TH: 'Thu',
+    FR: 'Fri',
+    SA: 'Sat',
+    SU: 'Sun',
+};
+
+const inputClassName = "w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+
+const RecurrenceEditor = ({ startDate, onChange }: RecurrenceEditorProps) => {
+    const [freq, setFreq] = useState<'NONE' | 'WEEKLY' | 'MONTHLY'>('NONE');
+    const [repeatInterval, setRepeatInterval] = useState(1);
+    const [weekdays, setWeekdays] = useState<Weekday[]>([]);
+    const [monthlyMode, setMonthlyMode] = useState<'day' | 'weekday'>('weekday');
+    const [endMode, setEndMode] = useState<EndMode>('count');
+    const [count, setCount] = useState(10);
+    const [until, setUntil] = useState('');
+    const [exdates, setExdates] = useState<string[]>([]);
+    const [newExdate, setNewExdate] = useState('');
+
+    const start = startDate ? new Date(`${startDate}T00:00:00Z`) : null;
+    const startWeekday = start ? WEEKDAYS[start.getUTCDay()] : null;
+    // Fifth occurrences are treated as "last" so the rule exists every month
+    const startOrdinal = start ? Math.min(Math.ceil(start.getUTCDate() / 7), 5) : null;
+
+    // Build the rule from the current controls
+    const rule = useMemo<RecurrenceRule | null>(() => {
+        if (freq === 'NONE' || !startWeekday || !startOrdinal) return null;
+
+        const byDay = freq === 'WEEKLY'
+            ? (weekdays.length > 0 ? weekdays : [startWeekday]).map((weekday) => ({ weekday }))
+            : monthlyMode === 'weekday'
+                ? [{ weekday: startWeekday, ordinal: startOrdinal === 5 ? -1 : startOrdinal }]
+                : [];
+
+        return {
+            freq,
+            interval: Math.max(1, repeatInterval),
+            byDay,
+            count: endMode === 'count' ? Math.max(1, count) : undefined,
+            until: endMode === 'until' && until ? until : undefined,
+        };
+    }, [freq, repeatInterval, weekdays, monthlyMode, endMode, count, until, startWeekday, startOrdinal]);
+
+    const rrule = rule ? formatRRule(rule) : null;
+
+    // Report the rule to the parent form whenever it changes
+    useEffect(() => {
+        onChange(rrule ? { rrule, exdates } : null);
+    }, [rrule, exdates, onChange]);
+
+    const preview = rule && startDate ? expandOccurrences(rule, startDate, { exdates, limit: 5 }) : [];
+
+    const toggleWeekday = (weekday: Weekday) => {
+        setWeekdays(prev => {
+            // Until days are picked explicitly, the start date's weekday is selected
+            const current = prev.length > 0 || !startWeekday ? prev : [startWeekday];
+            return current.includes(weekday)
+                ? current.filter(day => day !== weekday)
+                : [...current, weekday];
+        });
+    };
+
+    const handleAddExdate = () => {
+        if (newExdate && !exdates.includes(newExdate)) {
+            setExdates(prev => [...prev, newExdate].sort());
+            setNewExdate('');
+        }
+    };
+
+    return (
+        <div className="space-y-4 p-4 bg-white/5 rounded-lg border border-white/10">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Frequency */}
+                <div>
+                    <label htmlFor="recurrence-freq" className="block text-sm font-medium text-gray-300 mb-2">
+                        Repeats
+                    </label>
+                    <select
+                        id="recurrence-freq"
+                        value={freq}
+                        onChange={(e) => setFreq(e.target.value as typeof freq)}
+                        className={inputClassName}
+                    >
+                        <option value="NONE">Does not repeat</option>
+                        <option value="WEEKLY">Weekly</option>
+                        <option value="MONTHLY">Monthly</option>
+                    </select>
+                </div>
+
+                {/* Interval */}
+                {freq !== 'NONE' && (
+                    <div>
+                        <label htmlFor="recurrence-interval" className="block text-sm font-medium text-gray-300 mb-2">
+                            Every
+                        </label>
+                        <div className="flex items-center gap-3">
+                            <input
+                                type="number"
+                                id="recurrence-interval"
+                                min="1"
+                                value={repeatInterval}
+                                onChange={(e) => setRepeatInterval(Number(e.target.value))}
+                                className={inputClassName}
+                            />
+                            <span className="text-gray-400">{freq === 'WEEKLY' ? 'week(s)' : 'month(s)'}</span>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {!startDate && freq !== 'NONE' && (
+                <p className="text-sm text-yellow-400">Pick the event date first; the series starts on that date.</p>
+            )}
+
+            {/* Weekly days */}
+            {freq === 'WEEKLY' && (
+                <div className="flex flex-wrap gap-2">
+                    {(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as Weekday[]).map((weekday) => {
+                        const selected = weekdays.length > 0 ? weekdays.includes(weekday) : weekday === startWeekday;
+                        return (
+                            <button
+                                key={weekday}
+                                type="button"
+                                onClick={() => toggleWeekday(weekday)}
+                                className={cn(
+                                    "px-3 py-1.5 rounded-full text-sm transition-colors",
+                                    selected ? "bg-primary-500 text-white" : "bg-white/5 text-gray-300 hover:bg-white/10"
+                                )}
+                            >
+                                {WEEKDAY_LABELS[weekday]}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Monthly pattern */}
+            {freq === 'MONTHLY' && start && (
+                <select
+                    value={monthlyMode}
+                    onChange={(e) => setMonthlyMode(e.target.value as typeof monthlyMode)}
+                    className={inputClassName}
+                >
+                    <option value="weekday">
+                        On the {startOrdinal === 5 ? 'last' : ['first', 'second', 'third', 'fourth'][startOrdinal! - 1]} {formatDate(start, { weekday: 'long', timeZone: 'UTC' })}
+                    </option>
+                    <option value="day">On day {start.getUTCDate()}</option>
+                </select>
+            )}
+
+            {/* End condition */}
+            {freq !== 'NONE' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <select
+                        value={endMode}
+                        onChange={(e) => setEndMode(e.target.value as EndMode)}
+                        className={inputClassName}
+                    >
+                        <option value="count">Ends after</option>
+                        <option value="until">Ends on</option>
+                        <option value="never">Keeps going</option>
+                    </select>
+                    {endMode === 'count' && (
+                        <input
+                            type="number"
+                            min="1"
+                            value={count}
+                            onChange={(e) => setCount(Number(e.target.value))}
+                            className={inputClassName}
+                            aria-label="Number of occurrences"
+                        />
+                    )}
+                    {endMode === 'until' && (
+                        <input
+                            type="date"
+                            min={startDate}
+                            value={until}
+                            onChange={(e) => setUntil(e.target.value)}
+                            className={inputClassName}
+                            aria-label="Last date"
+                        />
+                    )}
+                </div>
+            )}
+
+            {/* Exceptions */}
+            {freq !== 'NONE' && (
+                <div className="space-y-2">
+                    <p className="text-sm font-medium text-gray-300">Skip dates</p>
+                    <div className="flex flex-wrap gap-2">
+                        {exdates.map((date) => (
+                            <span key={date} className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-white/10 text-gray-300">
+                                {date}
+                                <button
+                                    type="button"
+                                    onClick={() => setExdates(prev => prev.filter(d => d !== date))}
+                                    className="ml-2 hover:text-white"
+                                >
+                                    ×
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="date"
+                            min={startDate}
+                            value={newExdate}
+                            onChange={(e) => setNewExdate(e.target.value)}
+                            className={inputClassName}
+                            aria-label="Date to skip"
+                        />
+                        <button
+                            type="button"
+                            onClick={handleAddExdate}
+                            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+                        >
+                            Skip
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Preview */}
+            {rule && preview.length > 0 && (
+                <div className="text-sm text-gray-400">
+                    <p className="text-gray-300 font-medium">{describeRRule(rule)}</p>
+                    <p className="mt-1">
+                        Next dates: {preview.map((date) => formatDate(`${date}T00:00:00Z`, { month: 'short', day: 'numeric', timeZone: 'UTC' })).join(', ')}
+                        {endMode === 'never' && ` … (up to ${EVENT_CONSTANTS.MAX_SERIES_OCCURRENCES} dates are created)`}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RecurrenceEditor;
@@ -0,0 +1,100 @@
+'use client';
+
+import { RegistrationQuestion } from '@/lib/registration-questions';
+import { EVENT_CONSTANTS, REGISTRATION_QUESTION_TYPES, RegistrationQuestionType } from '@/lib/constants';
+
+/**
+ * Registration question editor for the event form
+ * Questions are edited in place; choice questions list their options separated by commas
+ * Name and email are always asked, so they are not listed here
+ */
+
+interface RegistrationQuestionsEditorProps {
+    questions: RegistrationQuestion[];
+    onChange: (questions: RegistrationQuestion[]) => void;
+}
+
+const inputClassName = "w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+
+const RegistrationQuestionsEditor = ({ questions, onChange }: RegistrationQuestionsEditorProps) => {
+    const updateQuestion = (index: number, changes: Partial<RegistrationQuestion>) => {
+        onChange(questions.map((question, i) => i === index ? { ...question, ...changes } : question));
+    };
+
+    const handleAdd = () => {
+        onChange([...questions, { label: '', type: 'text', required: false, options: [] }]);
+    };
+
+    return (
+        <div className="space-y-3">
+            {questions.map((question, index) => (
+                <div key={question._id || index} className="space-y-3 p-4 bg-white/5 rounded-lg border border-white/10">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <input
+                            type="text"
+                            value={question.label}
+                            onChange={(e) => updateQuestion(index, { label: e.target.value })}
+                            className={`${inputClassName} md:col-span-2`}
+                            placeholder="Question, e.g. T-shirt size"
+                            aria-label="Question"
+                        />
+                        <select
+                            value={question.type}
+                            onChange={(e) => updateQuestion(index, { type: e.target.value as RegistrationQuestionType })}
+                            className={inputClassName}
+                            aria-label="Question type"
+                        >
+                            {Object.entries(REGISTRATION_QUESTION_TYPES).map(([value, config]) => (
+                                <option key={value} value={value}>
+                                    {config.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {(question.type === 'select' || question.type === 'multiselect') && (
+                        <input
+                            type="text"
+                            value={question.options.join(',')}
+                            onChange={(e) => updateQuestion(index, { options: e.target.value.split(',') })}
+                            className={inputClassName}
+                            placeholder="Options, comma separated, e.g. S, M, L, XL"
+                            aria-label="Question options"
+                        />
+                    )}
+
+                    <div className="flex items-center justify-between text-sm">
+                        <label className="flex items-center space-x-2 text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={question.required}
+                                onChange={(e) => updateQuestion(index, { required: e.target.checked })}
+                                className="accent-primary-500"
+                            />
+                            <span>{question.type === 'checkbox' ? 'Must be ticked, e.g. for consent' : 'Required'}</span>
+                        </label>
+                        <button
+                            type="button"
+                            onClick={() => onChange(questions.filter((_, i) => i !== index))}
+                            className="text-red-400 hover:text-red-300"
+                        >
+                            Remove
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            {questions.length < EVENT_CONSTANTS.MAX_REGISTRATION_QUESTIONS && (
+                <button
+                    type="button"
+                    onClick={handleAdd}
+                    className="text-sm text-primary-400 hover:text-primary-300"
+                >
+                    + Add question
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default RegistrationQuestionsEditor;
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { EVENT_REVISION_ACTIONS, EventRevisionAction } from '@/lib/constants';
+import { RevisionChange, formatRevisionValue, getRevisionFieldLabel } from '@/lib/revisions';
+import { formatDate } from '@/lib/utils';
+
+/**
+ * Revision list for the event history page
+ * Shows each revision's changed fields side by side; any revision but the latest can be restored
+ */
+
+// Revision as returned by getEventRevisions
+export interface RevisionEntry {
+    _id: string;
+    revision: number;
+    action: EventRevisionAction;
+    changes: RevisionChange[];
+    changedBy?: string;
+    revertedTo?: number;
+    createdAt: string;
+}
+
+interface RevisionHistoryProps {
+    slug: string;
+    revisions: RevisionEntry[];
+}
+
+const RevisionHistory = ({ slug, revisions }: RevisionHistoryProps) => {
+    const router = useRouter();
+    const [changedBy, setChangedBy] = useState('');
+    const [revertingTo, setRevertingTo] = useState<number | null>(null);
+    const [error, setError] = useState('');
+
+    const handleRevert = async (revision: number) => {
+        if (!window.confirm(`Restore the event to how it was after revision ${revision}?`)) return;
+
+        setRevertingTo(revision);
+        setError('');
+        try {
+            const response = await fetch(`/api/events/${slug}/revert`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ revision, changedBy: changedBy.trim() || undefined }),
+            });
+            const result = await response.json();
+
+            if (!response.ok) {
+                const details = result.errors?.length ? `: ${result.errors.join(', ')}` : '';
+                setError((result.message || 'Failed to revert event') + details);
+                return;
+            }
+
+            // Reverting the title may have changed the slug
+            router.push(`/events/${result.event.slug}/history`);
+            router.refresh();
+        } catch (revertError) {
+            console.error('Event revert error:', revertError);
+            setError('An unexpected error occurred');
+        } finally {
+            setRevertingTo(null);
+        }
+    };
+
+    if (revisions.length === 0) {
+        return <p className="text-center text-gray-400">No changes have been recorded for this event yet.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="max-w-sm">
+                <label htmlFor="changedBy" className="block text-sm font-medium text-gray-300 mb-2">
+                    Your Name
+                </label>
+                <input
+                    type="text"
+                    id="changedBy"
+                    value={changedBy}
+                    onChange={(e) => setChangedBy(e.target.value)}
+                    maxLength={100}
+                    className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="Recorded with any revert"
+                />
+            </div>
+
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+            {revisions.map((entry, index) => (
+                <div key={entry._id} className="bg-white/5 border border-white/10 rounded-lg p-4">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                        <div>
+                            <p className="text-white font-medium">
+                                #{entry.revision} · {EVENT_REVISION_ACTIONS[entry.action]?.label}
+                                {entry.revertedTo && <span className="text-gray-400"> to #{entry.revertedTo}</span>}
+                            </p>
+                            <p className="text-sm text-gray-400">
+                                {formatDate(entry.createdAt, { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                                {' · '}
+                                {entry.changedBy || 'Unknown'}
+                            </p>
+                        </div>
+                        {index > 0 && (
+                            <button
+                                type="button"
+                                onClick={() => handleRevert(entry.revision)}
+                                disabled={revertingTo !== null}
+                                className="px-3 py-1.5 text-sm bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                            >
+                                {revertingTo === entry.revision ? 'Restoring...' : 'Restore this version'}
+                            </button>
+                        )}
+                    </div>
+
+                    {entry.changes.length > 0 && (
+                        <dl className="mt-3 space-y-2 text-sm">
+                            {entry.changes.map((change) => (
+                                <div key={change.field} className="grid grid-cols-1 md:grid-cols-[10rem_1fr_1fr] gap-2">
+                                    <dt className="text-gray-300 font-medium">{getRevisionFieldLabel(change.field)}</dt>
+                                    <dd className="text-red-300 bg-red-500/10 rounded px-2 py-1 line-through break-words line-clamp-3">
+                                        {formatRevisionValue(change.field, change.before)}
+                                    </dd>
+                                    <dd className="text-green-300 bg-green-500/10 rounded px-2 py-1 break-words line-clamp-3">
+                                        {formatRevisionValue(change.field, change.after)}
+                                    </dd>
+                                </div>
+                            ))}
+                        </dl>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default RevisionHistory;
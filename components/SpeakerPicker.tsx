@@ -0,0 +1,254 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+
+/**
+ * Speaker lineup picker for the event form
+ * Searches existing speaker profiles and creates new ones inline,
+ * uploading the photo through /api/upload first
+ */
+
+export interface SpeakerOption {
+    _id: string;
+    name: string;
+    slug: string;
+    photo?: string;
+    affiliation?: string;
+}
+
+interface SpeakerPickerProps {
+    selected: SpeakerOption[];
+    onChange: (speakers: SpeakerOption[]) => void;
+}
+
+const inputClassName = "w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+
+const EMPTY_SPEAKER = { name: '', affiliation: '', bio: '', website: '' };
+
+const SpeakerPicker = ({ selected, onChange }: SpeakerPickerProps) => {
+    const [search, setSearch] = useState('');
+    const [results, setResults] = useState<SpeakerOption[]>([]);
+    const [isCreating, setIsCreating] = useState(false);
+    const [newSpeaker, setNewSpeaker] = useState(EMPTY_SPEAKER);
+    const [photo, setPhoto] = useState<File | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    // Search speakers as the organizer types, debounced to limit requests
+    useEffect(() => {
+        if (!search.trim()) {
+            setResults([]);
+            return;
+        }
+
+        const timeout = setTimeout(async () => {
+            try {
+                const response = await fetch(`/api/speakers?search=${encodeURIComponent(search.trim())}`);
+                const data = await response.json();
+                setResults(response.ok ? data.speakers : []);
+            } catch (searchError) {
+                console.error('Speaker search error:', searchError);
+                setResults([]);
+            }
+        }, 300);
+
+        return () => clearTimeout(timeout);
+    }, [search]);
+
+    const handleSelect = (speaker: SpeakerOption) => {
+        if (!selected.some(existing => existing._id === speaker._id)) {
+            onChange([...selected, speaker]);
+        }
+        setSearch('');
+        setResults([]);
+    };
+
+    const handleCreate = async () => {
+        if (!newSpeaker.name.trim()) {
+            setError('Speaker name is required');
+            return;
+        }
+
+        setIsSaving(true);
+        setError('');
+        try {
+            let photoUrl: string | undefined;
+
+            if (photo) {
+                const uploadData = new FormData();
+                uploadData.append('file', photo);
+                const uploadResponse = await fetch('/api/upload', { method: 'POST', body: uploadData });
+                const uploadResult = await uploadResponse.json();
+
+                if (!uploadResponse.ok) {
+                    setError(uploadResult.message || 'Failed to upload photo');
+                    return;
+                }
+                photoUrl = uploadResult.url;
+            }
+
+            const response = await fetch('/api/speakers', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: newSpeaker.name.trim(),
+                    affiliation: newSpeaker.affiliation.trim() || undefined,
+                    bio: newSpeaker.bio.trim() || undefined,
+                    photo: photoUrl,
+                    links: newSpeaker.website.trim() ? [{ label: 'Website', url: newSpeaker.website.trim() }] : [],
+                }),
+            });
+            const result = await response.json();
+
+            if (!response.ok) {
+                const details = result.errors?.length ? `: ${result.errors.join(', ')}` : '';
+                setError((result.message || 'Failed to create speaker') + details);
+                return;
+            }
+
+            onChange([...selected, { ...result.speaker, _id: result.speaker.id }]);
+            setNewSpeaker(EMPTY_SPEAKER);
+            setPhoto(null);
+            setIsCreating(false);
+        } catch (createError) {
+            console.error('Speaker creation error:', createError);
+            setError('An unexpected error occurred');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {selected.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {selected.map((speaker) => (
+                        <span
+                            key={speaker._id}
+                            className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm bg-primary-500/20 text-primary-300"
+                        >
+                            {speaker.photo && (
+                                <Image src={speaker.photo} alt={speaker.name} width={20} height={20} className="rounded-full object-cover" />
+                            )}
+                            {speaker.name}
+                            <button
+                                type="button"
+                                onClick={() => onChange(selected.filter(existing => existing._id !== speaker._id))}
+                                className="hover:text-primary-100"
+                            >
+                                ×
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            <div className="relative">
+                <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className={inputClassName}
+                    placeholder="Search speakers..."
+                    aria-label="Search speakers"
+                />
+                {results.length > 0 && (
+                    <ul className="absolute z-10 mt-1 w-full bg-dark-200 border border-white/10 rounded-lg overflow-hidden">
+                        {results.map((speaker) => (
+                            <li key={speaker._id}>
+                                <button
+                                    type="button"
+                                    onClick={() => handleSelect(speaker)}
+                                    className="w-full text-left px-4 py-2 text-gray-200 hover:bg-white/10"
+                                >
+                                    {speaker.name}
+                                    {speaker.affiliation && <span className="text-gray-400"> · {speaker.affiliation}</span>}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            {isCreating ? (
+                <div className="space-y-3 p-4 bg-white/5 rounded-lg border border-white/10">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <input
+                            type="text"
+                            value={newSpeaker.name}
+                            onChange={(e) => setNewSpeaker(prev => ({ ...prev, name: e.target.value }))}
+                            className={inputClassName}
+                            placeholder="Name"
+                            aria-label="Speaker name"
+                        />
+                        <input
+                            type="text"
+                            value={newSpeaker.affiliation}
+                            onChange={(e) => setNewSpeaker(prev => ({ ...prev, affiliation: e.target.value }))}
+                            className={inputClassName}
+                            placeholder="Affiliation"
+                            aria-label="Speaker affiliation"
+                        />
+                    </div>
+                    <textarea
+                        value={newSpeaker.bio}
+                        onChange={(e) => setNewSpeaker(prev => ({ ...prev, bio: e.target.value }))}
+                        rows={3}
+                        className={inputClassName}
+                        placeholder="Short bio"
+                        aria-label="Speaker bio"
+                    />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <input
+                            type="url"
+                            value={newSpeaker.website}
+                            onChange={(e) => setNewSpeaker(prev => ({ ...prev, website: e.target.value }))}
+                            className={inputClassName}
+                            placeholder="https://website.com"
+                            aria-label="Speaker website"
+                        />
+                        <input
+                            type="file"
+                            accept="image/jpeg,image/png,image/webp"
+                            onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+                            className="text-sm text-gray-400 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-white/10 file:text-white"
+                            aria-label="Speaker photo"
+                        />
+                    </div>
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={handleCreate}
+                            disabled={isSaving}
+                            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors disabled:opacity-50"
+                        >
+                            {isSaving ? 'Saving...' : 'Add Speaker'}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setIsCreating(false);
+                                setError('');
+                            }}
+                            className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <button
+                    type="button"
+                    onClick={() => setIsCreating(true)}
+                    className="text-sm text-primary-400 hover:text-primary-300"
+                >
+                    + New speaker profile
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default SpeakerPicker;
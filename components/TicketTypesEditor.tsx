@@ -0,0 +1,144 @@
+'use client';
+
+import { TicketType } from '@/lib/tickets';
+import { EVENT_CONSTANTS, TICKET_VISIBILITIES, TicketVisibility } from '@/lib/constants';
+
+/**
+ * Ticket type editor for the event form
+ * Each ticket type is edited in place; sale windows use the organizer's local time
+ * Without ticket types the event keeps its single price and capacity
+ */
+
+interface TicketTypesEditorProps {
+    ticketTypes: TicketType[];
+    onChange: (ticketTypes: TicketType[]) => void;
+}
+
+const inputClassName = "w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+
+// Converts a stored instant into the value of a datetime-local input
+const toLocalInputValue = (date?: string | Date) => {
+    if (!date) return '';
+    const instant = new Date(date);
+    return new Date(instant.getTime() - instant.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const TicketTypesEditor = ({ ticketTypes, onChange }: TicketTypesEditorProps) => {
+    const updateTicket = (index: number, changes: Partial<TicketType>) => {
+        onChange(ticketTypes.map((ticket, i) => i === index ? { ...ticket, ...changes } : ticket));
+    };
+
+    const handleAdd = () => {
+        onChange([
+            ...ticketTypes,
+            {
+                name: '',
+                price: 0,
+                currency: ticketTypes[0]?.currency || EVENT_CONSTANTS.DEFAULT_CURRENCY,
+                visibility: 'public',
+            },
+        ]);
+    };
+
+    return (
+        <div className="space-y-3">
+            {ticketTypes.map((ticket, index) => (
+                <div key={ticket._id || index} className="space-y-3 p-4 bg-white/5 rounded-lg border border-white/10">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <input
+                            type="text"
+                            value={ticket.name}
+                            onChange={(e) => updateTicket(index, { name: e.target.value })}
+                            className={`${inputClassName} col-span-2`}
+                            placeholder="Ticket name, e.g. Early Bird"
+                            aria-label="Ticket name"
+                        />
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={ticket.price}
+                            onChange={(e) => updateTicket(index, { price: Number(e.target.value) })}
+                            className={inputClassName}
+                            aria-label="Ticket price"
+                        />
+                        <input
+                            type="text"
+                            maxLength={3}
+                            value={ticket.currency}
+                            onChange={(e) => updateTicket(index, { currency: e.target.value.toUpperCase() })}
+                            className={inputClassName}
+                            placeholder="USD"
+                            aria-label="Ticket currency"
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <input
+                            type="number"
+                            min="1"
+                            value={ticket.quantity ?? ''}
+                            onChange={(e) => updateTicket(index, { quantity: e.target.value ? Number(e.target.value) : undefined })}
+                            className={inputClassName}
+                            placeholder="Quantity (unlimited)"
+                            aria-label="Ticket quantity"
+                        />
+                        <select
+                            value={ticket.visibility}
+                            onChange={(e) => updateTicket(index, { visibility: e.target.value as TicketVisibility })}
+                            className={inputClassName}
+                            aria-label="Ticket visibility"
+                        >
+                            {Object.entries(TICKET_VISIBILITIES).map(([value, config]) => (
+                                <option key={value} value={value}>
+                                    {config.label}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            type="datetime-local"
+                            value={toLocalInputValue(ticket.saleStart)}
+                            onChange={(e) => updateTicket(index, { saleStart: e.target.value ? new Date(e.target.value).toISOString() : undefined })}
+                            className={inputClassName}
+                            aria-label="Sales start"
+                            title="Sales start (your local time)"
+                        />
+                        <input
+                            type="datetime-local"
+                            value={toLocalInputValue(ticket.saleEnd)}
+                            onChange={(e) => updateTicket(index, { saleEnd: e.target.value ? new Date(e.target.value).toISOString() : undefined })}
+                            className={inputClassName}
+                            aria-label="Sales end"
+                            title="Sales end (your local time)"
+                        />
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-500">
+                            {ticket.visibility === 'hidden' && ticket._id
+                                ? `Share the event link with ?ticket=${ticket._id} to offer this ticket`
+                                : 'Sale dates are optional and in your local time'}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={() => onChange(ticketTypes.filter((_, i) => i !== index))}
+                            className="text-red-400 hover:text-red-300"
+                        >
+                            Remove
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            {ticketTypes.length < EVENT_CONSTANTS.MAX_TICKET_TYPES && (
+                <button
+                    type="button"
+                    onClick={handleAdd}
+                    className="text-sm text-primary-400 hover:text-primary-300"
+                >
+                    + Add ticket type
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default TicketTypesEditor;
@@ -0,0 +1,294 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Venue picker for the event form
+ * Searches saved venues by name or city, lists venues near the organizer,
+ * and creates new venues inline with their coordinates
+ */
+
+export interface VenueOption {
+    _id: string;
+    name: string;
+    address: string;
+    city?: string;
+    country?: string;
+}
+
+interface VenuePickerProps {
+    venueId: string;
+    onSelect: (venue: VenueOption) => void;
+}
+
+const inputClassName = "w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+
+const EMPTY_VENUE = { name: '', address: '', city: '', country: '', latitude: '', longitude: '' };
+
+// Reads the browser's location, rejecting when it is unavailable or denied
+const getCurrentPosition = () => new Promise<GeolocationCoordinates>((resolve, reject) => {
+    if (!navigator.geolocation) {
+        reject(new Error('Location is not available in this browser'));
+        return;
+    }
+    navigator.geolocation.getCurrentPosition(
+        ({ coords }) => resolve(coords),
+        () => reject(new Error('Could not get your location')),
+        { timeout: 10000 }
+    );
+});
+
+// Fetches venues from the venues API, returning none when the request fails
+const fetchVenues = async (query: string): Promise<VenueOption[]> => {
+    try {
+        const response = await fetch(`/api/venues?${query}`);
+        const data = await response.json();
+        return response.ok ? data.venues : [];
+    } catch (searchError) {
+        console.error('Venue search error:', searchError);
+        return [];
+    }
+};
+
+const VenuePicker = ({ venueId, onSelect }: VenuePickerProps) => {
+    const [search, setSearch] = useState('');
+    const [results, setResults] = useState<VenueOption[]>([]);
+    const [isCreating, setIsCreating] = useState(false);
+    const [newVenue, setNewVenue] = useState(EMPTY_VENUE);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    // Search venues as the organizer types, debounced to limit requests
+    useEffect(() => {
+        if (!search.trim()) {
+            setResults([]);
+            return;
+        }
+
+        const timeout = setTimeout(async () => {
+            setResults(await fetchVenues(`search=${encodeURIComponent(search.trim())}`));
+        }, 300);
+
+        return () => clearTimeout(timeout);
+    }, [search]);
+
+    const handleNearby = async () => {
+        setError('');
+        try {
+            const coords = await getCurrentPosition();
+            const venues = await fetchVenues(`near=${coords.latitude},${coords.longitude}`);
+            setResults(venues);
+            if (venues.length === 0) {
+                setError('No saved venues nearby');
+            }
+        } catch (locationError) {
+            setError((locationError as Error).message);
+        }
+    };
+
+    const handleSelect = (venue: VenueOption) => {
+        onSelect(venue);
+        setSearch('');
+        setResults([]);
+    };
+
+    const handleUseLocation = async () => {
+        setError('');
+        try {
+            const coords = await getCurrentPosition();
+            setNewVenue(prev => ({
+                ...prev,
+                latitude: coords.latitude.toFixed(6),
+                longitude: coords.longitude.toFixed(6),
+            }));
+        } catch (locationError) {
+            setError((locationError as Error).message);
+        }
+    };
+
+    const handleCreate = async () => {
+        if (!newVenue.name.trim() || !newVenue.address.trim()) {
+            setError('Venue name and address are required');
+            return;
+        }
+        if (!newVenue.latitude || !newVenue.longitude) {
+            setError('Enter the venue coordinates or use your current location');
+            return;
+        }
+
+        setIsSaving(true);
+        setError('');
+        try {
+            const response = await fetch('/api/venues', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: newVenue.name.trim(),
+                    address: newVenue.address.trim(),
+                    city: newVenue.city.trim() || undefined,
+                    country: newVenue.country.trim() || undefined,
+                    latitude: Number(newVenue.latitude),
+                    longitude: Number(newVenue.longitude),
+                }),
+            });
+            const result = await response.json();
+
+            if (!response.ok) {
+                const details = result.errors?.length ? `: ${result.errors.join(', ')}` : '';
+                setError((result.message || 'Failed to create venue') + details);
+                return;
+            }
+
+            onSelect({ ...result.venue, _id: result.venue.id });
+            setNewVenue(EMPTY_VENUE);
+            setIsCreating(false);
+        } catch (createError) {
+            console.error('Venue creation error:', createError);
+            setError('An unexpected error occurred');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex gap-2">
+                <div className="relative flex-1">
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        className={inputClassName}
+                        placeholder={venueId ? "Search for a different venue..." : "Search saved venues..."}
+                        aria-label="Search venues"
+                    />
+                    {results.length > 0 && (
+                        <ul className="absolute z-10 mt-1 w-full bg-dark-200 border border-white/10 rounded-lg overflow-hidden">
+                            {results.map((venue) => (
+                                <li key={venue._id}>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleSelect(venue)}
+                                        className="w-full text-left px-4 py-2 text-gray-200 hover:bg-white/10"
+                                    >
+                                        {venue.name}
+                                        <span className="text-gray-400"> · {[venue.address, venue.city].filter(Boolean).join(', ')}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+                <button
+                    type="button"
+                    onClick={handleNearby}
+                    className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors whitespace-nowrap"
+                >
+                    Nearby
+                </button>
+            </div>
+
+            {isCreating ? (
+                <div className="space-y-3 p-4 bg-white/5 rounded-lg border border-white/10">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <input
+                            type="text"
+                            value={newVenue.name}
+                            onChange={(e) => setNewVenue(prev => ({ ...prev, name: e.target.value }))}
+                            className={inputClassName}
+                            placeholder="Venue name"
+                            aria-label="Venue name"
+                        />
+                        <input
+                            type="text"
+                            value={newVenue.address}
+                            onChange={(e) => setNewVenue(prev => ({ ...prev, address: e.target.value }))}
+                            className={inputClassName}
+                            placeholder="Street address"
+                            aria-label="Venue address"
+                        />
+                        <input
+                            type="text"
+                            value={newVenue.city}
+                            onChange={(e) => setNewVenue(prev => ({ ...prev, city: e.target.value }))}
+                            className={inputClassName}
+                            placeholder="City"
+                            aria-label="Venue city"
+                        />
+                        <input
+                            type="text"
+                            value={newVenue.country}
+                            onChange={(e) => setNewVenue(prev => ({ ...prev, country: e.target.value }))}
+                            className={inputClassName}
+                            placeholder="Country"
+                            aria-label="Venue country"
+                        />
+                        <input
+                            type="number"
+                            step="any"
+                            min="-90"
+                            max="90"
+                            value={newVenue.latitude}
+                            onChange={(e) => setNewVenue(prev => ({ ...prev, latitude: e.target.value }))}
+                            className={inputClassName}
+                            placeholder="Latitude"
+                            aria-label="Venue latitude"
+                        />
+                        <input
+                            type="number"
+                            step="any"
+                            min="-180"
+                            max="180"
+                            value={newVenue.longitude}
+                            onChange={(e) => setNewVenue(prev => ({ ...prev, longitude: e.target.value }))}
+                            className={inputClassName}
+                            placeholder="Longitude"
+                            aria-label="Venue longitude"
+                        />
+                    </div>
+                    <button
+                        type="button"
+                        onClick={handleUseLocation}
+                        className="text-sm text-primary-400 hover:text-primary-300"
+                    >
+                        Use my current location
+                    </button>
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={handleCreate}
+                            disabled={isSaving}
+                            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors disabled:opacity-50"
+                        >
+                            {isSaving ? 'Saving...' : 'Add Venue'}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setIsCreating(false);
+                                setError('');
+                            }}
+                            className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+                    <button
+                        type="button"
+                        onClick={() => setIsCreating(true)}
+                        className="text-sm text-primary-400 hover:text-primary-300"
+                    >
+                        + New venue
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default VenuePicker;
@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { verifyBookingEmail } from '@/lib/actions/booking.actions';
+
+/**
+ * Confirmation step of the email verification page
+ * The booking is only confirmed when the attendee presses the button, so opening the link does nothing by itself
+ */
+
+interface VerificationResult {
+    status: string;
+    manageUrl?: string | null;
+    waitlistPosition?: number;
+}
+
+interface VerifyBookingProps {
+    token: string;
+    eventTitle: string;
+    eventSlug: string;
+    // Outcome of an earlier confirmation, when the link is opened again
+    initialResult?: VerificationResult;
+}
+
+const VerifyBooking = ({ token, eventTitle, eventSlug, initialResult }: VerifyBookingProps) => {
+    const [result, setResult] = useState<VerificationResult | undefined>(initialResult);
+    const [isConfirming, setIsConfirming] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleConfirm = async () => {
+        setError('');
+        setIsConfirming(true);
+        try {
+            const response = await verifyBookingEmail(token);
+            if (response.success && response.status) {
+                setResult({ status: response.status, manageUrl: response.manageUrl, waitlistPosition: response.waitlistPosition });
+            } else {
+                setError(response.message);
+            }
+        } catch (err) {
+            console.error('Email verification error:', err);
+            setError('An unexpected error occurred. Please try again.');
+        } finally {
+            setIsConfirming(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <h1 className="text-3xl font-bold text-white">
+                {result ? 'Email Confirmed' : 'Confirm Your Booking'}
+            </h1>
+
+            {!result && (
+                <>
+                    <p className="text-gray-300">
+                        Confirm your email address to complete your booking for{' '}
+                        <span className="text-white font-medium">{eventTitle}</span>.
+                    </p>
+                    <button
+                        type="button"
+                        onClick={handleConfirm}
+                        disabled={isConfirming}
+                        className="px-6 py-3 bg-gradient-to-r from-primary-500 to-accent-500 text-white font-semibold rounded-lg hover:shadow-glow transition-all duration-200 disabled:opacity-50"
+                    >
+                        {isConfirming ? 'Confirming...' : 'Confirm My Booking'}
+                    </button>
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+                </>
+            )}
+
+            {result?.status === 'confirmed' && (
+                <p className="text-gray-300">
+                    Your booking for <span className="text-white font-medium">{eventTitle}</span> is confirmed.
+                </p>
+            )}
+
+            {result?.status === 'waitlisted' && (
+                <p className="text-gray-300">
+                    You&apos;re number {result.waitlistPosition} on the waitlist for{' '}
+                    <span className="text-white font-medium">{eventTitle}</span>. We&apos;ll confirm your booking
+                    and email you as soon as a seat opens up.
+                </p>
+            )}
+
+            <div className="flex justify-center gap-6 pt-4 text-sm">
+                {result?.manageUrl && (
+                    <a href={result.manageUrl} className="text-primary-400 hover:text-primary-300">
+                        Manage your booking →
+                    </a>
+                )}
+                <Link href={`/events/${eventSlug}`} className="text-primary-400 hover:text-primary-300">
+                    View the event
+                </Link>
+            </div>
+        </div>
+    );
+};
+
+export default VerifyBooking;
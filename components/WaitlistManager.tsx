@@ -0,0 +1,177 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDate } from '@/lib/utils';
+
+/**
+ * Waitlist of the organizer's waitlist page
+ * Bookings can be moved up or down and the new order saved, and free seats filled from the top of the list
+ */
+
+// Waitlisted booking as returned by getEventWaitlist
+export interface WaitlistEntry {
+    _id: string;
+    fullName: string;
+    email: string;
+    ticketName?: string;
+    groupId?: string;
+    emailVerifiedAt?: string;
+    createdAt: string;
+}
+
+interface WaitlistManagerProps {
+    slug: string;
+    waitlist: WaitlistEntry[];
+    requireEmailVerification: boolean;
+}
+
+const WaitlistManager = ({ slug, waitlist, requireEmailVerification }: WaitlistManagerProps) => {
+    const router = useRouter();
+    const [order, setOrder] = useState<WaitlistEntry[]>(waitlist);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isPromoting, setIsPromoting] = useState(false);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+
+    // Start again from the saved order once the page reloads the waitlist
+    useEffect(() => {
+        setOrder(waitlist);
+    }, [waitlist]);
+
+    const isReordered = order.some((entry, index) => entry._id !== waitlist[index]?._id);
+
+    const moveEntry = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= order.length) return;
+
+        const next = [...order];
+        [next[index], next[target]] = [next[target], next[index]];
+        setOrder(next);
+        setMessage('');
+    };
+
+    const handleSave = async () => {
+        setMessage('');
+        setError('');
+        setIsSaving(true);
+        try {
+            const response = await fetch(`/api/events/${slug}/waitlist`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ bookingIds: order.map((entry) => entry._id) }),
+            });
+            const result = await response.json();
+
+            if (!response.ok) {
+                setError(result.message || 'Failed to reorder waitlist');
+                return;
+            }
+
+            setMessage(result.message);
+            router.refresh();
+        } catch (saveError) {
+            console.error('Waitlist reorder error:', saveError);
+            setError('An unexpected error occurred');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handlePromote = async () => {
+        setMessage('');
+        setError('');
+        setIsPromoting(true);
+        try {
+            const response = await fetch(`/api/events/${slug}/waitlist`, { method: 'POST' });
+            const result = await response.json();
+
+            if (!response.ok) {
+                setError(result.message || 'Failed to promote waitlist');
+                return;
+            }
+
+            setMessage(result.promoted.length > 0
+                ? `${result.promoted.length} waitlisted booking${result.promoted.length === 1 ? '' : 's'} moved into free seats`
+                : 'No seats are free right now');
+            router.refresh();
+        } catch (promoteError) {
+            console.error('Waitlist promotion error:', promoteError);
+            setError('An unexpected error occurred');
+        } finally {
+            setIsPromoting(false);
+        }
+    };
+
+    if (waitlist.length === 0) {
+        return <p className="text-center text-gray-400">Nobody is on the waitlist for this event.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-end gap-3">
+                <button
+                    type="button"
+                    onClick={handlePromote}
+                    disabled={isSaving || isPromoting || isReordered}
+                    className="px-4 py-2 text-sm bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                >
+                    {isPromoting ? 'Filling Seats...' : 'Fill Free Seats'}
+                </button>
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={isSaving || isPromoting || !isReordered}
+                    className="px-4 py-2 text-sm bg-gradient-to-r from-primary-500 to-accent-500 text-white rounded-lg hover:shadow-glow transition-all duration-200 disabled:opacity-50"
+                >
+                    {isSaving ? 'Saving...' : 'Save Order'}
+                </button>
+            </div>
+
+            {message && <p className="text-green-400 text-sm">{message}</p>}
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+            <ol className="space-y-2">
+                {order.map((entry, index) => (
+                    <li key={entry._id} className="flex items-center gap-4 bg-white/5 border border-white/10 rounded-lg p-4">
+                        <span className="w-8 text-center text-lg font-semibold text-primary-400">{index + 1}</span>
+                        <div className="flex-1 min-w-0">
+                            <p className="text-white font-medium truncate">{entry.fullName}</p>
+                            <p className="text-sm text-gray-400 truncate">
+                                {entry.email}
+                                {entry.ticketName && ` · ${entry.ticketName}`}
+                                {entry.groupId && ' · Group booking'}
+                                {requireEmailVerification && !entry.emailVerifiedAt && ' · Email not confirmed'}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                                Joined {formatDate(entry.createdAt, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                            </p>
+                        </div>
+                        <div className="flex gap-1">
+                            <button
+                                type="button"
+                                onClick={() => moveEntry(index, -1)}
+                                disabled={index === 0 || isSaving}
+                                className="px-2 py-1 text-sm bg-white/10 text-white rounded hover:bg-white/20 transition-colors disabled:opacity-30"
+                                aria-label={`Move ${entry.fullName} up`}
+                            >
+                                ↑
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => moveEntry(index, 1)}
+                                disabled={index === order.length - 1 || isSaving}
+                                className="px-2 py-1 text-sm bg-white/10 text-white rounded hover:bg-white/20 transition-colors disabled:opacity-30"
+                                aria-label={`Move ${entry.fullName} down`}
+                            >
+                                ↓
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default WaitlistManager;
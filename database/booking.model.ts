@@ -1,5 +1,5 @@
 import { Schema, model, models, Document, Types } from 'mongoose';
-import Event from './event.model';
+import type { RegistrationAnswer } from '@/lib/registration-questions';
 
 /**
  * Booking interface representing events registration records
@@ -9,14 +9,27 @@ export interface IBooking extends Document {
     eventId: Types.ObjectId;
     email: string;
     fullName: string;
-    status: 'confirmed' | 'cancelled' | 'waitlisted';
+    groupId?: Types.ObjectId;
+    purchaser?: { fullName: string; email: string };
+    ticketTypeId?: Types.ObjectId;
+    ticketName?: string;
+    price?: number;
+    currency?: string;
+    promoCode?: string;
+    discount?: number;
+    answers: RegistrationAnswer[];
+    status: 'confirmed' | 'cancelled' | 'waitlisted' | 'pending_verification';
+    waitlistPosition?: number;
+    verificationExpiresAt?: Date;
+    emailVerifiedAt?: Date;
     createdAt: Date;
     updatedAt: Date;
 }
 
 /**
  * Booking schema with email validation and events reference integrity
- * Prevents duplicate bookings and ensures data consistency
+ * Duplicate bookings are rejected by the unique event and email index; the event itself and its
+ * capacity are checked by createBooking, which takes the seat atomically through lib/seats
  */
 const BookingSchema = new Schema<IBooking>(
     {
@@ -46,15 +59,76 @@ const BookingSchema = new Schema<IBooking>(
             trim: true,
             maxlength: [100, 'Full name cannot exceed 100 characters'],
         },
+        // Group bookings: attendees booked together share a groupId and the purchaser who booked them
+        groupId: {
+            type: Schema.Types.ObjectId,
+            index: true,
+        },
+        purchaser: {
+            type: {
+                _id: false,
+                fullName: { type: String, trim: true, maxlength: [100, 'Full name cannot exceed 100 characters'] },
+                email: { type: String, trim: true, lowercase: true },
+            },
+            default: undefined,
+        },
+        ticketTypeId: {
+            type: Schema.Types.ObjectId, // Ticket type of the event, for events that sell several
+        },
+        // Ticket name and price paid at the time of booking, kept if the event's ticket types change later
+        ticketName: {
+            type: String,
+            trim: true,
+        },
+        price: {
+            type: Number,
+            min: [0, 'Price cannot be negative'],
+        },
+        currency: {
+            type: String,
+            uppercase: true,
+        },
+        promoCode: {
+            type: String, // Code redeemed for this booking
+            uppercase: true,
+        },
+        discount: {
+            type: Number,
+            min: [0, 'Discount cannot be negative'],
+        },
+        // Answers to the event's registration questions, checked by createBooking
+        answers: {
+            type: [
+                {
+                    _id: false,
+                    questionId: { type: String, required: true },
+                    label: { type: String, required: true }, // Question as it was asked
+                    value: { type: Schema.Types.Mixed, required: true },
+                },
+            ],
+            default: [],
+        },
         status: {
             type: String,
             enum: {
-                values: ['confirmed', 'cancelled', 'waitlisted'],
-                message: 'Status must be confirmed, cancelled, or waitlisted',
+                values: ['confirmed', 'cancelled', 'waitlisted', 'pending_verification'],
+                message: 'Status must be confirmed, cancelled, waitlisted, or pending_verification',
             },
             default: 'confirmed',
             index: true, // Optimize status-based queries
         },
+        // Place in the event's waitlist, lowest first; only set while waitlisted
+        waitlistPosition: {
+            type: Number,
+            min: [1, 'Waitlist position must be at least 1'],
+        },
+        // Events requiring email verification: a pending booking holds its seat until this time
+        verificationExpiresAt: {
+            type: Date,
+        },
+        emailVerifiedAt: {
+            type: Date,
+        },
     },
     {
         timestamps: true,
@@ -69,43 +143,13 @@ const BookingSchema = new Schema<IBooking>(
     }
 );
 
-/**
- * Pre-save middleware to validate events existence and prevent duplicates
- * Ensures referential integrity and business rules
- */
-BookingSchema.pre('save', async function (next) {
-    const booking = this as IBooking;
-
-    try {
-        // Validate that the referenced events exists
-        const eventExists = await Event.findById(booking.eventId).select('_id capacity');
-        if (!eventExists) {
-            return next(new Error(`Event with ID ${booking.eventId} does not exist`));
-        }
-
-        // Check for duplicate booking (same events and email)
-        if (booking.isNew || booking.isModified('email')) {
-            const existingBooking = await Booking.findOne({
-                eventId: booking.eventId,
-                email: booking.email,
-                _id: { $ne: booking._id }, // Exclude current document when updating
-            });
-
-            if (existingBooking) {
-                return next(new Error('A booking with this email already exists for the events'));
-            }
-        }
-    } catch (error) {
-        return next(error);
-    }
-
-    next();
-});
-
 // Compound indexes for optimal query performance
 BookingSchema.index({ eventId: 1, email: 1 }, { unique: true }); // Enforce unique bookings
 BookingSchema.index({ email: 1, createdAt: -1 }); // User booking history
 BookingSchema.index({ eventId: 1, status: 1 }); // Event attendance reports
+BookingSchema.index({ eventId: 1, ticketTypeId: 1, status: 1 }); // Tickets sold per ticket type
+BookingSchema.index({ eventId: 1, status: 1, waitlistPosition: 1 }); // Waitlist in order
+BookingSchema.index({ status: 1, verificationExpiresAt: 1 }); // Expired unverified holds
 
 const Booking = models.Booking || model<IBooking>('Booking', BookingSchema);
 
@@ -0,0 +1,94 @@
+import { Schema, model, models, Document, Types } from 'mongoose';
+import { EVENT_REVISION_ACTIONS, EventRevisionAction } from '@/lib/constants';
+
+/**
+ * Field change recorded in a revision, with values stored as plain JSON
+ */
+export interface IEventRevisionChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+/**
+ * Event revision interface
+ * One revision is written by the Event model every time an event is saved with changes
+ */
+export interface IEventRevision extends Document {
+    eventId: Types.ObjectId;
+    revision: number;
+    action: EventRevisionAction;
+    changes: IEventRevisionChange[];
+    changedBy?: string;
+    revertedTo?: number;
+    createdAt: Date;
+}
+
+const EventRevisionChangeSchema = new Schema<IEventRevisionChange>(
+    {
+        field: {
+            type: String,
+            required: true,
+        },
+        before: Schema.Types.Mixed,
+        after: Schema.Types.Mixed,
+    },
+    { _id: false }
+);
+
+/**
+ * Event revision schema
+ * Revisions are numbered per event, starting at 1 for the creation
+ */
+const EventRevisionSchema = new Schema<IEventRevision>(
+    {
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Event',
+            required: [true, 'Event reference is required'],
+        },
+        revision: {
+            type: Number,
+            required: [true, 'Revision number is required'],
+            min: [1, 'Revision numbers start at 1'],
+        },
+        action: {
+            type: String,
+            enum: {
+                values: Object.keys(EVENT_REVISION_ACTIONS),
+                message: 'Action must be create, update, or revert',
+            },
+            required: [true, 'Action is required'],
+        },
+        changes: {
+            type: [EventRevisionChangeSchema],
+            default: [],
+        },
+        changedBy: {
+            type: String,
+            trim: true,
+            maxlength: [100, 'Name cannot exceed 100 characters'],
+        },
+        revertedTo: {
+            type: Number,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        toJSON: {
+            transform: (doc, ret: Record<string, any>) => {
+                ret.id = ret._id.toString();
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// Newest revisions of an event first
+EventRevisionSchema.index({ eventId: 1, revision: -1 });
+
+const EventRevision = models.EventRevision || model<IEventRevision>('EventRevision', EventRevisionSchema);
+
+export default EventRevision;
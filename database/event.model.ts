@@ -1,4 +1,38 @@
 import { Schema, model, models, Document, Types } from 'mongoose';
+import {
+    EVENT_CONSTANTS,
+    EVENT_STATUSES,
+    EVENT_STATUS_TRANSITIONS,
+    EVENT_VISIBILITIES,
+    EventStatus,
+    EventVisibility,
+    REGISTRATION_QUESTION_TYPES,
+    SESSION_TYPES,
+    TICKET_VISIBILITIES,
+} from '@/lib/constants';
+import { AgendaSession, normalizeAgenda } from '@/lib/agenda';
+import { TicketType, getLowestTicketPrice } from '@/lib/tickets';
+import { RegistrationQuestion } from '@/lib/registration-questions';
+import { GalleryImage } from '@/lib/gallery';
+import { listedEventFilter } from '@/lib/event-filters';
+import { DEFAULT_TIMEZONE, computeEventInstants, getDateInTimeZone, isValidTimeZone } from '@/lib/timezone';
+import { generateEventSlug } from '@/lib/utils';
+import { isSlugVariant, reserveSlug } from '@/lib/slugs';
+import { diffRevisionSnapshots, getRevisionSnapshot } from '@/lib/revisions';
+import { markdownToPlainText } from '@/lib/markdown';
+import { GeoPointSchema, IGeoPoint } from './venue.model';
+import EventRevision from './event-revision.model';
+
+/**
+ * Invite issued for a private event
+ * The invite link carries a token signed for this invite; revoking the invite disables the link
+ */
+export interface IEventInvite {
+    _id: Types.ObjectId;
+    label?: string;
+    createdAt: Date;
+    revokedAt?: Date | null;
+}
 
 /**
  * Event interface representing the structure of an events document
@@ -7,25 +41,246 @@ import { Schema, model, models, Document, Types } from 'mongoose';
 export interface IEvent extends Document {
     title: string;
     slug: string;
+    slugHistory: string[];
     description: string;
+    descriptionText?: string;
     overview: string;
     image: string;
+    gallery: GalleryImage[];
     venue: string;
     location: string;
+    venueId?: Types.ObjectId;
+    geo?: IGeoPoint;
     date: string;
     time: string;
+    endDate?: string;
+    endTime?: string;
+    timezone: string;
+    startsAt: Date;
+    endsAt: Date;
     mode: 'online' | 'offline' | 'hybrid';
     audience: string;
-    agenda: string[];
+    agenda: AgendaSession[];
     organizer: string;
+    organization?: Types.ObjectId;
     tags: string[];
+    speakers: Types.ObjectId[];
+    ticketTypes: TicketType[];
+    registrationQuestions: RegistrationQuestion[];
     price?: number;
     capacity?: number;
+    seatsTaken: number;
+    ticketsSold: Map<string, number>;
     registrationUrl?: string;
+    requireEmailVerification: boolean;
+    status: EventStatus;
+    statusNote?: string;
+    visibility: EventVisibility;
+    invites: IEventInvite[];
+    publishAt?: Date | null;
+    series?: Types.ObjectId;
+    deletedAt?: Date | null;
     createdAt: Date;
     updatedAt: Date;
 }
 
+// HH:MM in 24-hour format
+const TIME_REGEX = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+/**
+ * Agenda session schema embedded in events
+ * Times are wall-clock times in the event's timezone
+ */
+const AgendaSessionSchema = new Schema<AgendaSession>(
+    {
+        title: {
+            type: String,
+            required: [true, 'Session title is required'],
+            trim: true,
+            maxlength: [200, 'Session title cannot exceed 200 characters'],
+        },
+        abstract: {
+            type: String,
+            trim: true,
+            maxlength: [1000, 'Session abstract cannot exceed 1000 characters'],
+        },
+        type: {
+            type: String,
+            enum: {
+                values: Object.keys(SESSION_TYPES),
+                message: 'Session type must be talk, workshop, or break',
+            },
+            default: 'talk',
+        },
+        day: {
+            type: String,
+            set: (date: string) => date || undefined,
+            validate: {
+                validator: (date: string) => /^\d{4}-\d{2}-\d{2}$/.test(date),
+                message: 'Session day must be in YYYY-MM-DD format',
+            },
+        },
+        startTime: {
+            type: String,
+            set: (time: string) => time || undefined,
+            validate: {
+                validator: (time: string) => TIME_REGEX.test(time),
+                message: 'Session start time must be in HH:MM format (24-hour)',
+            },
+        },
+        endTime: {
+            type: String,
+            set: (time: string) => time || undefined,
+            validate: {
+                validator: (time: string) => TIME_REGEX.test(time),
+                message: 'Session end time must be in HH:MM format (24-hour)',
+            },
+        },
+        speakers: {
+            type: [String],
+            default: [],
+        },
+        speakerIds: {
+            type: [{ type: Schema.Types.ObjectId, ref: 'Speaker' }],
+            default: [],
+        },
+        room: {
+            type: String,
+            trim: true,
+            maxlength: [100, 'Room cannot exceed 100 characters'],
+        },
+        track: {
+            type: String,
+            trim: true,
+            maxlength: [100, 'Track cannot exceed 100 characters'],
+        },
+    },
+    { _id: false }
+);
+
+/**
+ * Registration question schema embedded in events
+ * Keeps its _id so booking answers can reference the question they answer
+ */
+const RegistrationQuestionSchema = new Schema<RegistrationQuestion>({
+    label: {
+        type: String,
+        required: [true, 'Question label is required'],
+        trim: true,
+        maxlength: [200, 'Question label cannot exceed 200 characters'],
+    },
+    type: {
+        type: String,
+        enum: {
+            values: Object.keys(REGISTRATION_QUESTION_TYPES),
+            message: 'Question type must be text, select, multiselect, or checkbox',
+        },
+        default: 'text',
+    },
+    required: {
+        type: Boolean,
+        default: false,
+    },
+    options: {
+        type: [{ type: String, trim: true, maxlength: [100, 'Options cannot exceed 100 characters'] }],
+        default: [],
+    },
+});
+
+/**
+ * Ticket type schema embedded in events
+ * Keeps its _id so bookings can reference the ticket type they were made for
+ */
+const TicketTypeSchema = new Schema<TicketType>({
+    name: {
+        type: String,
+        required: [true, 'Ticket name is required'],
+        trim: true,
+        maxlength: [60, 'Ticket name cannot exceed 60 characters'],
+    },
+    price: {
+        type: Number,
+        required: [true, 'Ticket price is required'],
+        min: [0, 'Ticket price cannot be negative'],
+    },
+    currency: {
+        type: String,
+        uppercase: true,
+        trim: true,
+        default: EVENT_CONSTANTS.DEFAULT_CURRENCY,
+        match: [/^[A-Z]{3}$/, 'Currency must be a 3-letter code, e.g. USD'],
+    },
+    quantity: {
+        type: Number,
+        min: [1, 'Ticket quantity must be at least 1'],
+    },
+    saleStart: {
+        type: Date,
+        set: (date: unknown) => date || undefined, // Empty form values open sales immediately
+    },
+    saleEnd: {
+        type: Date,
+        set: (date: unknown) => date || undefined, // Empty form values keep sales open
+    },
+    visibility: {
+        type: String,
+        enum: {
+            values: Object.keys(TICKET_VISIBILITIES),
+            message: 'Ticket visibility must be public or hidden',
+        },
+        default: 'public',
+    },
+});
+
+/**
+ * Gallery photo schema embedded in events, in display order
+ */
+const GalleryImageSchema = new Schema<GalleryImage>(
+    {
+        url: {
+            type: String,
+            required: [true, 'Gallery image URL is required'],
+            validate: {
+                validator: (url: string) => {
+                    try {
+                        new URL(url);
+                        return true;
+                    } catch {
+                        return false;
+                    }
+                },
+                message: 'Invalid gallery image URL format',
+            },
+        },
+        caption: {
+            type: String,
+            trim: true,
+            maxlength: [200, 'Photo caption cannot exceed 200 characters'],
+        },
+    },
+    { _id: false }
+);
+
+/**
+ * Invite schema embedded in events
+ * Keeps its _id, which invite tokens are signed for
+ */
+const EventInviteSchema = new Schema<IEventInvite>({
+    label: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Invite label cannot exceed 100 characters'],
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+    revokedAt: {
+        type: Date,
+        default: null,
+    },
+});
+
 /**
  * Event schema with comprehensive validation and indexing
  * Includes pre-save hooks for data normalization and slug generation
@@ -46,11 +301,20 @@ const EventSchema = new Schema<IEvent>(
             trim: true,
             index: true, // Optimize slug-based queries
         },
+        slugHistory: {
+            type: [String],
+            default: [],
+            index: true, // Resolve old slugs to their current event
+        },
         description: {
             type: String,
             required: [true, 'Event description is required'],
             trim: true,
-            maxlength: [2000, 'Description cannot exceed 2000 characters'],
+            maxlength: [EVENT_CONSTANTS.MAX_DESCRIPTION_LENGTH, `Description cannot exceed ${EVENT_CONSTANTS.MAX_DESCRIPTION_LENGTH} characters`],
+        },
+        descriptionText: {
+            type: String,
+            select: false, // Plain text of the Markdown description, only used for search
         },
         overview: {
             type: String,
@@ -74,6 +338,14 @@ const EventSchema = new Schema<IEvent>(
                 message: 'Invalid image URL format',
             },
         },
+        gallery: {
+            type: [GalleryImageSchema],
+            default: [],
+            validate: {
+                validator: (gallery: GalleryImage[]) => gallery.length <= EVENT_CONSTANTS.MAX_GALLERY_IMAGES,
+                message: `A gallery can have at most ${EVENT_CONSTANTS.MAX_GALLERY_IMAGES} photos`,
+            },
+        },
         venue: {
             type: String,
             required: [true, 'Venue name is required'],
@@ -86,6 +358,14 @@ const EventSchema = new Schema<IEvent>(
             trim: true,
             maxlength: [200, 'Location cannot exceed 200 characters'],
         },
+        venueId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Venue',
+            set: (id: unknown) => id || undefined, // Empty form values clear the venue
+        },
+        geo: {
+            type: GeoPointSchema, // Copied from the venue so events can be searched by distance
+        },
         date: {
             type: String,
             required: [true, 'Event date is required'],
@@ -110,6 +390,39 @@ const EventSchema = new Schema<IEvent>(
                 message: 'Time must be in HH:MM format (24-hour)',
             },
         },
+        endDate: {
+            type: String,
+            set: (date: string) => date || undefined, // Empty form values clear the end date
+            validate: {
+                validator: (date: string) => /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(new Date(date).getTime()),
+                message: 'End date must be in YYYY-MM-DD format',
+            },
+        },
+        endTime: {
+            type: String,
+            set: (time: string) => time || undefined, // Empty form values clear the end time
+            validate: {
+                validator: (time: string) => TIME_REGEX.test(time),
+                message: 'End time must be in HH:MM format (24-hour)',
+            },
+        },
+        timezone: {
+            type: String,
+            default: DEFAULT_TIMEZONE,
+            trim: true,
+            validate: {
+                validator: (timeZone: string) => isValidTimeZone(timeZone),
+                message: 'Timezone must be a valid IANA timezone, e.g. Europe/Berlin',
+            },
+        },
+        startsAt: {
+            type: Date,
+            index: true, // Optimize sorting by start time
+        },
+        endsAt: {
+            type: Date,
+            index: true, // Optimize filtering of upcoming events
+        },
         mode: {
             type: String,
             required: [true, 'Event mode is required'],
@@ -126,10 +439,10 @@ const EventSchema = new Schema<IEvent>(
             maxlength: [100, 'Audience description cannot exceed 100 characters'],
         },
         agenda: {
-            type: [String],
+            type: [AgendaSessionSchema],
             required: [true, 'Event agenda is required'],
             validate: {
-                validator: (agenda: string[]) => agenda.length > 0,
+                validator: (agenda: AgendaSession[]) => agenda.length > 0,
                 message: 'At least one agenda item is required',
             },
         },
@@ -139,6 +452,11 @@ const EventSchema = new Schema<IEvent>(
             trim: true,
             maxlength: [100, 'Organizer name cannot exceed 100 characters'],
         },
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: 'Organization',
+            index: true, // Optimize listing an organization's events
+        },
         tags: {
             type: [String],
             required: [true, 'Event tags are required'],
@@ -148,15 +466,46 @@ const EventSchema = new Schema<IEvent>(
             },
             index: true, // Optimize tag-based filtering
         },
+        speakers: {
+            type: [{ type: Schema.Types.ObjectId, ref: 'Speaker' }],
+            default: [],
+            index: true, // Optimize listing a speaker's events
+        },
+        ticketTypes: {
+            type: [TicketTypeSchema],
+            default: [],
+            validate: {
+                validator: (ticketTypes: TicketType[]) => ticketTypes.length <= EVENT_CONSTANTS.MAX_TICKET_TYPES,
+                message: `An event can have at most ${EVENT_CONSTANTS.MAX_TICKET_TYPES} ticket types`,
+            },
+        },
+        registrationQuestions: {
+            type: [RegistrationQuestionSchema],
+            default: [],
+            validate: {
+                validator: (questions: RegistrationQuestion[]) => questions.length <= EVENT_CONSTANTS.MAX_REGISTRATION_QUESTIONS,
+                message: `An event can have at most ${EVENT_CONSTANTS.MAX_REGISTRATION_QUESTIONS} registration questions`,
+            },
+        },
         price: {
             type: Number,
             min: [0, 'Price cannot be negative'],
-            default: 0,
+            default: 0, // Lowest public ticket price when the event has ticket types
         },
         capacity: {
             type: Number,
             min: [1, 'Capacity must be at least 1'],
         },
+        // Confirmed seats, in total and per ticket type ID; only changed atomically by lib/seats
+        seatsTaken: {
+            type: Number,
+            default: 0,
+        },
+        ticketsSold: {
+            type: Map,
+            of: Number,
+            default: {},
+        },
         registrationUrl: {
             type: String,
             validate: {
@@ -172,6 +521,55 @@ const EventSchema = new Schema<IEvent>(
                 message: 'Invalid registration URL format',
             },
         },
+        // Bookings stay pending, holding their seat, until the attendee confirms their email address
+        requireEmailVerification: {
+            type: Boolean,
+            default: false,
+        },
+        status: {
+            type: String,
+            enum: {
+                values: Object.keys(EVENT_STATUSES),
+                message: 'Status must be draft, published, postponed, cancelled, or completed',
+            },
+            default: 'published',
+            index: true, // Optimize listing of published events
+        },
+        statusNote: {
+            type: String,
+            trim: true,
+            maxlength: [300, 'Status note cannot exceed 300 characters'],
+        },
+        visibility: {
+            type: String,
+            enum: {
+                values: Object.keys(EVENT_VISIBILITIES),
+                message: 'Visibility must be public, unlisted, or private',
+            },
+            default: 'public',
+            index: true, // Exclude unlisted and private events from listings
+        },
+        invites: {
+            type: [EventInviteSchema],
+            default: [],
+            select: false, // Only loaded by the invite management API
+        },
+        publishAt: {
+            type: Date,
+            default: null,
+            set: (date: unknown) => date || null, // Empty form values publish right away
+            index: true, // Hide scheduled events from listings until this time
+        },
+        series: {
+            type: Schema.Types.ObjectId,
+            ref: 'EventSeries',
+            index: true, // Optimize listing occurrences of a series
+        },
+        deletedAt: {
+            type: Date,
+            default: null,
+            index: true, // Exclude soft-deleted events from queries
+        },
     },
     {
         timestamps: true, // Auto-manage createdAt and updatedAt
@@ -187,25 +585,214 @@ const EventSchema = new Schema<IEvent>(
 );
 
 /**
- * Pre-save middleware for automatic slug generation and data validation
- * Ensures consistent data formatting before saving to database
+ * Pre-save middleware for automatic slug generation
+ * Titles need not be unique: a taken slug gets a counter suffix, e.g. "react-meetup-2"
  */
-EventSchema.pre('save', function (next) {
+EventSchema.pre('save', async function () {
     const event = this as IEvent;
 
     // Generate slug from title if not provided or title changed
     if (event.isModified('title') || !event.slug) {
-        event.slug = generateSlug(event.title);
+        const base = generateEventSlug(event.title, event.series ? event.date : undefined);
+
+        // Keep the current slug, or take back an old one, when it still matches the title
+        const ownSlug = [event.slug, ...event.slugHistory].find((slug) => slug && isSlugVariant(slug, base));
+        const newSlug = ownSlug || await reserveSlug('event', base, async (slug) =>
+            !!(await Event.exists({ _id: { $ne: event._id }, $or: [{ slug }, { slugHistory: slug }] }))
+        );
+
+        // Keep the previous slug so existing links can be redirected
+        if (!event.isNew && event.slug && event.slug !== newSlug) {
+            event.slugHistory = [
+                ...event.slugHistory.filter((slug) => slug !== event.slug && slug !== newSlug),
+                event.slug,
+            ];
+        }
+
+        event.slug = newSlug;
     }
+});
 
-    // Validate that date is not in the past
-    if (event.isModified('date')) {
-        const eventDate = new Date(event.date);
-        if (eventDate < new Date().setHours(0, 0, 0, 0)) {
-            return next(new Error('Event date cannot be in the past'));
+/**
+ * Keeps the plain-text copy of the Markdown description in sync for search
+ */
+EventSchema.pre('validate', function () {
+    const event = this as IEvent;
+
+    if (event.isNew || event.isModified('description')) {
+        event.descriptionText = markdownToPlainText(event.description);
+    }
+});
+
+/**
+ * Converts legacy string agenda items into sessions while loading
+ * Lets events created before structured agendas load and save before they are migrated
+ */
+EventSchema.pre('init', function (raw: Record<string, any>) {
+    if (Array.isArray(raw.agenda)) {
+        raw.agenda = normalizeAgenda(raw.agenda);
+    }
+});
+
+/**
+ * Remembers the status loaded from the database to validate transitions on save,
+ * and the recorded fields to diff against for the revision history
+ */
+EventSchema.post('init', function (doc) {
+    doc.$locals.loadedStatus = doc.status;
+    doc.$locals.revisionSnapshot = getRevisionSnapshot(doc.toObject({ depopulate: true }));
+});
+
+/**
+ * Works out the changes to record once validation (and derived fields such as price) has run
+ * Routes may set $locals.changedBy, and $locals.revertedTo when restoring an earlier revision
+ */
+EventSchema.pre('save', function (next) {
+    const event = this as IEvent;
+
+    event.$locals.wasNew = event.isNew;
+    if (!event.isNew && event.$locals.revisionSnapshot) {
+        event.$locals.revisionChanges = diffRevisionSnapshots(
+            event.$locals.revisionSnapshot as Record<string, unknown>,
+            getRevisionSnapshot(event.toObject({ depopulate: true }))
+        );
+    }
+
+    next();
+});
+
+/**
+ * Appends a revision for the creation and for every save that changed a recorded field
+ * A failure is logged rather than thrown, since the event itself has already been saved
+ */
+EventSchema.post('save', async function (doc) {
+    const changes = doc.$locals.revisionChanges as ReturnType<typeof diffRevisionSnapshots> | undefined;
+    const snapshot = getRevisionSnapshot(doc.toObject({ depopulate: true }));
+
+    if (doc.$locals.wasNew || changes?.length) {
+        try {
+            const latest = await EventRevision.findOne({ eventId: doc._id }).sort({ revision: -1 }).select('revision');
+            await EventRevision.create({
+                eventId: doc._id,
+                revision: (latest?.revision || 0) + 1,
+                action: doc.$locals.wasNew ? 'create' : doc.$locals.revertedTo ? 'revert' : 'update',
+                changes: doc.$locals.wasNew ? [] : changes,
+                changedBy: doc.$locals.changedBy,
+                revertedTo: doc.$locals.revertedTo,
+            });
+        } catch (revisionError) {
+            console.error('Error recording event revision:', revisionError);
+        }
+    }
+
+    // Later saves of the same document diff against what was just saved
+    doc.$locals.revisionSnapshot = snapshot;
+    doc.$locals.revisionChanges = undefined;
+    doc.$locals.wasNew = false;
+});
+
+/**
+ * Pre-validate middleware enforcing business rules on create and update
+ * Computes the UTC start and end instants, and rejects past dates, events ending
+ * before they start and status changes outside the event lifecycle
+ * Reported as validation errors so API routes can return a 400
+ */
+EventSchema.pre('validate', function (next) {
+    const event = this as IEvent;
+    const timeZone = isValidTimeZone(event.timezone) ? event.timezone : DEFAULT_TIMEZONE;
+    const hasValidSchedule = /^\d{4}-\d{2}-\d{2}$/.test(event.date) && /^\d{1,2}:\d{2}$/.test(event.time);
+
+    const scheduleModified = ['date', 'time', 'endDate', 'endTime', 'timezone'].some((path) => event.isModified(path));
+
+    // Keep the stored instants in sync with the wall-clock schedule and timezone
+    if (hasValidSchedule && (scheduleModified || !event.startsAt || !event.endsAt)) {
+        const { startsAt, endsAt } = computeEventInstants(event.date, event.time, timeZone, event.endDate, event.endTime);
+        event.startsAt = startsAt;
+        event.endsAt = endsAt;
+
+        // Multi-day events must finish after they begin
+        if (event.endDate && event.endDate < event.date) {
+            event.invalidate('endDate', 'End date cannot be before the start date');
+        } else if (endsAt.getTime() <= startsAt.getTime()) {
+            event.invalidate('endTime', 'Event must end after it starts');
         }
     }
 
+    // Only events at a venue have coordinates; online events are never matched by distance
+    if (!event.venueId || event.mode === 'online') {
+        event.venueId = undefined;
+        event.geo = undefined;
+    }
+
+    // Sessions must end after they start, fall within the event's days and use speakers from the lineup
+    const lineup = new Set(event.speakers.map((id) => id.toString()));
+    event.agenda.forEach((session, index) => {
+        if (session.startTime && session.endTime
+            && session.endTime.padStart(5, '0') <= session.startTime.padStart(5, '0')) {
+            event.invalidate(`agenda.${index}.endTime`, `Session "${session.title}" must end after it starts`);
+        }
+        if (session.day && (session.day < event.date || session.day > (event.endDate || event.date))) {
+            event.invalidate(`agenda.${index}.day`, `Session "${session.title}" must take place during the event`);
+        }
+        if (session.speakerIds?.some((id) => !lineup.has(id.toString()))) {
+            event.invalidate(`agenda.${index}.speakerIds`, `Speakers of session "${session.title}" must be part of the event lineup`);
+        }
+    });
+
+    // Ticket names must be distinguishable and sale windows must close after they open
+    const ticketNames = new Set<string>();
+    event.ticketTypes.forEach((ticket, index) => {
+        const name = ticket.name?.toLowerCase();
+        if (ticketNames.has(name)) {
+            event.invalidate(`ticketTypes.${index}.name`, `Ticket type "${ticket.name}" is listed more than once`);
+        }
+        ticketNames.add(name);
+
+        if (ticket.saleStart && ticket.saleEnd && new Date(ticket.saleEnd) <= new Date(ticket.saleStart)) {
+            event.invalidate(`ticketTypes.${index}.saleEnd`, `Sales of "${ticket.name}" must end after they start`);
+        }
+    });
+
+    // Choice questions need distinct options to choose from; other questions have none
+    event.registrationQuestions.forEach((question, index) => {
+        if (question.type === 'select' || question.type === 'multiselect') {
+            const options = question.options.filter(Boolean);
+            question.options = options;
+            if (options.length === 0) {
+                event.invalidate(`registrationQuestions.${index}.options`, `Question "${question.label}" needs at least one option`);
+            } else if (new Set(options).size !== options.length) {
+                event.invalidate(`registrationQuestions.${index}.options`, `Question "${question.label}" lists an option more than once`);
+            }
+        } else if (question.options.length > 0) {
+            question.options = [];
+        }
+    });
+
+    // Listings sort and display the event price, so keep it at the cheapest public ticket
+    const lowestPrice = getLowestTicketPrice(event.ticketTypes);
+    if (lowestPrice) {
+        event.price = lowestPrice.price;
+    }
+
+    // New events start as drafts or go live immediately
+    if (event.isNew && !['draft', 'published'].includes(event.status)) {
+        event.invalidate('status', 'New events must be saved as draft or published');
+    }
+
+    // Existing events may only move along the lifecycle
+    if (!event.isNew && event.isModified('status')) {
+        const previousStatus = event.$locals.loadedStatus as EventStatus | undefined;
+        if (previousStatus && previousStatus !== event.status
+            && !EVENT_STATUS_TRANSITIONS[previousStatus].includes(event.status)) {
+            event.invalidate('status', `Cannot change status from ${previousStatus} to ${event.status}`);
+        }
+    }
+
+    // Validate that date is not in the past, judged by the calendar in the event's timezone
+    if (event.isModified('date') && event.date < getDateInTimeZone(timeZone)) {
+        event.invalidate('date', 'Event date cannot be in the past');
+    }
+
     next();
 });
 
@@ -214,30 +801,18 @@ EventSchema.pre('save', function (next) {
  */
 EventSchema.statics.findByTag = function (tag: string, page = 1, limit = 10) {
     const skip = (page - 1) * limit;
-    return this.find({ tags: { $in: [tag] } })
-        .sort({ date: 1 })
+    return this.find({ tags: { $in: [tag] }, ...listedEventFilter() })
+        .sort({ startsAt: 1 })
         .skip(skip)
         .limit(limit);
 };
 
-/**
- * Helper function to generate URL-friendly slugs
- * Converts title to lowercase, replaces spaces with hyphens, removes special chars
- */
-function generateSlug(title: string): string {
-    return title
-        .toLowerCase()
-        .trim()
-        .replace(/[^a-z0-9\s-]/g, '') // Remove special characters
-        .replace(/\s+/g, '-') // Replace spaces with hyphens
-        .replace(/-+/g, '-') // Collapse multiple hyphens
-        .replace(/^-|-$/g, ''); // Remove leading/trailing hyphens
-}
-
 // Compound indexes for common query patterns
 EventSchema.index({ date: 1, mode: 1 }); // For filtering events by date and mode
 EventSchema.index({ tags: 1, date: 1 }); // For tag-based filtering with date sorting
+EventSchema.index({ endsAt: 1, startsAt: 1 }); // For upcoming listings sorted by start time
 EventSchema.index({ createdAt: -1 }); // For getting latest events
+EventSchema.index({ geo: '2dsphere' }); // For nearby event searches; events without coordinates are skipped
 
 const Event = models.Event || model<IEvent>('Event', EventSchema);
 
@@ -3,5 +3,11 @@
  * Provides type-safe access to models and their interfaces
  */
 
-export { default as Event, type IEvent } from './event.model';
-export { default as Booking, type IBooking } from './booking.model';
\ No newline at end of file
+export { default as Event, type IEvent, type IEventInvite } from './event.model';
+export { default as Booking, type IBooking } from './booking.model';
+export { default as EventSeries, type IEventSeries } from './series.model';
+export { default as Speaker, type ISpeaker, type ISpeakerLink } from './speaker.model';
+export { default as Organization, type IOrganization, type IOrganizationLink, type IOrganizationMember } from './organization.model';
+export { default as Venue, type IVenue, type IGeoPoint } from './venue.model';
+export { default as PromoCode, type IPromoCode } from './promo-code.model';
+export { default as EventRevision, type IEventRevision, type IEventRevisionChange } from './event-revision.model';
@@ -0,0 +1,164 @@
+import { Schema, model, models, Document } from 'mongoose';
+import { generateSlug } from '@/lib/utils';
+
+/**
+ * External link shown on an organization profile, e.g. a website or social account
+ */
+export interface IOrganizationLink {
+    label: string;
+    url: string;
+}
+
+/**
+ * Person listed as part of an organization's team
+ */
+export interface IOrganizationMember {
+    name: string;
+    email?: string;
+    role: 'owner' | 'admin' | 'member';
+}
+
+/**
+ * Organization interface for communities and companies hosting events
+ * Events reference their organization; the slug doubles as the matching key for organizer names
+ */
+export interface IOrganization extends Document {
+    name: string;
+    slug: string;
+    logo?: string;
+    description?: string;
+    links: IOrganizationLink[];
+    members: IOrganizationMember[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Basic URL validation shared by the logo and link fields
+const isValidUrl = (url: string) => {
+    try {
+        new URL(url);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Organization schema with profile and team validation
+ */
+const OrganizationSchema = new Schema<IOrganization>(
+    {
+        name: {
+            type: String,
+            required: [true, 'Organization name is required'],
+            trim: true,
+            maxlength: [100, 'Organization name cannot exceed 100 characters'],
+        },
+        slug: {
+            type: String,
+            unique: true,
+            lowercase: true,
+            trim: true,
+            index: true, // Optimize slug-based queries
+        },
+        logo: {
+            type: String,
+            validate: {
+                validator: (url: string) => !url || isValidUrl(url),
+                message: 'Invalid logo URL format',
+            },
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: [2000, 'Description cannot exceed 2000 characters'],
+        },
+        links: {
+            type: [
+                {
+                    _id: false,
+                    label: {
+                        type: String,
+                        required: [true, 'Link label is required'],
+                        trim: true,
+                        maxlength: [50, 'Link label cannot exceed 50 characters'],
+                    },
+                    url: {
+                        type: String,
+                        required: [true, 'Link URL is required'],
+                        validate: {
+                            validator: isValidUrl,
+                            message: 'Invalid link URL format',
+                        },
+                    },
+                },
+            ],
+            default: [],
+            validate: {
+                validator: (links: IOrganizationLink[]) => links.length <= 10,
+                message: 'An organization can have at most 10 links',
+            },
+        },
+        members: {
+            type: [
+                {
+                    _id: false,
+                    name: {
+                        type: String,
+                        required: [true, 'Member name is required'],
+                        trim: true,
+                        maxlength: [100, 'Member name cannot exceed 100 characters'],
+                    },
+                    email: {
+                        type: String,
+                        trim: true,
+                        lowercase: true,
+                        validate: {
+                            validator: (email: string) => !email || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email),
+                            message: 'Please provide a valid member email address',
+                        },
+                    },
+                    role: {
+                        type: String,
+                        enum: {
+                            values: ['owner', 'admin', 'member'],
+                            message: 'Member role must be owner, admin, or member',
+                        },
+                        default: 'member',
+                    },
+                },
+            ],
+            default: [],
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (doc, ret: Record<string, any>) => {
+                ret.id = ret._id.toString();
+                delete ret._id;
+                delete ret.__v;
+                // Member emails are private
+                ret.members = ret.members?.map((member: IOrganizationMember) => ({ name: member.name, role: member.role }));
+                return ret;
+            },
+        },
+    }
+);
+
+/**
+ * Pre-save middleware generating the organization slug from its name
+ */
+OrganizationSchema.pre('save', function (next) {
+    const organization = this as IOrganization;
+
+    if (organization.isModified('name') || !organization.slug) {
+        organization.slug = generateSlug(organization.name);
+    }
+
+    next();
+});
+
+const Organization = models.Organization || model<IOrganization>('Organization', OrganizationSchema);
+
+export default Organization;
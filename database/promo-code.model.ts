@@ -0,0 +1,106 @@
+import { Schema, model, models, Document, Types } from 'mongoose';
+import { PROMO_DISCOUNT_TYPES, PromoDiscountType } from '@/lib/constants';
+
+/**
+ * Promo code interface for discounts on an event's tickets
+ * Codes are redeemed when a booking is created and count against maxRedemptions
+ */
+export interface IPromoCode extends Document {
+    eventId: Types.ObjectId;
+    code: string;
+    discountType: PromoDiscountType;
+    amount: number;
+    maxRedemptions?: number;
+    redemptions: number;
+    expiresAt?: Date;
+    ticketTypeIds: Types.ObjectId[];
+    note?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Promo code schema with discount validation
+ * Codes are unique per event and matched case-insensitively by storing them uppercase
+ */
+const PromoCodeSchema = new Schema<IPromoCode>(
+    {
+        eventId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Event',
+            required: [true, 'Event reference is required'],
+            index: true, // Optimize listing an event's codes
+        },
+        code: {
+            type: String,
+            required: [true, 'Promo code is required'],
+            trim: true,
+            uppercase: true,
+            match: [/^[A-Z0-9_-]{3,32}$/, 'Promo codes must be 3-32 letters, digits, dashes or underscores'],
+        },
+        discountType: {
+            type: String,
+            enum: {
+                values: Object.keys(PROMO_DISCOUNT_TYPES),
+                message: 'Discount type must be percentage or fixed',
+            },
+            required: [true, 'Discount type is required'],
+        },
+        amount: {
+            type: Number,
+            required: [true, 'Discount amount is required'],
+            min: [0.01, 'Discount amount must be positive'],
+        },
+        maxRedemptions: {
+            type: Number,
+            min: [1, 'Usage limit must be at least 1'], // 1 makes a single-use code
+        },
+        redemptions: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        expiresAt: {
+            type: Date,
+        },
+        ticketTypeIds: {
+            type: [Schema.Types.ObjectId], // Ticket types the code applies to; all when empty
+            default: [],
+        },
+        note: {
+            type: String,
+            trim: true,
+            maxlength: [200, 'Note cannot exceed 200 characters'], // e.g. who a single-use code was given to
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (doc, ret: Record<string, any>) => {
+                ret.id = ret._id.toString();
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+/**
+ * Pre-validate middleware keeping percentage discounts within 100%
+ */
+PromoCodeSchema.pre('validate', function (next) {
+    const promoCode = this as IPromoCode;
+
+    if (promoCode.discountType === 'percentage' && promoCode.amount > 100) {
+        promoCode.invalidate('amount', 'Percentage discounts cannot exceed 100');
+    }
+
+    next();
+});
+
+PromoCodeSchema.index({ eventId: 1, code: 1 }, { unique: true }); // One code per event
+
+const PromoCode = models.PromoCode || model<IPromoCode>('PromoCode', PromoCodeSchema);
+
+export default PromoCode;
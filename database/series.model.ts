@@ -0,0 +1,119 @@
+import { Schema, model, models, Document } from 'mongoose';
+import { parseRRule } from '@/lib/recurrence';
+import { generateSlug } from '@/lib/utils';
+import { isSlugVariant, reserveSlug } from '@/lib/slugs';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/lib/timezone';
+
+/**
+ * Event series interface for recurring events
+ * Occurrences are stored as regular Event documents referencing the series
+ */
+export interface IEventSeries extends Document {
+    title: string;
+    slug: string;
+    rrule: string;
+    startDate: string;
+    time: string;
+    timezone: string;
+    exdates: string[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Event series schema storing the recurrence rule and its exceptions
+ */
+const EventSeriesSchema = new Schema<IEventSeries>(
+    {
+        title: {
+            type: String,
+            required: [true, 'Series title is required'],
+            trim: true,
+            maxlength: [120, 'Title cannot exceed 120 characters'],
+        },
+        slug: {
+            type: String,
+            unique: true,
+            lowercase: true,
+            trim: true,
+            index: true, // Optimize slug-based queries
+        },
+        rrule: {
+            type: String,
+            required: [true, 'Recurrence rule is required'],
+            validate: {
+                validator: (rrule: string) => {
+                    try {
+                        parseRRule(rrule);
+                        return true;
+                    } catch {
+                        return false;
+                    }
+                },
+                message: 'Invalid recurrence rule',
+            },
+        },
+        startDate: {
+            type: String,
+            required: [true, 'Series start date is required'],
+            validate: {
+                validator: (date: string) => /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(new Date(date).getTime()),
+                message: 'Start date must be in YYYY-MM-DD format',
+            },
+        },
+        time: {
+            type: String,
+            required: [true, 'Series time is required'],
+        },
+        timezone: {
+            type: String,
+            default: DEFAULT_TIMEZONE,
+            trim: true,
+            validate: {
+                validator: (timeZone: string) => isValidTimeZone(timeZone),
+                message: 'Timezone must be a valid IANA timezone, e.g. Europe/Berlin',
+            },
+        },
+        exdates: {
+            type: [String],
+            default: [],
+            validate: {
+                validator: (dates: string[]) => dates.every((date) => /^\d{4}-\d{2}-\d{2}$/.test(date)),
+                message: 'Exception dates must be in YYYY-MM-DD format',
+            },
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (doc, ret: Record<string, any>) => {
+                ret.id = ret._id.toString();
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+/**
+ * Pre-save middleware generating the series slug from its title
+ * A taken slug gets a counter suffix, as for events
+ */
+EventSeriesSchema.pre('save', async function () {
+    const series = this as IEventSeries;
+
+    if (series.isModified('title') || !series.slug) {
+        const base = generateSlug(series.title) || 'series';
+
+        if (!series.slug || !isSlugVariant(series.slug, base)) {
+            series.slug = await reserveSlug('series', base, async (slug) =>
+                !!(await EventSeries.exists({ _id: { $ne: series._id }, slug }))
+            );
+        }
+    }
+});
+
+const EventSeries = models.EventSeries || model<IEventSeries>('EventSeries', EventSeriesSchema);
+
+export default EventSeries;
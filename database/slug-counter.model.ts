@@ -0,0 +1,34 @@
+import { Schema, model, models, Document } from 'mongoose';
+
+/**
+ * Slug counter interface
+ * One counter per base slug hands out suffixes for documents sharing that base
+ */
+export interface ISlugCounter extends Document<string> {
+    _id: string;
+    seq: number;
+}
+
+/**
+ * Slug counter schema, keyed by "<scope>:<base slug>", e.g. "event:react-meetup"
+ * Counters are only ever incremented, so a suffix is never handed out twice
+ */
+const SlugCounterSchema = new Schema<ISlugCounter>(
+    {
+        _id: {
+            type: String,
+            required: true,
+        },
+        seq: {
+            type: Number,
+            default: 0,
+        },
+    },
+    {
+        versionKey: false,
+    }
+);
+
+const SlugCounter = models.SlugCounter || model<ISlugCounter>('SlugCounter', SlugCounterSchema);
+
+export default SlugCounter;
@@ -0,0 +1,128 @@
+import { Schema, model, models, Document } from 'mongoose';
+import { generateSlug } from '@/lib/utils';
+
+/**
+ * External profile link shown on a speaker page, e.g. a website or social profile
+ */
+export interface ISpeakerLink {
+    label: string;
+    url: string;
+}
+
+/**
+ * Speaker interface for people presenting at events
+ * Events reference speakers in their lineup and agenda sessions
+ */
+export interface ISpeaker extends Document {
+    name: string;
+    slug: string;
+    bio?: string;
+    photo?: string;
+    affiliation?: string;
+    links: ISpeakerLink[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Basic URL validation shared by the photo and link fields
+const isValidUrl = (url: string) => {
+    try {
+        new URL(url);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Speaker schema with profile validation
+ */
+const SpeakerSchema = new Schema<ISpeaker>(
+    {
+        name: {
+            type: String,
+            required: [true, 'Speaker name is required'],
+            trim: true,
+            maxlength: [100, 'Speaker name cannot exceed 100 characters'],
+            index: 'text', // Enable text search on name
+        },
+        slug: {
+            type: String,
+            unique: true,
+            lowercase: true,
+            trim: true,
+            index: true, // Optimize slug-based queries
+        },
+        bio: {
+            type: String,
+            trim: true,
+            maxlength: [2000, 'Bio cannot exceed 2000 characters'],
+        },
+        photo: {
+            type: String,
+            validate: {
+                validator: (url: string) => !url || isValidUrl(url),
+                message: 'Invalid photo URL format',
+            },
+        },
+        affiliation: {
+            type: String,
+            trim: true,
+            maxlength: [150, 'Affiliation cannot exceed 150 characters'],
+        },
+        links: {
+            type: [
+                {
+                    _id: false,
+                    label: {
+                        type: String,
+                        required: [true, 'Link label is required'],
+                        trim: true,
+                        maxlength: [50, 'Link label cannot exceed 50 characters'],
+                    },
+                    url: {
+                        type: String,
+                        required: [true, 'Link URL is required'],
+                        validate: {
+                            validator: isValidUrl,
+                            message: 'Invalid link URL format',
+                        },
+                    },
+                },
+            ],
+            default: [],
+            validate: {
+                validator: (links: ISpeakerLink[]) => links.length <= 5,
+                message: 'A speaker can have at most 5 links',
+            },
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (doc, ret: Record<string, any>) => {
+                ret.id = ret._id.toString();
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+/**
+ * Pre-save middleware generating the speaker slug from their name
+ */
+SpeakerSchema.pre('save', function (next) {
+    const speaker = this as ISpeaker;
+
+    if (speaker.isModified('name') || !speaker.slug) {
+        speaker.slug = generateSlug(speaker.name);
+    }
+
+    next();
+});
+
+const Speaker = models.Speaker || model<ISpeaker>('Speaker', SpeakerSchema);
+
+export default Speaker;
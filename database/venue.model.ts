@@ -0,0 +1,122 @@
+import { Schema, model, models, Document } from 'mongoose';
+import { generateSlug } from '@/lib/utils';
+
+/**
+ * GeoJSON point; coordinates are [longitude, latitude] as MongoDB expects
+ */
+export interface IGeoPoint {
+    type: 'Point';
+    coordinates: [number, number];
+}
+
+/**
+ * Venue interface for physical places where events take place
+ * Events picked from a venue copy its name, address and coordinates
+ */
+export interface IVenue extends Document {
+    name: string;
+    slug: string;
+    address: string;
+    city?: string;
+    country?: string;
+    location: IGeoPoint;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * GeoJSON point schema, shared with events that store their venue's coordinates
+ */
+export const GeoPointSchema = new Schema<IGeoPoint>(
+    {
+        type: {
+            type: String,
+            enum: ['Point'],
+            default: 'Point',
+        },
+        coordinates: {
+            type: [Number],
+            required: [true, 'Coordinates are required'],
+            validate: {
+                validator: ([longitude, latitude, ...rest]: number[]) =>
+                    rest.length === 0
+                    && longitude >= -180 && longitude <= 180
+                    && latitude >= -90 && latitude <= 90,
+                message: 'Coordinates must be [longitude, latitude] within valid ranges',
+            },
+        },
+    },
+    { _id: false }
+);
+
+/**
+ * Venue schema with address and location validation
+ */
+const VenueSchema = new Schema<IVenue>(
+    {
+        name: {
+            type: String,
+            required: [true, 'Venue name is required'],
+            trim: true,
+            maxlength: [100, 'Venue name cannot exceed 100 characters'],
+        },
+        slug: {
+            type: String,
+            unique: true,
+            lowercase: true,
+            trim: true,
+            index: true, // Optimize slug-based queries
+        },
+        address: {
+            type: String,
+            required: [true, 'Venue address is required'],
+            trim: true,
+            maxlength: [100, 'Address cannot exceed 100 characters'],
+        },
+        city: {
+            type: String,
+            trim: true,
+            maxlength: [50, 'City cannot exceed 50 characters'],
+        },
+        country: {
+            type: String,
+            trim: true,
+            maxlength: [40, 'Country cannot exceed 40 characters'],
+        },
+        location: {
+            type: GeoPointSchema,
+            required: [true, 'Venue location is required'],
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (doc, ret: Record<string, any>) => {
+                ret.id = ret._id.toString();
+                delete ret._id;
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+/**
+ * Pre-save middleware generating the venue slug from its name and city
+ * The city keeps venues with common names, e.g. "Innovation Hub", apart
+ */
+VenueSchema.pre('save', function (next) {
+    const venue = this as IVenue;
+
+    if (venue.isModified('name') || venue.isModified('city') || !venue.slug) {
+        venue.slug = generateSlug([venue.name, venue.city].filter(Boolean).join(' '));
+    }
+
+    next();
+});
+
+VenueSchema.index({ location: '2dsphere' }); // For nearby venue lookups
+
+const Venue = models.Venue || model<IVenue>('Venue', VenueSchema);
+
+export default Venue;
@@ -0,0 +1,52 @@
+'use server';
+
+/**
+ * Server actions for organizer sign-in
+ */
+
+import { cookies } from 'next/headers';
+import { ADMIN_SESSION_COOKIE, createAdminSession } from '@/lib/auth';
+import { API_MESSAGES } from '@/lib/constants';
+
+/**
+ * Signs an organizer in with the admin key, setting the session cookie their browser sends from then on
+ * The cookie is httpOnly and SameSite=Lax: scripts cannot read it, and other sites cannot send it
+ * along with their own requests to the API
+ * @param key - Admin key entered on the sign-in page
+ * @returns Promise<{ success: boolean; message: string }>
+ */
+export async function signInOrganizer(key: string) {
+    const session = createAdminSession(key?.trim() || '');
+    if (!session) {
+        return {
+            success: false,
+            message: API_MESSAGES.ERROR.SIGN_IN_FAILED
+        };
+    }
+
+    cookies().set(ADMIN_SESSION_COOKIE, session.value, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        expires: session.expiresAt,
+    });
+
+    return {
+        success: true,
+        message: API_MESSAGES.SUCCESS.SIGNED_IN
+    };
+}
+
+/**
+ * Ends the organizer session of the current browser
+ * @returns Promise<{ success: boolean; message: string }>
+ */
+export async function signOutOrganizer() {
+    cookies().delete(ADMIN_SESSION_COOKIE);
+
+    return {
+        success: true,
+        message: API_MESSAGES.SUCCESS.SIGNED_OUT
+    };
+}
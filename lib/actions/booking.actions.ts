@@ -2,61 +2,282 @@
 
 /**
  * Server actions for booking management
- * Handles events registration with capacity checks and duplicate prevention
+ * Handles single and group events registration with capacity checks, waitlists and duplicate prevention
  */
 
 import { revalidatePath } from 'next/cache';
+import { cookies, headers } from 'next/headers';
+import { Types } from 'mongoose';
 import Booking from '@/database/booking.model';
-import Event from '@/database/event.model';
+import Event, { IEvent } from '@/database/event.model';
 import connectDB from '@/lib/mongodb';
-import { API_MESSAGES } from '@/lib/constants';
+import { API_MESSAGES, EVENT_CONSTANTS } from '@/lib/constants';
+import { activeEventFilter } from '@/lib/event-filters';
+import { TicketType, getTicketSaleState } from '@/lib/tickets';
+import { applyDiscount, findApplicablePromoCode, redeemPromoCode, releasePromoCode } from '@/lib/promo-codes';
+import type { IPromoCode } from '@/database/promo-code.model';
+import { RegistrationAnswer, RegistrationQuestion, validateRegistrationAnswers } from '@/lib/registration-questions';
+import { canAccessEvent } from '@/lib/invites';
+import { getNextWaitlistPosition, getWaitlist, getWaitlistRank, promoteFromWaitlist, releaseExpiredHolds } from '@/lib/waitlist';
+import { releaseSeats, reserveSeats } from '@/lib/seats';
+import { isValidEmail } from '@/lib/utils';
+import { getManageTokenExpiry, issueManageUrl, readVerificationToken, verifyManageToken } from '@/lib/booking-tokens';
+import { sendNotification } from '@/lib/notifications';
+import { getSeatHoldExpiry, requestEmailVerification } from '@/lib/email-verification';
+import { hasAdminAccess } from '@/lib/auth';
+
+// Fields shared by single and group booking requests
+interface BookingRequest {
+    eventId: string;
+    ticketTypeId?: string;
+    promoCode?: string;
+    answers?: Record<string, unknown>;
+    inviteToken?: string;
+}
+
+// Booking request that passed validation, with everything needed to save its bookings
+interface PreparedBooking {
+    event: IEvent;
+    ticket?: TicketType;
+    answers: RegistrationAnswer[];
+    listPrice: number;
+    promoCode?: IPromoCode;
+}
+
+/**
+ * Checks the event, invite, registration answers, ticket type and promo code of a booking request
+ * Nothing is reserved or redeemed yet
+ * @param request - Booking request from the form
+ * @param seats - Number of attendees being booked together
+ * @returns The validated booking, or the message explaining why it cannot go ahead
+ */
+async function prepareBooking(
+    request: BookingRequest,
+    seats: number
+): Promise<{ prepared: PreparedBooking; message?: undefined } | { prepared?: undefined; message: string }> {
+    // Put expired seat holds back on sale before the event's counters are read
+    await releaseExpiredHolds(request.eventId);
+
+    // Validate events exists
+    const event: IEvent | null = await Event.findOne({ _id: request.eventId, ...activeEventFilter() });
+    if (!event) {
+        return { message: API_MESSAGES.ERROR.NOT_FOUND };
+    }
+
+    if (!(await canAccessEvent(event, request.inviteToken))) {
+        return { message: API_MESSAGES.ERROR.INVITE_REQUIRED };
+    }
+
+    // Only published events accept new registrations
+    if (event.status !== 'published') {
+        return { message: API_MESSAGES.ERROR.EVENT_NOT_OPEN };
+    }
+
+    // Verification links are signed with BOOKING_TOKEN_SECRET; without it no booking could be confirmed
+    if (event.requireEmailVerification && !process.env.BOOKING_TOKEN_SECRET) {
+        console.error('BOOKING_TOKEN_SECRET is not set; cannot take bookings for', event.slug);
+        return { message: API_MESSAGES.ERROR.SERVER_ERROR };
+    }
+
+    // Check the answers before any ticket or promo code is taken
+    const { answers, errors: answerErrors } = validateRegistrationAnswers(
+        event.registrationQuestions as RegistrationQuestion[],
+        request.answers
+    );
+    if (answerErrors.length > 0) {
+        return { message: answerErrors.join(', ') };
+    }
+
+    // Events selling ticket types need a ticket that is on sale and not sold out
+    let ticket: TicketType | undefined;
+
+    if (event.ticketTypes.length > 0) {
+        ticket = event.ticketTypes.find((ticketType: TicketType) => ticketType._id?.toString() === request.ticketTypeId);
+
+        if (!ticket) {
+            return { message: API_MESSAGES.ERROR.TICKET_UNAVAILABLE };
+        }
+
+        if (getTicketSaleState(ticket) !== 'on-sale') {
+            return { message: API_MESSAGES.ERROR.TICKET_NOT_ON_SALE };
+        }
+
+        // Quick check for a clear message; reserveSeats enforces the quantity
+        if (ticket.quantity) {
+            const ticketsSold = event.ticketsSold?.get(ticket._id!.toString()) || 0;
+
+            if (ticketsSold + seats > ticket.quantity) {
+                return { message: API_MESSAGES.ERROR.TICKET_SOLD_OUT };
+            }
+        }
+    }
+
+    // Check the promo code before taking a place; it is only redeemed once the booking can go ahead
+    const listPrice: number = ticket ? ticket.price : event.price || 0;
+    let promoCode: IPromoCode | undefined;
+
+    if (request.promoCode && request.promoCode.trim() !== '') {
+        const check = await findApplicablePromoCode(event._id, request.promoCode, ticket?._id?.toString(), listPrice);
+        if (!check.promoCode) {
+            return { message: check.error };
+        }
+        promoCode = check.promoCode;
+    }
+
+    return { prepared: { event, ticket, answers, listPrice, promoCode } };
+}
+
+// Emails an attendee their booking, with the link to manage it
+async function notifyAttendee(
+    booking: { email: string; fullName: string },
+    event: Pick<IEvent, 'title'>,
+    manageUrl: string | null,
+    waitlistPosition?: number
+) {
+    const summary = waitlistPosition
+        ? `${event.title} is full, so you are number ${waitlistPosition} on the waitlist. We'll let you know if a seat opens up.`
+        : `You're registered for ${event.title}.`;
+
+    await sendNotification({
+        to: booking.email,
+        subject: waitlistPosition ? `On the waitlist: ${event.title}` : `Booking confirmed: ${event.title}`,
+        text: `Hi ${booking.fullName}, ${summary}`
+            + (manageUrl ? ` View, update or cancel your booking here: ${manageUrl}` : ''),
+    });
+}
+
+// Turns a failed booking save into the message shown to the attendee
+function getBookingErrorMessage(error: any): string {
+    // Handle duplicate booking error
+    if (error.code === 11000 || error.message?.includes('duplicate')) {
+        return API_MESSAGES.ERROR.DUPLICATE_BOOKING;
+    }
+
+    // Handle validation errors
+    if (error.name === 'ValidationError') {
+        return Object.values(error.errors).map((e: any) => e.message).join(', ');
+    }
+
+    return API_MESSAGES.ERROR.SERVER_ERROR;
+}
 
 /**
  * Creates a new booking for an events with comprehensive validation
- * @param bookingData - Booking information including eventId, email, and fullName
- * @returns Promise<{ success: boolean; message: string; bookingId?: string }>
+ * Events with ticket types need one picked; its sale window and quantity are enforced
+ * alongside the event's overall capacity, with the seat taken atomically so parallel bookings cannot oversell
+ * A promo code is redeemed with the booking, which records the price paid and the code used
+ * Answers to the event's registration questions are validated and stored with the booking
+ * Private events can only be booked with a valid invite token
+ * Once the event is full, bookings join its waitlist instead; a promo code stays redeemed while waitlisted
+ * The attendee is emailed a link to manage the booking, which is also returned for the confirmation screen
+ * On events requiring email verification the booking only holds its seat as pending_verification, and
+ * the attendee is emailed a verification link instead; the manage link follows once they verify
+ * @param bookingData - Booking information including eventId, email, fullName, ticketTypeId, promoCode, answers and inviteToken
+ * @returns Promise<{ success: boolean; message: string; bookingId?: string; manageUrl?: string | null; waitlistPosition?: number; verificationRequired?: boolean }>
  */
-export async function createBooking(bookingData: {
-    eventId: string;
+export async function createBooking(bookingData: BookingRequest & {
     email: string;
     fullName: string;
 }) {
     try {
         await connectDB();
 
-        const { eventId, email, fullName } = bookingData;
+        const { prepared, message } = await prepareBooking(bookingData, 1);
+        if (!prepared) {
+            return {
+                success: false,
+                message
+            };
+        }
+
+        const { event, ticket, answers, listPrice, promoCode } = prepared;
 
-        // Validate events exists and check capacity
-        const event = await Event.findById(eventId);
-        if (!event) {
+        // Take a seat; a full event puts the booking on its waitlist instead
+        const reservation = await reserveSeats(event, ticket?._id);
+        if (reservation === 'ticket-sold-out') {
             return {
                 success: false,
-                message: API_MESSAGES.ERROR.NOT_FOUND
+                message: API_MESSAGES.ERROR.TICKET_SOLD_OUT
             };
         }
+        const isWaitlisted = reservation === 'event-full';
+        const holdExpiresAt = event.requireEmailVerification && !isWaitlisted ? getSeatHoldExpiry() : undefined;
 
-        // Check capacity if events has a limit
-        if (event.capacity) {
-            const currentBookings = await Booking.countDocuments({
-                eventId,
-                status: 'confirmed'
+        // Another attendee may have used up the code since it was checked
+        if (promoCode && !(await redeemPromoCode(promoCode))) {
+            if (!isWaitlisted) {
+                await releaseSeats(event._id, ticket?._id);
+            }
+            return {
+                success: false,
+                message: API_MESSAGES.ERROR.PROMO_USED_UP
+            };
+        }
+
+        const pricePaid = promoCode ? applyDiscount(listPrice, promoCode) : listPrice;
+
+        // Create new booking, giving the seat and promo code use back if it fails
+        let booking;
+        try {
+            booking = await Booking.create({
+                eventId: event._id,
+                email: bookingData.email,
+                fullName: bookingData.fullName,
+                ticketTypeId: ticket?._id,
+                ticketName: ticket?.name,
+                price: pricePaid,
+                currency: ticket ? ticket.currency : EVENT_CONSTANTS.DEFAULT_CURRENCY,
+                promoCode: promoCode?.code,
+                discount: promoCode ? listPrice - pricePaid : undefined,
+                answers,
+                status: isWaitlisted ? 'waitlisted' : holdExpiresAt ? 'pending_verification' : 'confirmed',
+                waitlistPosition: isWaitlisted ? await getNextWaitlistPosition(event._id) : undefined,
+                verificationExpiresAt: holdExpiresAt,
             });
+        } catch (createError) {
+            if (!isWaitlisted) {
+                await releaseSeats(event._id, ticket?._id);
+            }
+            if (promoCode) {
+                await releasePromoCode(event._id, promoCode.code);
+            }
+            throw createError;
+        }
 
-            if (currentBookings >= event.capacity) {
-                return {
-                    success: false,
-                    message: API_MESSAGES.ERROR.EVENT_FULL
-                };
+        // Waitlisted attendees verify too, so a seat opening up later can be confirmed straight away
+        if (event.requireEmailVerification) {
+            const waitlistPosition = isWaitlisted ? await getWaitlistRank(booking) : undefined;
+            await requestEmailVerification(booking, event, holdExpiresAt || getManageTokenExpiry(event.endsAt));
+
+            if (!isWaitlisted) {
+                revalidatePath(`/events/${event.slug}`);
             }
+
+            return {
+                success: true,
+                message: API_MESSAGES.SUCCESS.VERIFICATION_SENT,
+                bookingId: booking._id.toString(),
+                waitlistPosition,
+                verificationRequired: true,
+            };
+        }
+
+        const manageUrl = issueManageUrl(booking._id, event.endsAt);
+
+        if (isWaitlisted) {
+            const waitlistPosition = await getWaitlistRank(booking);
+            await notifyAttendee(booking, event, manageUrl, waitlistPosition);
+
+            return {
+                success: true,
+                message: API_MESSAGES.SUCCESS.WAITLIST_JOINED,
+                bookingId: booking._id.toString(),
+                manageUrl,
+                waitlistPosition,
+            };
         }
 
-        // Create new booking
-        const booking = await Booking.create({
-            eventId,
-            email,
-            fullName,
-            status: 'confirmed',
-        });
+        await notifyAttendee(booking, event, manageUrl);
 
         // Revalidate events page to update booking count
         revalidatePath(`/events/${event.slug}`);
@@ -65,26 +286,203 @@ export async function createBooking(bookingData: {
             success: true,
             message: API_MESSAGES.SUCCESS.BOOKING_CREATED,
             bookingId: booking._id.toString(),
+            manageUrl,
         };
     } catch (error: any) {
         console.error('Booking creation failed:', error);
+        return {
+            success: false,
+            message: getBookingErrorMessage(error)
+        };
+    }
+}
+
+/**
+ * Books several attendees at once on behalf of a purchaser, e.g. a team lead registering colleagues
+ * Every attendee gets their own booking, linked by a shared groupId and the purchaser's details
+ * Seats for the whole group are taken in one atomic update: the group is booked completely or not
+ * at all, and never waitlisted
+ * The ticket type, promo code (one use per attendee) and registration answers apply to every attendee
+ * Each attendee is emailed the link to manage their own booking
+ * On events requiring email verification every attendee verifies their own address before their seat is confirmed
+ * @param bookingData - Purchaser, attendees, and the eventId, ticketTypeId, promoCode, answers and inviteToken
+ * @returns Promise<{ success: boolean; message: string; groupId?: string; bookingIds?: string[]; verificationRequired?: boolean }>
+ */
+export async function createGroupBooking(bookingData: BookingRequest & {
+    purchaser: { fullName: string; email: string };
+    attendees: { fullName: string; email: string }[];
+}) {
+    try {
+        await connectDB();
+
+        const purchaser = {
+            fullName: bookingData.purchaser?.fullName?.trim() || '',
+            email: bookingData.purchaser?.email?.trim().toLowerCase() || '',
+        };
+        const attendees = (bookingData.attendees || []).map((attendee) => ({
+            fullName: attendee.fullName?.trim() || '',
+            email: attendee.email?.trim().toLowerCase() || '',
+        }));
+
+        if (attendees.length < 1 || attendees.length > EVENT_CONSTANTS.MAX_GROUP_SIZE) {
+            return {
+                success: false,
+                message: `A group booking needs between 1 and ${EVENT_CONSTANTS.MAX_GROUP_SIZE} attendees`
+            };
+        }
+
+        if ([purchaser, ...attendees].some((person) => !person.fullName || !isValidEmail(person.email))) {
+            return {
+                success: false,
+                message: API_MESSAGES.ERROR.GROUP_ATTENDEE_INVALID
+            };
+        }
+
+        if (new Set(attendees.map((attendee) => attendee.email)).size !== attendees.length) {
+            return {
+                success: false,
+                message: API_MESSAGES.ERROR.GROUP_DUPLICATE_EMAIL
+            };
+        }
+
+        const { prepared, message } = await prepareBooking(bookingData, attendees.length);
+        if (!prepared) {
+            return {
+                success: false,
+                message
+            };
+        }
+
+        const { event, ticket, answers, listPrice, promoCode } = prepared;
+
+        // Name the attendees already registered rather than failing on the first one
+        const registered = await Booking.find({ eventId: event._id, email: { $in: attendees.map((attendee) => attendee.email) } })
+            .select('email')
+            .lean<{ email: string }[]>();
+        if (registered.length > 0) {
+            return {
+                success: false,
+                message: `${API_MESSAGES.ERROR.DUPLICATE_BOOKING}: ${registered.map((booking) => booking.email).join(', ')}`
+            };
+        }
 
-        // Handle duplicate booking error
-        if (error.code === 11000 || error.message.includes('duplicate')) {
+        const reservation = await reserveSeats(event, ticket?._id, attendees.length);
+        if (reservation !== 'reserved') {
             return {
                 success: false,
-                message: API_MESSAGES.ERROR.DUPLICATE_BOOKING
+                message: reservation === 'ticket-sold-out'
+                    ? API_MESSAGES.ERROR.TICKET_SOLD_OUT
+                    : API_MESSAGES.ERROR.GROUP_SEATS_UNAVAILABLE
             };
         }
 
-        // Handle validation errors
-        if (error.name === 'ValidationError') {
+        if (promoCode && !(await redeemPromoCode(promoCode, attendees.length))) {
+            await releaseSeats(event._id, ticket?._id, attendees.length);
             return {
                 success: false,
-                message: Object.values(error.errors).map((e: any) => e.message).join(', ')
+                message: API_MESSAGES.ERROR.PROMO_USED_UP
             };
         }
 
+        const pricePaid = promoCode ? applyDiscount(listPrice, promoCode) : listPrice;
+        const groupId = new Types.ObjectId();
+        const holdExpiresAt = event.requireEmailVerification ? getSeatHoldExpiry() : undefined;
+
+        // Save every booking or none, giving the seats and promo code uses back on failure
+        let bookings;
+        try {
+            bookings = await Booking.insertMany(attendees.map((attendee) => ({
+                eventId: event._id,
+                email: attendee.email,
+                fullName: attendee.fullName,
+                groupId,
+                purchaser,
+                ticketTypeId: ticket?._id,
+                ticketName: ticket?.name,
+                price: pricePaid,
+                currency: ticket ? ticket.currency : EVENT_CONSTANTS.DEFAULT_CURRENCY,
+                promoCode: promoCode?.code,
+                discount: promoCode ? listPrice - pricePaid : undefined,
+                answers,
+                status: holdExpiresAt ? 'pending_verification' : 'confirmed',
+                verificationExpiresAt: holdExpiresAt,
+            })));
+        } catch (createError) {
+            await Booking.deleteMany({ groupId });
+            await releaseSeats(event._id, ticket?._id, attendees.length);
+            if (promoCode) {
+                await releasePromoCode(event._id, promoCode.code, attendees.length);
+            }
+            throw createError;
+        }
+
+        for (const booking of bookings) {
+            if (holdExpiresAt) {
+                await requestEmailVerification(booking, event, holdExpiresAt);
+            } else {
+                await notifyAttendee(booking, event, issueManageUrl(booking._id, event.endsAt));
+            }
+        }
+
+        // Revalidate events page to update booking count
+        revalidatePath(`/events/${event.slug}`);
+
+        return {
+            success: true,
+            message: holdExpiresAt ? API_MESSAGES.SUCCESS.VERIFICATION_SENT : API_MESSAGES.SUCCESS.GROUP_BOOKING_CREATED,
+            groupId: groupId.toString(),
+            bookingIds: bookings.map((booking) => booking._id.toString()),
+            verificationRequired: Boolean(holdExpiresAt),
+        };
+    } catch (error: any) {
+        console.error('Group booking creation failed:', error);
+        return {
+            success: false,
+            message: getBookingErrorMessage(error)
+        };
+    }
+}
+
+/**
+ * Checks a promo code from the booking form without redeeming it
+ * @param eventId - Event being booked
+ * @param code - Code as entered by the attendee
+ * @param ticketTypeId - Ticket type being booked, for events with ticket types
+ * @returns Promise<{ success: boolean; message: string; price?: number; discount?: number }>
+ */
+export async function previewPromoCode(eventId: string, code: string, ticketTypeId?: string) {
+    try {
+        await connectDB();
+
+        const event = await Event.findOne({ _id: eventId, ...activeEventFilter() });
+        if (!event) {
+            return {
+                success: false,
+                message: API_MESSAGES.ERROR.NOT_FOUND
+            };
+        }
+
+        const ticket = event.ticketTypes.find((ticketType: TicketType) => ticketType._id?.toString() === ticketTypeId);
+        const listPrice: number = ticket ? ticket.price : event.price || 0;
+
+        const check = await findApplicablePromoCode(event._id, code, ticketTypeId, listPrice);
+        if (!check.promoCode) {
+            return {
+                success: false,
+                message: check.error
+            };
+        }
+
+        const price = applyDiscount(listPrice, check.promoCode);
+
+        return {
+            success: true,
+            message: API_MESSAGES.SUCCESS.PROMO_APPLIED,
+            price,
+            discount: listPrice - price,
+        };
+    } catch (error) {
+        console.error('Error checking promo code:', error);
         return {
             success: false,
             message: API_MESSAGES.ERROR.SERVER_ERROR
@@ -93,18 +491,269 @@ export async function createBooking(bookingData: {
 }
 
 /**
- * Cancels an existing booking
- * @param bookingId - ID of the booking to cancel
+ * Fetches an event's waitlist in the order it will be promoted, for the organizer's waitlist page
+ * Only for signed-in organizers and requests carrying the admin key; others get an empty list
+ * @param eventId - Event whose waitlist to load
+ * @returns Promise<object[]> - Waitlisted bookings, first in line first
+ */
+export async function getEventWaitlist(eventId: string) {
+    try {
+        if (!hasAdminAccess(headers(), cookies())) {
+            return [];
+        }
+
+        await connectDB();
+
+        const waitlist = await getWaitlist(eventId);
+
+        return JSON.parse(JSON.stringify(waitlist.map((booking) => ({
+            _id: booking._id,
+            fullName: booking.fullName,
+            email: booking.email,
+            ticketName: booking.ticketName,
+            groupId: booking.groupId,
+            emailVerifiedAt: booking.emailVerifiedAt,
+            createdAt: booking.createdAt,
+        }))));
+    } catch (error) {
+        console.error('Error fetching event waitlist:', error);
+        return [];
+    }
+}
+
+/**
+ * Loads the booking behind a manage link, for the attendee's booking page
+ * @param token - Token from the manage link
+ * @returns Promise<object | null> - Booking with its event and, while waitlisted, its place in line; null if the link is invalid or expired
+ */
+export async function getManagedBooking(token: string) {
+    try {
+        const bookingId = verifyManageToken(token);
+        if (!bookingId) {
+            return null;
+        }
+
+        await connectDB();
+
+        const booking = await Booking.findById(bookingId)
+            .populate('eventId', 'title slug image date time endDate endTime timezone startsAt endsAt venue location mode');
+
+        if (!booking || !booking.eventId) {
+            return null;
+        }
+
+        const waitlistPosition = booking.status === 'waitlisted' ? await getWaitlistRank(booking) : undefined;
+
+        return JSON.parse(JSON.stringify({
+            id: booking._id,
+            fullName: booking.fullName,
+            email: booking.email,
+            status: booking.status,
+            ticketName: booking.ticketName,
+            price: booking.price,
+            currency: booking.currency,
+            answers: booking.answers,
+            purchaser: booking.purchaser,
+            createdAt: booking.createdAt,
+            event: booking.eventId,
+            waitlistPosition,
+        }));
+    } catch (error) {
+        console.error('Error fetching managed booking:', error);
+        return null;
+    }
+}
+
+/**
+ * Loads the booking behind an email verification link without changing it
+ * The verification page shows it with a button to confirm; mail scanners and link prefetchers that
+ * open the link therefore cannot confirm an address on the attendee's behalf
+ * @param token - Token from the verification link
+ * @returns Promise<object | null> - Booking status and event, with the manage link once verified; null if the link is invalid, expired or can no longer be confirmed
+ */
+export async function getVerificationBooking(token: string) {
+    try {
+        const bookingId = readVerificationToken(token);
+        if (!bookingId) {
+            return null;
+        }
+
+        await connectDB();
+
+        const booking = await Booking.findById(bookingId).populate('eventId', 'title slug endsAt');
+        const event = booking?.eventId as any;
+
+        if (!booking || !event) {
+            return null;
+        }
+
+        // Same states verifyBookingEmail accepts: an unexpired seat hold, an unverified waitlisted
+        // booking, or a booking that has been verified already
+        const verified = !!booking.emailVerifiedAt && ['confirmed', 'waitlisted'].includes(booking.status);
+        const awaitingVerification = !booking.emailVerifiedAt && (booking.status === 'waitlisted'
+            || (booking.status === 'pending_verification' && !!booking.verificationExpiresAt && booking.verificationExpiresAt > new Date()));
+
+        if (!verified && !awaitingVerification) {
+            return null;
+        }
+
+        return {
+            verified,
+            status: booking.status,
+            eventTitle: event.title as string,
+            eventSlug: event.slug as string,
+            manageUrl: verified ? issueManageUrl(booking._id, event.endsAt) : undefined,
+            waitlistPosition: verified && booking.status === 'waitlisted' ? await getWaitlistRank(booking) : undefined,
+        };
+    } catch (error) {
+        console.error('Error fetching booking to verify:', error);
+        return null;
+    }
+}
+
+/**
+ * Confirms the attendee's email address from the link emailed with a booking on an event requiring verification
+ * A seat hold verified before it expires becomes a confirmed booking; a waitlisted booking stays
+ * waitlisted but is confirmed straight away once a seat opens up
+ * The attendee is then emailed their manage link; confirming again only shows the booking
+ * Runs from the confirm button on the verification page, never while the page renders
+ * @param token - Token from the verification link
+ * @returns Promise<{ success: boolean; message: string; status?: string; eventTitle?: string; eventSlug?: string; manageUrl?: string | null; waitlistPosition?: number }>
+ */
+export async function verifyBookingEmail(token: string) {
+    try {
+        const bookingId = readVerificationToken(token);
+        if (!bookingId) {
+            return {
+                success: false,
+                message: API_MESSAGES.ERROR.VERIFICATION_LINK_INVALID
+            };
+        }
+
+        await connectDB();
+
+        const now = new Date();
+        const eventFields = 'title slug endsAt';
+
+        const verified = await Booking.findOneAndUpdate(
+            { _id: bookingId, status: 'pending_verification', verificationExpiresAt: { $gt: now } },
+            { $set: { status: 'confirmed', emailVerifiedAt: now }, $unset: { verificationExpiresAt: 1 } },
+            { new: true }
+        ).populate('eventId', eventFields)
+            || await Booking.findOneAndUpdate(
+                { _id: bookingId, status: 'waitlisted', emailVerifiedAt: { $exists: false } },
+                { $set: { emailVerifiedAt: now } },
+                { new: true }
+            ).populate('eventId', eventFields);
+
+        // An expired hold has been released; a cancelled booking cannot be verified
+        const booking = verified || await Booking.findOne({
+            _id: bookingId,
+            status: { $in: ['confirmed', 'waitlisted'] },
+            emailVerifiedAt: { $exists: true },
+        }).populate('eventId', eventFields);
+        const event = booking?.eventId as any;
+
+        if (!booking || !event) {
+            return {
+                success: false,
+                message: API_MESSAGES.ERROR.VERIFICATION_LINK_INVALID
+            };
+        }
+
+        const manageUrl = issueManageUrl(booking._id, event.endsAt);
+        const waitlistPosition = booking.status === 'waitlisted' ? await getWaitlistRank(booking) : undefined;
+
+        if (verified) {
+            await notifyAttendee(booking, event, manageUrl, waitlistPosition);
+        }
+
+        return {
+            success: true,
+            message: API_MESSAGES.SUCCESS.EMAIL_VERIFIED,
+            status: booking.status,
+            eventTitle: event.title as string,
+            eventSlug: event.slug as string,
+            manageUrl,
+            waitlistPosition,
+        };
+    } catch (error) {
+        console.error('Error verifying booking email:', error);
+        return {
+            success: false,
+            message: API_MESSAGES.ERROR.SERVER_ERROR
+        };
+    }
+}
+
+/**
+ * Changes the attendee name on a booking, e.g. to fix a typo or hand the ticket to a colleague
+ * @param token - Token from the manage link
+ * @param fullName - New attendee name
  * @returns Promise<{ success: boolean; message: string }>
  */
-export async function cancelBooking(bookingId: string) {
+export async function updateBookingName(token: string, fullName: string) {
     try {
+        const bookingId = verifyManageToken(token);
+        if (!bookingId) {
+            return {
+                success: false,
+                message: API_MESSAGES.ERROR.MANAGE_LINK_INVALID
+            };
+        }
+
         await connectDB();
 
+        const booking = await Booking.findOneAndUpdate(
+            { _id: bookingId, status: { $ne: 'cancelled' } },
+            { fullName },
+            { new: true, runValidators: true }
+        );
+
+        if (!booking) {
+            return {
+                success: false,
+                message: API_MESSAGES.ERROR.BOOKING_NOT_ACTIVE
+            };
+        }
+
+        return {
+            success: true,
+            message: API_MESSAGES.SUCCESS.BOOKING_UPDATED
+        };
+    } catch (error: any) {
+        console.error('Error updating booking:', error);
+        return {
+            success: false,
+            message: getBookingErrorMessage(error)
+        };
+    }
+}
+
+/**
+ * Cancels an existing booking through its manage link
+ * A promo code redeemed for the booking becomes available again
+ * A confirmed booking, or one holding its seat until verified, frees the seat for the next attendees on the waitlist
+ * @param token - Token from the manage link
+ * @returns Promise<{ success: boolean; message: string }>
+ */
+export async function cancelBooking(token: string) {
+    try {
+        const bookingId = verifyManageToken(token);
+        if (!bookingId) {
+            return {
+                success: false,
+                message: API_MESSAGES.ERROR.MANAGE_LINK_INVALID
+            };
+        }
+
+        await connectDB();
+
+        // Read the booking as it was, so a repeated cancellation does not release the code twice
         const booking = await Booking.findByIdAndUpdate(
             bookingId,
             { status: 'cancelled' },
-            { new: true }
+            { new: false }
         ).populate('eventId');
 
         if (!booking) {
@@ -114,6 +763,15 @@ export async function cancelBooking(bookingId: string) {
             };
         }
 
+        if (booking.promoCode && booking.status !== 'cancelled') {
+            await releasePromoCode((booking.eventId as any)._id, booking.promoCode);
+        }
+
+        if (booking.status === 'confirmed' || booking.status === 'pending_verification') {
+            await releaseSeats((booking.eventId as any)._id, booking.ticketTypeId);
+            await promoteFromWaitlist((booking.eventId as any)._id);
+        }
+
         // Revalidate relevant paths
         revalidatePath(`/events/${(booking.eventId as any).slug}`);
 
@@ -5,11 +5,53 @@
  */
 
 import { revalidatePath } from 'next/cache';
-import Event from '@/database/event.model';
+import { cookies, headers } from 'next/headers';
+import Event, { IEvent } from '@/database/event.model';
+import Speaker from '@/database/speaker.model';
+import EventRevision from '@/database/event-revision.model';
 import connectDB from '@/lib/mongodb';
+import {
+    activeEventFilter,
+    listedEventFilter,
+    nearbyEventFilter,
+    nearbyEventsStage,
+    overlappingEventFilter,
+    parseDateRange,
+    parseNearQuery,
+    upcomingEventFilter,
+} from '@/lib/event-filters';
+import { canAccessEvent } from '@/lib/invites';
+import { hasAdminAccess } from '@/lib/auth';
+import { escapeRegex } from '@/lib/utils';
+
+// Private events are only shown to admins and to visitors with a valid invite
+async function canViewEvent(event: Parameters<typeof canAccessEvent>[0], inviteToken?: string | null) {
+    return hasAdminAccess(headers(), cookies()) || canAccessEvent(event, inviteToken);
+}
+
+/**
+ * Builds the text search conditions for event queries
+ * Besides event fields, matches speaker profiles and speaker names in agenda sessions
+ */
+async function buildSearchConditions(search: string) {
+    const searchRegex = new RegExp(escapeRegex(search), 'i');
+    const speakerIds = await Speaker.find({ name: searchRegex }).distinct('_id');
+
+    return [
+        { title: searchRegex },
+        { descriptionText: searchRegex },
+        { tags: { $in: [searchRegex] } },
+        { organizer: searchRegex },
+        { location: searchRegex },
+        { speakers: { $in: speakerIds } },
+        { 'agenda.speakers': searchRegex },
+    ];
+}
 
 /**
  * Fetches upcoming events with pagination and filtering support
+ * from/to narrow the results to events running at some point within that range
+ * near ("lat,lng") and radius (km) narrow them to events at venues nearby, which carry a distance
  */
 export async function getUpcomingEvents(
     page: number = 1,
@@ -17,29 +59,31 @@ export async function getUpcomingEvents(
     search?: string,
     mode?: string,
     tag?: string,
-    sort?: string
+    sort?: string,
+    from?: string,
+    to?: string,
+    near?: string,
+    radius?: string
 ) {
     try {
         await connectDB();
 
         const skip = (page - 1) * limit;
-        const today = new Date().toISOString().split('T')[0];
+        const now = new Date();
+        const range = parseDateRange(from, to) || {};
+        // Online events can be joined from anywhere, so a location does not narrow them down
+        const nearQuery = mode !== 'online' ? parseNearQuery(near, radius) : null;
+        const point = nearQuery?.point;
 
-        // Build query object
+        // Build query object; events stay upcoming until they end
         const query: any = {
-            date: { $gte: today },
+            ...listedEventFilter(),
+            ...overlappingEventFilter(range.from && range.from > now ? range.from : now, range.to),
         };
 
         // Add search filter
         if (search && search.trim() !== '') {
-            const searchRegex = new RegExp(search, 'i');
-            query.$or = [
-                { title: searchRegex },
-                { description: searchRegex },
-                { tags: { $in: [searchRegex] } },
-                { organizer: searchRegex },
-                { location: searchRegex },
-            ];
+            query.$or = await buildSearchConditions(search);
         }
 
         // Add mode filter
@@ -49,29 +93,48 @@ export async function getUpcomingEvents(
 
         // Add tag filter
         if (tag && tag.trim() !== '') {
-            query.tags = { $in: [new RegExp(tag, 'i')] };
+            query.tags = { $in: [new RegExp(escapeRegex(tag), 'i')] };
         }
 
         // Build sort object
-        let sortOptions: any = { date: 1 }; // Default: soonest first
+        let sortOptions: any = { startsAt: 1 }; // Default: soonest first
 
         if (sort) {
             switch (sort) {
                 case 'date-desc':
-                    sortOptions = { date: -1 }; // Latest first
+                    sortOptions = { startsAt: -1 }; // Latest first
                     break;
                 case 'created':
                     sortOptions = { createdAt: -1 }; // Recently added
                     break;
                 case 'popular':
                     // Assuming you have a attendees field or similar for popularity
-                    sortOptions = { attendees: -1, date: 1 };
+                    sortOptions = { attendees: -1, startsAt: 1 };
                     break;
                 default:
-                    sortOptions = { date: 1 }; // Soonest first
+                    sortOptions = { startsAt: 1 }; // Soonest first
             }
         }
 
+        if (point && nearQuery) {
+            // $geoNear returns the nearest events first and adds their distance
+            const [events, total] = await Promise.all([
+                Event.aggregate([
+                    nearbyEventsStage(point, nearQuery.radiusKm, query),
+                    ...(sort === 'distance' ? [] : [{ $sort: sortOptions }]),
+                    { $skip: skip },
+                    { $limit: limit },
+                ]),
+                Event.countDocuments({ ...query, ...nearbyEventFilter(point, nearQuery.radiusKm) }),
+            ]);
+
+            return {
+                events: JSON.parse(JSON.stringify(events)),
+                totalPages: Math.ceil(total / limit),
+                currentPage: page,
+            };
+        }
+
         // Get total count for pagination
         const total = await Event.countDocuments(query);
 
@@ -93,6 +156,55 @@ export async function getUpcomingEvents(
     }
 }
 
+/**
+ * Fetches a single event by its current slug
+ * Private events need an invite token, unless the request carries the admin key
+ */
+export async function getEventBySlug(slug: string, inviteToken?: string | null) {
+    try {
+        await connectDB();
+
+        const event = await Event.findOne({
+            slug: slug.trim().toLowerCase(),
+            ...activeEventFilter(),
+        })
+            .populate('speakers', 'name slug photo affiliation')
+            .lean<IEvent>();
+
+        if (!event || !(await canViewEvent(event, inviteToken))) {
+            return null;
+        }
+
+        return JSON.parse(JSON.stringify(event));
+    } catch (error) {
+        console.error('Error fetching event by slug:', error);
+        return null;
+    }
+}
+
+/**
+ * Fetches the revision history of an event, newest first
+ * Only for signed-in organizers and requests carrying the admin key; others get an empty history
+ */
+export async function getEventRevisions(eventId: string) {
+    try {
+        if (!hasAdminAccess(headers(), cookies())) {
+            return [];
+        }
+
+        await connectDB();
+
+        const revisions = await EventRevision.find({ eventId })
+            .sort({ revision: -1 })
+            .lean();
+
+        return JSON.parse(JSON.stringify(revisions));
+    } catch (error) {
+        console.error('Error fetching event revisions:', error);
+        return [];
+    }
+}
+
 /**
  * Fetches events similar to the specified event based on shared tags
  */
@@ -100,7 +212,7 @@ export async function getSimilarEventsBySlug(slug: string, limit: number = 3) {
     try {
         await connectDB();
 
-        const referenceEvent = await Event.findOne({ slug }).select('tags');
+        const referenceEvent = await Event.findOne({ slug, ...activeEventFilter() }).select('tags');
 
         if (!referenceEvent) {
             console.warn(`Reference event not found for slug: ${slug}`);
@@ -108,11 +220,12 @@ export async function getSimilarEventsBySlug(slug: string, limit: number = 3) {
         }
 
         const similarEvents = await Event.find({
+            ...listedEventFilter(),
             _id: { $ne: referenceEvent._id },
             tags: { $in: referenceEvent.tags },
-            date: { $gte: new Date().toISOString().split('T')[0] },
+            ...upcomingEventFilter(),
         })
-            .sort({ date: 1, createdAt: -1 })
+            .sort({ startsAt: 1, createdAt: -1 })
             .limit(limit)
             .lean();
 
@@ -131,21 +244,15 @@ export async function searchEvents(query: string, page: number = 1, limit: numbe
         await connectDB();
 
         const skip = (page - 1) * limit;
-        const searchRegex = new RegExp(query, 'i');
 
         const searchQuery = {
-            $or: [
-                { title: searchRegex },
-                { description: searchRegex },
-                { tags: { $in: [searchRegex] } },
-                { organizer: searchRegex },
-                { location: searchRegex },
-            ],
+            ...listedEventFilter(),
+            $or: await buildSearchConditions(query),
         };
 
         const total = await Event.countDocuments(searchQuery);
         const events = await Event.find(searchQuery)
-            .sort({ date: 1, createdAt: -1 })
+            .sort({ startsAt: 1, createdAt: -1 })
             .skip(skip)
             .limit(limit)
             .lean();
@@ -168,7 +275,7 @@ export async function getAllEventTags() {
     try {
         await connectDB();
 
-        const tags = await Event.distinct('tags');
+        const tags = await Event.distinct('tags', listedEventFilter());
         return JSON.parse(JSON.stringify(tags.filter(tag => tag && tag.trim() !== '')));
     } catch (error) {
         console.error('Error fetching event tags:', error);
@@ -183,13 +290,13 @@ export async function getEventStats() {
     try {
         await connectDB();
 
-        const today = new Date().toISOString().split('T')[0];
+        const upcoming = { ...listedEventFilter(), ...upcomingEventFilter() };
 
         const [totalEvents, onlineEvents, offlineEvents, hybridEvents] = await Promise.all([
-            Event.countDocuments({ date: { $gte: today } }),
-            Event.countDocuments({ date: { $gte: today }, mode: 'online' }),
-            Event.countDocuments({ date: { $gte: today }, mode: 'offline' }),
-            Event.countDocuments({ date: { $gte: today }, mode: 'hybrid' }),
+            Event.countDocuments(upcoming),
+            Event.countDocuments({ ...upcoming, mode: 'online' }),
+            Event.countDocuments({ ...upcoming, mode: 'offline' }),
+            Event.countDocuments({ ...upcoming, mode: 'hybrid' }),
         ]);
 
         return {
@@ -0,0 +1,56 @@
+'use server';
+
+/**
+ * Server actions for organizer organizations
+ */
+
+import Event from '@/database/event.model';
+import Organization from '@/database/organization.model';
+import connectDB from '@/lib/mongodb';
+import { activeEventFilter, publicEventFilter, releasedEventFilter } from '@/lib/event-filters';
+
+/**
+ * Fetches an organization by slug together with its upcoming and past events
+ * Drafts are left out; cancelled and postponed events stay visible
+ */
+export async function getOrganizationBySlug(slug: string) {
+    try {
+        await connectDB();
+
+        const organization = await Organization.findOne({ slug: slug.trim().toLowerCase() })
+            .select('-members.email')
+            .lean();
+
+        if (!organization) {
+            return null;
+        }
+
+        const now = new Date();
+        const organizationEvents = {
+            ...activeEventFilter(),
+            ...publicEventFilter(),
+            ...releasedEventFilter(),
+            organization: (organization as any)._id,
+            status: { $ne: 'draft' },
+        };
+
+        const [upcoming, past] = await Promise.all([
+            Event.find({ ...organizationEvents, endsAt: { $gte: now } })
+                .sort({ startsAt: 1 })
+                .lean(),
+            Event.find({ ...organizationEvents, endsAt: { $lt: now } })
+                .sort({ startsAt: -1 })
+                .limit(20)
+                .lean(),
+        ]);
+
+        return {
+            organization: JSON.parse(JSON.stringify(organization)),
+            upcoming: JSON.parse(JSON.stringify(upcoming)),
+            past: JSON.parse(JSON.stringify(past)),
+        };
+    } catch (error) {
+        console.error('Error fetching organization:', error);
+        return null;
+    }
+}
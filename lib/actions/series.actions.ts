@@ -0,0 +1,45 @@
+'use server';
+
+/**
+ * Server actions for recurring event series
+ */
+
+import Event from '@/database/event.model';
+import EventSeries from '@/database/series.model';
+import connectDB from '@/lib/mongodb';
+import { activeEventFilter, publicEventFilter, releasedEventFilter, upcomingEventFilter } from '@/lib/event-filters';
+
+/**
+ * Fetches a series by slug together with its upcoming occurrences
+ */
+export async function getSeriesBySlug(slug: string) {
+    try {
+        await connectDB();
+
+        const series = await EventSeries.findOne({ slug: slug.trim().toLowerCase() }).lean();
+
+        if (!series) {
+            return null;
+        }
+
+        // Cancelled and postponed occurrences stay visible so attendees can see the change
+        const occurrences = await Event.find({
+            ...activeEventFilter(),
+            ...publicEventFilter(),
+            ...releasedEventFilter(),
+            series: (series as any)._id,
+            status: { $ne: 'draft' },
+            ...upcomingEventFilter(),
+        })
+            .sort({ startsAt: 1 })
+            .lean();
+
+        return {
+            series: JSON.parse(JSON.stringify(series)),
+            occurrences: JSON.parse(JSON.stringify(occurrences)),
+        };
+    } catch (error) {
+        console.error('Error fetching event series:', error);
+        return null;
+    }
+}
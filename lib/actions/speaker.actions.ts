@@ -0,0 +1,55 @@
+'use server';
+
+/**
+ * Server actions for speaker profiles
+ */
+
+import Event from '@/database/event.model';
+import Speaker from '@/database/speaker.model';
+import connectDB from '@/lib/mongodb';
+import { activeEventFilter, publicEventFilter, releasedEventFilter } from '@/lib/event-filters';
+
+/**
+ * Fetches a speaker by slug together with their upcoming and past events
+ * Drafts are left out; cancelled and postponed events stay visible
+ */
+export async function getSpeakerBySlug(slug: string) {
+    try {
+        await connectDB();
+
+        const speaker = await Speaker.findOne({ slug: slug.trim().toLowerCase() }).lean();
+
+        if (!speaker) {
+            return null;
+        }
+
+        const speakerId = (speaker as any)._id;
+        const now = new Date();
+        const speakerEvents = {
+            ...activeEventFilter(),
+            ...publicEventFilter(),
+            ...releasedEventFilter(),
+            status: { $ne: 'draft' },
+            $or: [{ speakers: speakerId }, { 'agenda.speakerIds': speakerId }],
+        };
+
+        const [upcoming, past] = await Promise.all([
+            Event.find({ ...speakerEvents, endsAt: { $gte: now } })
+                .sort({ startsAt: 1 })
+                .lean(),
+            Event.find({ ...speakerEvents, endsAt: { $lt: now } })
+                .sort({ startsAt: -1 })
+                .limit(20)
+                .lean(),
+        ]);
+
+        return {
+            speaker: JSON.parse(JSON.stringify(speaker)),
+            upcoming: JSON.parse(JSON.stringify(upcoming)),
+            past: JSON.parse(JSON.stringify(past)),
+        };
+    } catch (error) {
+        console.error('Error fetching speaker:', error);
+        return null;
+    }
+}
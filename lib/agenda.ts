@@ -0,0 +1,60 @@
+/**
+ * Structured agenda sessions
+ * Shared by the event model, the agenda editor and the event details timeline
+ */
+
+import { SessionType } from '@/lib/constants';
+
+export interface AgendaSession {
+    title: string;
+    abstract?: string;
+    type: SessionType;
+    day?: string; // YYYY-MM-DD, for multi-day events
+    startTime?: string; // HH:MM in the event's timezone
+    endTime?: string;
+    speakers: string[]; // Names of speakers without a profile
+    speakerIds?: string[]; // Speaker profiles from the event lineup
+    room?: string;
+    track?: string;
+}
+
+/**
+ * Converts agenda items into sessions
+ * Plain strings from agendas created before sessions existed become untimed talks
+ * @param agenda - Stored agenda items
+ * @returns AgendaSession[] - Sessions in their original order
+ */
+export function normalizeAgenda(agenda: unknown[] | null | undefined): AgendaSession[] {
+    if (!Array.isArray(agenda)) return [];
+
+    return agenda
+        .filter((item) => item !== null && item !== undefined && item !== '')
+        .map((item) => typeof item === 'string'
+            ? { title: item, type: 'talk', speakers: [] }
+            : { speakers: [], type: 'talk', ...(item as Partial<AgendaSession>) } as AgendaSession);
+}
+
+/**
+ * Sorts sessions by day and start time
+ * Untimed sessions keep their relative order and follow the timed ones
+ */
+export function sortSessions(sessions: AgendaSession[]): AgendaSession[] {
+    const key = (session: AgendaSession) => `${session.day || '9999-99-99'} ${session.startTime?.padStart(5, '0') || '99:99'}`;
+    return [...sessions].sort((a, b) => key(a).localeCompare(key(b)));
+}
+
+/**
+ * Groups sessions by track, keeping tracks in order of first appearance
+ * Sessions without a track, such as shared breaks, are grouped under an empty name
+ * @returns Array<{ track: string; sessions: AgendaSession[] }> - Sorted sessions per track
+ */
+export function groupSessionsByTrack(sessions: AgendaSession[]) {
+    const groups = new Map<string, AgendaSession[]>();
+
+    for (const session of sortSessions(sessions)) {
+        const track = session.track?.trim() || '';
+        groups.set(track, [...(groups.get(track) || []), session]);
+    }
+
+    return Array.from(groups, ([track, trackSessions]) => ({ track, sessions: trackSessions }));
+}
@@ -0,0 +1,86 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+
+/**
+ * Minimal admin authorization for privileged operations
+ * API clients send the ADMIN_API_KEY environment value in the x-admin-key header
+ * Organizers using the site sign in with the same key once and get a signed session cookie,
+ * which their browser sends with page loads, server actions and the forms' API requests
+ */
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+
+const SESSION_MS = 12 * 60 * 60 * 1000;
+
+// Cookies of the current request: cookies() in pages and server actions, req.cookies in API routes
+type RequestCookies = { get(name: string): { value: string } | undefined };
+
+// Signature of a session's expiry, keyed by the admin key so changing the key ends every session
+function signSession(adminKey: string, expires: string): string {
+    return createHmac('sha256', adminKey).update(`admin-session:${expires}`).digest('base64url');
+}
+
+// Compares two secrets without leaking how much of them matched
+function safeEqual(a: string, b: string): boolean {
+    const expected = Buffer.from(a);
+    const actual = Buffer.from(b);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function hasValidSession(adminKey: string, session: string): boolean {
+    const [expires, signature, ...rest] = session.split('.');
+    if (!expires || !signature || rest.length > 0 || !safeEqual(signSession(adminKey, expires), signature)) {
+        return false;
+    }
+
+    return parseInt(expires, 36) * 1000 > Date.now();
+}
+
+/**
+ * Starts an organizer session if the given key matches ADMIN_API_KEY
+ * @param key - Admin key entered on the sign-in page
+ * @returns The cookie value and its expiry, or null when the key is wrong or ADMIN_API_KEY is not set
+ */
+export function createAdminSession(key: string): { value: string; expiresAt: Date } | null {
+    const adminKey = process.env.ADMIN_API_KEY;
+    if (!adminKey || !safeEqual(adminKey, key)) {
+        return null;
+    }
+
+    const expiresAt = new Date(Date.now() + SESSION_MS);
+    const expires = Math.floor(expiresAt.getTime() / 1000).toString(36);
+
+    return { value: `${expires}.${signSession(adminKey, expires)}`, expiresAt };
+}
+
+/**
+ * Checks whether a request carries the admin key or a signed-in organizer session
+ * Always false when ADMIN_API_KEY is not set, so admin routes stay closed by default
+ * Pages and server actions pass the headers() and cookies() of the current request
+ * @param headers - Headers of the incoming request
+ * @param cookies - Cookies of the incoming request
+ * @returns boolean - True if the request is authorized as admin
+ */
+export function hasAdminAccess(headers: Pick<Headers, 'get'>, cookies: RequestCookies): boolean {
+    const adminKey = process.env.ADMIN_API_KEY;
+    if (!adminKey) {
+        return false;
+    }
+
+    const headerKey = headers.get('x-admin-key');
+    if (headerKey) {
+        return safeEqual(adminKey, headerKey);
+    }
+
+    const session = cookies.get(ADMIN_SESSION_COOKIE)?.value;
+    return !!session && hasValidSession(adminKey, session);
+}
+
+/**
+ * Checks whether an API request carries the admin key or an organizer session
+ * @param req - Incoming API request
+ * @returns boolean - True if the request is authorized as admin
+ */
+export function isAdminRequest(req: NextRequest): boolean {
+    return hasAdminAccess(req.headers, req.cookies);
+}
@@ -0,0 +1,128 @@
+/**
+ * Magic links for attendees to manage their booking and to verify their email address
+ * A token names the booking and its expiry time and carries an HMAC signature of both,
+ * so it cannot be forged, moved to another booking or extended
+ * Tokens are signed with the BOOKING_TOKEN_SECRET environment value
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Types } from 'mongoose';
+import { EVENT_CONSTANTS } from '@/lib/constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Manage links, and email verification links for events that require them
+type BookingTokenPurpose = 'manage' | 'verify';
+
+// Signature of a booking and expiry, base64url encoded
+// Verification tokens sign a "verify:" prefix, so neither kind of token works as the other
+function signBooking(secret: string, purpose: BookingTokenPurpose, bookingId: string, expires: string): string {
+    const payload = purpose === 'manage' ? `${bookingId}:${expires}` : `${purpose}:${bookingId}:${expires}`;
+    return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+function createBookingToken(purpose: BookingTokenPurpose, bookingId: string | Types.ObjectId, expiresAt: Date): string {
+    const secret = process.env.BOOKING_TOKEN_SECRET;
+    if (!secret) {
+        throw new Error('Please define the BOOKING_TOKEN_SECRET environment variable inside .env.local');
+    }
+
+    const expires = Math.floor(expiresAt.getTime() / 1000).toString(36);
+    return `${bookingId}.${expires}.${signBooking(secret, purpose, bookingId.toString(), expires)}`;
+}
+
+function readBookingToken(purpose: BookingTokenPurpose, token: string): string | null {
+    const secret = process.env.BOOKING_TOKEN_SECRET;
+    const [bookingId, expires, signature, ...rest] = token.split('.');
+
+    if (!secret || !expires || !signature || rest.length > 0 || !Types.ObjectId.isValid(bookingId)) {
+        return null;
+    }
+
+    const expected = Buffer.from(signBooking(secret, purpose, bookingId, expires));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    return parseInt(expires, 36) * 1000 > Date.now() ? bookingId : null;
+}
+
+/**
+ * Works out when a booking's manage link stops working
+ * Links stay valid for a while after the event ends, so attendees can still download their ticket
+ * @param eventEndsAt - End of the booked event, if known
+ * @returns Date - Expiry of the link
+ */
+export function getManageTokenExpiry(eventEndsAt?: Date | string | null): Date {
+    const graceMs = EVENT_CONSTANTS.MANAGE_LINK_GRACE_DAYS * DAY_MS;
+    const endsAt = eventEndsAt ? new Date(eventEndsAt).getTime() : NaN;
+
+    return new Date(Math.max(isNaN(endsAt) ? 0 : endsAt, Date.now()) + graceMs);
+}
+
+/**
+ * Creates the token for a booking's manage link
+ * @param bookingId - Booking the link manages
+ * @param expiresAt - When the link stops working, from getManageTokenExpiry
+ * @returns string - Token for the /bookings/[token] page
+ */
+export function createManageToken(bookingId: string | Types.ObjectId, expiresAt: Date): string {
+    return createBookingToken('manage', bookingId, expiresAt);
+}
+
+/**
+ * Reads the booking ID from a manage token if its signature matches and it has not expired
+ * Always null when BOOKING_TOKEN_SECRET is not set
+ * @param token - Token from the manage link
+ * @returns string | null - Booking ID, or null when the token is malformed, forged or expired
+ */
+export function verifyManageToken(token: string): string | null {
+    return readBookingToken('manage', token);
+}
+
+/**
+ * Builds the link that confirms an attendee's email address
+ * @param bookingId - Booking waiting for its email to be verified
+ * @param expiresAt - When the link stops working, e.g. the end of the booking's seat hold
+ * @returns string - URL of the verification page
+ * @throws Error if BOOKING_TOKEN_SECRET is not set
+ */
+export function getVerificationUrl(bookingId: string | Types.ObjectId, expiresAt: Date): string {
+    const token = createBookingToken('verify', bookingId, expiresAt);
+    return `${process.env.NEXT_PUBLIC_BASE_URL || ''}/bookings/verify/${encodeURIComponent(token)}`;
+}
+
+/**
+ * Reads the booking ID from an email verification token
+ * @param token - Token from the verification link
+ * @returns string | null - Booking ID, or null when the token is malformed, forged or expired
+ */
+export function readVerificationToken(token: string): string | null {
+    return readBookingToken('verify', token);
+}
+
+/**
+ * Builds the link attendees use to manage their booking
+ * @param token - Token from createManageToken
+ * @returns string - URL of the booking's manage page
+ */
+export function getManageUrl(token: string): string {
+    return `${process.env.NEXT_PUBLIC_BASE_URL || ''}/bookings/${encodeURIComponent(token)}`;
+}
+
+/**
+ * Issues a manage link for a new or promoted booking
+ * Returns null instead of throwing when BOOKING_TOKEN_SECRET is not set, so bookings still go through
+ * @param bookingId - Booking the link manages
+ * @param eventEndsAt - End of the booked event, for the link's expiry
+ * @returns string | null - URL of the booking's manage page
+ */
+export function issueManageUrl(bookingId: string | Types.ObjectId, eventEndsAt?: Date | string | null): string | null {
+    if (!process.env.BOOKING_TOKEN_SECRET) {
+        console.warn('⚠️ BOOKING_TOKEN_SECRET is not set; no manage link issued for booking', bookingId.toString());
+        return null;
+    }
+
+    return getManageUrl(createManageToken(bookingId, getManageTokenExpiry(eventEndsAt)));
+}
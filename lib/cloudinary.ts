@@ -0,0 +1,122 @@
+import { v2 as cloudinary, UploadApiOptions, UploadApiResponse } from 'cloudinary';
+
+/**
+ * Cloudinary client shared by the event and upload API routes
+ * Configures credentials once and wraps the stream upload in a promise
+ */
+
+// Configure Cloudinary using the URL format
+if (process.env.CLOUDINARY_URL) {
+    cloudinary.config({
+        cloud_name: process.env.CLOUDINARY_URL.match(/cloudinary:\/\/(?:.*)@(.*)/)?.[1],
+        api_key: process.env.CLOUDINARY_URL.match(/cloudinary:\/\/(.*):/)?.[1],
+        api_secret: process.env.CLOUDINARY_URL.match(/cloudinary:\/\/.*:(.*)@/)?.[1],
+    });
+} else {
+    // Fallback to individual environment variables
+    cloudinary.config({
+        cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+        api_key: process.env.CLOUDINARY_API_KEY,
+        api_secret: process.env.CLOUDINARY_API_SECRET,
+    });
+}
+
+/**
+ * Checks that all Cloudinary credentials are present
+ * @returns boolean - True if uploads can be attempted
+ */
+export function validateCloudinaryConfig(): boolean {
+    const config = cloudinary.config();
+    if (!config.cloud_name || !config.api_key || !config.api_secret) {
+        console.error('Cloudinary configuration is incomplete:', {
+            cloud_name: config.cloud_name ? 'set' : 'missing',
+            api_key: config.api_key ? 'set' : 'missing',
+            api_secret: config.api_secret ? 'set' : 'missing'
+        });
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Uploads an image file to the eventhub folder on Cloudinary
+ * @param file - Image file received from a multipart request
+ * @param options - Extra upload options such as transformations
+ * @returns Promise<UploadApiResponse> - Cloudinary upload result
+ */
+export async function uploadImage(file: File, options: UploadApiOptions = {}): Promise<UploadApiResponse> {
+    // Convert file to buffer for Cloudinary upload
+    const arrayBuffer = await file.arrayBuffer();
+    const buffer = Buffer.from(arrayBuffer);
+
+    console.log('Uploading image to Cloudinary...', {
+        size: file.size,
+        type: file.type,
+        cloud_name: cloudinary.config().cloud_name
+    });
+
+    return new Promise<UploadApiResponse>((resolve, reject) => {
+        cloudinary.uploader.upload_stream(
+            {
+                resource_type: 'image',
+                folder: 'eventhub',
+                ...options,
+            },
+            (error, result) => {
+                if (error) {
+                    console.error('Cloudinary upload error:', error);
+                    reject(error);
+                } else {
+                    if (!result) {
+                        console.error('Cloudinary upload failed: result is undefined');
+                        reject(new Error('Cloudinary upload failed'));
+                        return;
+                    }
+
+                    console.log('Cloudinary upload successful:', {
+                        url: result.secure_url,
+                        public_id: result.public_id
+                    });
+                    resolve(result);
+                }
+            }
+        ).end(buffer);
+    });
+}
+
+/**
+ * Extracts the Cloudinary public ID from a delivery URL
+ * e.g. https://res.cloudinary.com/demo/image/upload/v123/eventhub/abc.jpg -> eventhub/abc
+ * @param url - Secure URL returned by an upload
+ * @returns string | null - Public ID, or null for non-Cloudinary URLs
+ */
+export function getPublicIdFromUrl(url: string): string | null {
+    if (!url.includes('res.cloudinary.com')) {
+        return null;
+    }
+
+    // Prefer the path after the version segment, which skips any transformations
+    const match = url.match(/\/upload\/(?:.+\/)?v\d+\/(.+)\.[a-z0-9]+$/i)
+        || url.match(/\/upload\/(.+)\.[a-z0-9]+$/i);
+    return match ? match[1] : null;
+}
+
+/**
+ * Removes an uploaded image from Cloudinary
+ * URLs that were not uploaded through Cloudinary are ignored
+ * @param url - Secure URL of the image to delete
+ * @returns Promise<boolean> - True if Cloudinary reported the image as deleted
+ */
+export async function deleteImage(url: string): Promise<boolean> {
+    const publicId = getPublicIdFromUrl(url);
+    if (!publicId) {
+        return false;
+    }
+
+    const result = await cloudinary.uploader.destroy(publicId, { resource_type: 'image' });
+    console.log('Cloudinary delete result:', { public_id: publicId, result: result.result });
+
+    return result.result === 'ok';
+}
+
+export default cloudinary;
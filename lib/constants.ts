@@ -8,11 +8,24 @@
  */
 export const EVENT_CONSTANTS = {
     MAX_TITLE_LENGTH: 120,
-    MAX_DESCRIPTION_LENGTH: 2000,
+    MAX_DESCRIPTION_LENGTH: 5000, // Markdown source, including link URLs
     MAX_OVERVIEW_LENGTH: 500,
     MAX_AGENDA_ITEMS: 20,
     MAX_TAGS: 10,
+    MAX_SERIES_OCCURRENCES: 52, // Materialized events per recurring series
     DEFAULT_PAGE_SIZE: 12,
+    DEFAULT_SEARCH_RADIUS_KM: 25, // Radius of "near" searches when none is given
+    MAX_SEARCH_RADIUS_KM: 500,
+    MAX_TICKET_TYPES: 10,
+    DEFAULT_CURRENCY: 'USD',
+    MAX_GENERATED_PROMO_CODES: 100,
+    MAX_REGISTRATION_QUESTIONS: 20,
+    MAX_ANSWER_LENGTH: 500,
+    MAX_GROUP_SIZE: 10, // Attendees per group booking
+    MANAGE_LINK_GRACE_DAYS: 30, // Booking manage links keep working this long after the event ends
+    VERIFICATION_HOLD_MINUTES: 30, // Seat hold of unverified bookings, unless BOOKING_VERIFICATION_HOLD_MINUTES is set
+    MAX_GALLERY_IMAGES: 60,
+    MAX_UPLOAD_FILES: 20, // Files per /api/upload request
     MAX_FILE_SIZE: 5 * 1024 * 1024, // 5MB
     ALLOWED_IMAGE_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
 } as const;
@@ -26,6 +39,99 @@ export const EVENT_MODES = {
     hybrid: { label: 'Hybrid', icon: '🔀' },
 } as const;
 
+/**
+ * Agenda session types with display labels
+ */
+export const SESSION_TYPES = {
+    talk: { label: 'Talk', icon: '🎤' },
+    workshop: { label: 'Workshop', icon: '🛠' },
+    break: { label: 'Break', icon: '☕' },
+} as const;
+
+export type SessionType = keyof typeof SESSION_TYPES;
+
+/**
+ * Ticket type visibilities
+ * Hidden tickets (e.g. sponsor passes) are only offered through a direct link
+ */
+export const TICKET_VISIBILITIES = {
+    public: { label: 'Public' },
+    hidden: { label: 'Hidden (link only)' },
+} as const;
+
+export type TicketVisibility = keyof typeof TICKET_VISIBILITIES;
+
+/**
+ * Kinds of registration questions organizers can ask attendees
+ */
+export const REGISTRATION_QUESTION_TYPES = {
+    text: { label: 'Short answer' },
+    select: { label: 'Single choice' },
+    multiselect: { label: 'Multiple choice' },
+    checkbox: { label: 'Checkbox' },
+} as const;
+
+export type RegistrationQuestionType = keyof typeof REGISTRATION_QUESTION_TYPES;
+
+/**
+ * Promo code discount types
+ */
+export const PROMO_DISCOUNT_TYPES = {
+    percentage: { label: 'Percentage' },
+    fixed: { label: 'Fixed amount' },
+} as const;
+
+export type PromoDiscountType = keyof typeof PROMO_DISCOUNT_TYPES;
+
+/**
+ * Kinds of event revisions with display labels
+ */
+export const EVENT_REVISION_ACTIONS = {
+    create: { label: 'Created' },
+    update: { label: 'Edited' },
+    revert: { label: 'Reverted' },
+} as const;
+
+export type EventRevisionAction = keyof typeof EVENT_REVISION_ACTIONS;
+
+/**
+ * Who can find and open an event
+ * Unlisted events are left out of listings but open to anyone with the URL;
+ * private events also require an invite link
+ */
+export const EVENT_VISIBILITIES = {
+    public: { label: 'Public', description: 'Listed and open to everyone' },
+    unlisted: { label: 'Unlisted', description: 'Not listed; anyone with the link can view and book' },
+    private: { label: 'Private', description: 'Only people with an invite link can view and book' },
+} as const;
+
+export type EventVisibility = keyof typeof EVENT_VISIBILITIES;
+
+/**
+ * Event lifecycle statuses with display labels
+ * Only published events are listed and accept bookings
+ */
+export const EVENT_STATUSES = {
+    draft: { label: 'Draft' },
+    published: { label: 'Published' },
+    postponed: { label: 'Postponed' },
+    cancelled: { label: 'Cancelled' },
+    completed: { label: 'Completed' },
+} as const;
+
+export type EventStatus = keyof typeof EVENT_STATUSES;
+
+/**
+ * Allowed status changes; cancelled and completed events are final
+ */
+export const EVENT_STATUS_TRANSITIONS: Record<EventStatus, readonly EventStatus[]> = {
+    draft: ['published'],
+    published: ['postponed', 'cancelled', 'completed'],
+    postponed: ['published', 'cancelled'],
+    cancelled: [],
+    completed: [],
+};
+
 /**
  * Common events tags for categorization
  */
@@ -69,16 +175,53 @@ export const API_MESSAGES = {
         EVENT_CREATED: 'Event created successfully',
         EVENT_UPDATED: 'Event updated successfully',
         EVENT_DELETED: 'Event deleted successfully',
+        EVENT_RESTORED: 'Event restored successfully',
+        EVENT_REVERTED: 'Event reverted successfully',
+        EVENT_CLONED: 'Event copied successfully',
+        INVITE_CREATED: 'Invite link created successfully',
+        INVITE_REVOKED: 'Invite link revoked successfully',
+        SPEAKER_CREATED: 'Speaker created successfully',
+        PROMO_CODES_CREATED: 'Promo codes created successfully',
+        PROMO_APPLIED: 'Promo code applied',
+        VENUE_CREATED: 'Venue created successfully',
         BOOKING_CREATED: 'Booking confirmed successfully',
         BOOKING_CANCELLED: 'Booking cancelled successfully',
+        GROUP_BOOKING_CREATED: 'Group booking confirmed successfully',
+        BOOKING_UPDATED: 'Booking updated successfully',
+        WAITLIST_JOINED: 'The event is full, so you have been added to the waitlist',
+        VERIFICATION_SENT: 'Check your email to confirm your booking',
+        EMAIL_VERIFIED: 'Your email address is confirmed',
+        WAITLIST_REORDERED: 'Waitlist reordered successfully',
+        SIGNED_IN: 'Signed in as organizer',
+        SIGNED_OUT: 'Signed out',
     },
     ERROR: {
         NOT_FOUND: 'Resource not found',
         UNAUTHORIZED: 'Unauthorized access',
+        SIGN_IN_REQUIRED: 'Please sign in as an organizer to do this',
+        SIGN_IN_FAILED: 'That admin key is not valid',
+        DRAFT_ONLY: 'Only organizers can publish, schedule or restrict an event; please sign in, or submit it as a public draft',
         VALIDATION_ERROR: 'Validation failed',
         SERVER_ERROR: 'Internal server error',
+        SLUG_CONFLICT: 'Another event claimed this address at the same moment, please try again',
         DUPLICATE_BOOKING: 'Already registered for this events',
+        MANAGE_LINK_INVALID: 'This booking link is invalid or has expired',
+        VERIFICATION_LINK_INVALID: 'This confirmation link is invalid or has expired; please book again',
+        BOOKING_NOT_ACTIVE: 'This booking has been cancelled',
         EVENT_FULL: 'Event is at full capacity',
+        GROUP_SEATS_UNAVAILABLE: 'Not enough seats are left for the whole group',
+        GROUP_ATTENDEE_INVALID: 'Every attendee needs a name and a valid email address',
+        GROUP_DUPLICATE_EMAIL: 'Each attendee needs their own email address',
+        WAITLIST_MISMATCH: 'The new order must list every waitlisted booking exactly once',
+        EVENT_NOT_OPEN: 'This event is not open for registration',
+        INVITE_REQUIRED: 'This event is private; please use a valid invite link',
+        TICKET_UNAVAILABLE: 'Please choose an available ticket type',
+        TICKET_NOT_ON_SALE: 'This ticket type is not on sale right now',
+        TICKET_SOLD_OUT: 'This ticket type is sold out',
+        PROMO_INVALID: 'This promo code is not valid',
+        PROMO_EXPIRED: 'This promo code has expired',
+        PROMO_USED_UP: 'This promo code has already been used',
+        PROMO_NOT_APPLICABLE: 'This promo code does not apply to this ticket',
     },
 } as const;
 
@@ -87,6 +230,7 @@ export const API_MESSAGES = {
  */
 export const DEFAULT_EVENT_VALUES = {
     mode: 'offline' as const,
+    status: 'published' as const,
     price: 0,
     capacity: 100,
     tags: ['Networking'],
@@ -95,6 +239,14 @@ export const DEFAULT_EVENT_VALUES = {
 export default {
     EVENT_CONSTANTS,
     EVENT_MODES,
+    SESSION_TYPES,
+    TICKET_VISIBILITIES,
+    PROMO_DISCOUNT_TYPES,
+    REGISTRATION_QUESTION_TYPES,
+    EVENT_REVISION_ACTIONS,
+    EVENT_VISIBILITIES,
+    EVENT_STATUSES,
+    EVENT_STATUS_TRANSITIONS,
     EVENT_TAGS,
     DATE_FORMATS,
     API_MESSAGES,
@@ -0,0 +1,45 @@
+/**
+ * Email verification (double opt-in) for events that require it
+ * A booking holds its seat as pending_verification until the attendee opens the link emailed to
+ * them; holds that are not verified in time expire and give their seat back
+ */
+
+import { Types } from 'mongoose';
+import type { IEvent } from '@/database/event.model';
+import { EVENT_CONSTANTS } from '@/lib/constants';
+import { getVerificationUrl } from '@/lib/booking-tokens';
+import { sendNotification } from '@/lib/notifications';
+
+/**
+ * Works out when a new seat hold expires
+ * The hold time comes from BOOKING_VERIFICATION_HOLD_MINUTES, or VERIFICATION_HOLD_MINUTES by default
+ * @returns Date - End of the hold
+ */
+export function getSeatHoldExpiry(): Date {
+    const minutes = Number(process.env.BOOKING_VERIFICATION_HOLD_MINUTES) || EVENT_CONSTANTS.VERIFICATION_HOLD_MINUTES;
+    return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+/**
+ * Emails an attendee the link that confirms their email address
+ * @param booking - Booking waiting for verification
+ * @param event - Booked event
+ * @param expiresAt - When the link stops working: the end of the seat hold, or of the manage link while waitlisted
+ * @throws Error if BOOKING_TOKEN_SECRET is not set
+ */
+export async function requestEmailVerification(
+    booking: { _id: string | Types.ObjectId; email: string; fullName: string; status: string },
+    event: Pick<IEvent, 'title'>,
+    expiresAt: Date
+): Promise<void> {
+    const verificationUrl = getVerificationUrl(booking._id, expiresAt);
+    const action = booking.status === 'waitlisted'
+        ? `confirm your email address to keep your place on the waitlist for ${event.title}`
+        : `confirm your email address to complete your booking for ${event.title}. Your seat is held until ${expiresAt.toUTCString()}`;
+
+    await sendNotification({
+        to: booking.email,
+        subject: `Confirm your email: ${event.title}`,
+        text: `Hi ${booking.fullName}, please ${action}: ${verificationUrl}`,
+    });
+}
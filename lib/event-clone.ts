@@ -0,0 +1,80 @@
+/**
+ * Copies of existing events, used by the Duplicate action and POST /api/events/[slug]/clone
+ * A copy keeps the content, venue and pricing of its source but none of its dates, slug,
+ * status, series or bookings
+ */
+
+import type { AgendaSession } from '@/lib/agenda';
+import type { TicketType } from '@/lib/tickets';
+import { addCalendarDays, calendarDaysBetween } from '@/lib/timezone';
+
+// Fields copied as they are from the source event
+const COPIED_FIELDS = [
+    'title',
+    'description',
+    'overview',
+    'image',
+    'venue',
+    'location',
+    'venueId',
+    'geo',
+    'time',
+    'endTime',
+    'timezone',
+    'mode',
+    'audience',
+    'organizer',
+    'organization',
+    'tags',
+    'speakers',
+    'registrationQuestions',
+    'price',
+    'capacity',
+    'registrationUrl',
+    'requireEmailVerification',
+    'visibility',
+] as const;
+
+/**
+ * Builds the fields of a new event from an existing one
+ * With a new date, session days, the end date and ticket sale windows move along by the same
+ * number of days; without one they are left out, as they would point at the source's dates
+ * @param source - Plain source event, e.g. from getEventBySlug
+ * @param date - Date of the copy in YYYY-MM-DD format
+ * @returns Record<string, any> - Event fields for the copy
+ */
+export function buildEventCopy(source: Record<string, any>, date?: string): Record<string, any> {
+    const copy: Record<string, any> = {};
+    for (const field of COPIED_FIELDS) {
+        if (source[field] !== undefined && source[field] !== null) {
+            copy[field] = source[field];
+        }
+    }
+
+    const offsetDays = date ? calendarDaysBetween(source.date, date) : null;
+    const shiftInstant = (instant?: string | Date) =>
+        instant && offsetDays !== null ? new Date(new Date(instant).getTime() + offsetDays * 86400000) : undefined;
+
+    copy.agenda = (source.agenda || []).map((session: AgendaSession) => ({
+        ...session,
+        day: session.day && offsetDays !== null ? addCalendarDays(session.day, offsetDays) : undefined,
+    }));
+
+    // Ticket types get new IDs, so links to hidden tickets of the source do not unlock the copy
+    copy.ticketTypes = (source.ticketTypes || []).map((ticket: TicketType) => ({
+        name: ticket.name,
+        price: ticket.price,
+        currency: ticket.currency,
+        quantity: ticket.quantity,
+        visibility: ticket.visibility,
+        saleStart: shiftInstant(ticket.saleStart),
+        saleEnd: shiftInstant(ticket.saleEnd),
+    }));
+
+    if (date) {
+        copy.date = date;
+        copy.endDate = source.endDate && offsetDays !== null ? addCalendarDays(source.endDate, offsetDays) : undefined;
+    }
+
+    return copy;
+}
@@ -0,0 +1,155 @@
+/**
+ * Shared MongoDB filters for event queries
+ * Keeps listing, search and detail lookups consistent about which events are visible
+ */
+
+import type { PipelineStage } from 'mongoose';
+import { EVENT_CONSTANTS } from '@/lib/constants';
+
+/**
+ * Matches events that have not been soft-deleted
+ * Documents created before soft deletes existed have no deletedAt field and match too
+ */
+export function activeEventFilter() {
+    return { deletedAt: null };
+}
+
+/**
+ * Matches public events, leaving out unlisted and private ones
+ * Documents created before visibility modes existed have no visibility field and count as public
+ */
+export function publicEventFilter() {
+    return { visibility: { $in: ['public', null] } };
+}
+
+/**
+ * Matches events whose scheduled publication time has passed
+ * Events without a publishAt time are released as soon as they are published
+ */
+export function releasedEventFilter() {
+    return { publishAt: { $not: { $gt: new Date() } } };
+}
+
+/**
+ * Matches events that may appear in public listings, search and recommendations
+ * Drafts, cancelled, postponed and completed events are reachable only by URL,
+ * as are unlisted and private events and events scheduled for later publication
+ * Documents created before statuses existed have no status field and count as published
+ */
+export function listedEventFilter() {
+    return {
+        ...activeEventFilter(),
+        ...publicEventFilter(),
+        ...releasedEventFilter(),
+        status: { $in: ['published', null] },
+    };
+}
+
+/**
+ * Matches events whose time span overlaps a range
+ * An event overlaps when it starts before the range ends and ends after the range starts,
+ * so multi-day events match every day they run
+ * @param from - Start of the range, open-ended when omitted
+ * @param to - End of the range, open-ended when omitted
+ */
+export function overlappingEventFilter(from?: Date, to?: Date) {
+    return {
+        ...(from ? { endsAt: { $gte: from } } : {}),
+        ...(to ? { startsAt: { $lte: to } } : {}),
+    };
+}
+
+/**
+ * Matches events that have not ended yet
+ * Compares stored UTC instants, so events stay listed until they end rather than until they start
+ */
+export function upcomingEventFilter() {
+    return overlappingEventFilter(new Date());
+}
+
+/**
+ * Parses the bounds of a date range filter from query strings
+ * Bare dates (YYYY-MM-DD) cover the whole UTC day: from its start, or to its end
+ * @param from - Range start as a date or ISO timestamp
+ * @param to - Range end as a date or ISO timestamp
+ * @returns Parsed bounds, or null when either value is not a valid date
+ */
+export function parseDateRange(from?: string | null, to?: string | null): { from?: Date; to?: Date } | null {
+    const parse = (value: string, endOfDay: boolean) => /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`)
+        : new Date(value);
+
+    const range = {
+        from: from ? parse(from, false) : undefined,
+        to: to ? parse(to, true) : undefined,
+    };
+
+    if ((range.from && isNaN(range.from.getTime())) || (range.to && isNaN(range.to.getTime()))) {
+        return null;
+    }
+
+    return range;
+}
+
+// Mean radius of the Earth, converting distances into radians for $centerSphere
+const EARTH_RADIUS_KM = 6378.1;
+
+/**
+ * Parses a "near" search from query strings
+ * @param near - Search centre as "latitude,longitude", e.g. "18.52,73.86"
+ * @param radius - Search radius in kilometres, defaults to DEFAULT_SEARCH_RADIUS_KM
+ * @returns The centre as [longitude, latitude] with the radius, or null when either value is invalid
+ */
+export function parseNearQuery(near?: string | null, radius?: string | null): { point?: [number, number]; radiusKm: number } | null {
+    const radiusKm = radius ? Number(radius) : EVENT_CONSTANTS.DEFAULT_SEARCH_RADIUS_KM;
+
+    if (isNaN(radiusKm) || radiusKm <= 0 || radiusKm > EVENT_CONSTANTS.MAX_SEARCH_RADIUS_KM) {
+        return null;
+    }
+
+    if (!near) {
+        return { radiusKm };
+    }
+
+    const [latitude, longitude, ...rest] = near.split(',').map((value) => value.trim() === '' ? NaN : Number(value));
+
+    if (rest.length > 0 || isNaN(latitude) || isNaN(longitude)
+        || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        return null;
+    }
+
+    return { point: [longitude, latitude], radiusKm };
+}
+
+/**
+ * Matches events at a venue within a radius of a point
+ * Online events and events without a venue have no coordinates and never match
+ * @param point - Centre as [longitude, latitude]
+ * @param radiusKm - Radius in kilometres
+ */
+export function nearbyEventFilter(point: [number, number], radiusKm: number) {
+    return {
+        geo: { $geoWithin: { $centerSphere: [point, radiusKm / EARTH_RADIUS_KM] } },
+    };
+}
+
+/**
+ * Aggregation stage returning events within a radius of a point, nearest first
+ * Adds a distance field in kilometres; it must be the first stage of the pipeline
+ * @param point - Centre as [longitude, latitude]
+ * @param radiusKm - Radius in kilometres
+ * @param query - Additional filter applied to the events
+ */
+export function nearbyEventsStage(point: [number, number], radiusKm: number, query: Record<string, any>): PipelineStage.GeoNear {
+    return {
+        $geoNear: {
+            near: { type: 'Point', coordinates: point },
+            key: 'geo',
+            distanceField: 'distance',
+            distanceMultiplier: 0.001, // Metres to kilometres
+            maxDistance: radiusKm * 1000,
+            spherical: true,
+            query,
+        },
+    };
+}
@@ -0,0 +1,104 @@
+/**
+ * Helpers for reading the multipart payload sent by CreateEventForm
+ * Shared by the create (POST) and edit (PATCH) event API routes, and the routes that save copies or reverts
+ */
+
+import { API_MESSAGES, EVENT_CONSTANTS } from '@/lib/constants';
+
+// Fields that the form serializes as JSON strings
+const JSON_FIELDS = ['tags', 'agenda', 'speakers', 'ticketTypes', 'registrationQuestions', 'gallery', 'recurrence'];
+
+// Fields an organizer may set when creating an event and change afterwards
+export const EDITABLE_EVENT_FIELDS = [
+    'title',
+    'description',
+    'overview',
+    'venue',
+    'location',
+    'venueId',
+    'date',
+    'time',
+    'endDate',
+    'endTime',
+    'timezone',
+    'mode',
+    'audience',
+    'organizer',
+    'tags',
+    'agenda',
+    'speakers',
+    'ticketTypes',
+    'registrationQuestions',
+    'gallery',
+    'price',
+    'capacity',
+    'registrationUrl',
+    'requireEmailVerification',
+    'status',
+    'statusNote',
+    'visibility',
+    'publishAt',
+] as const;
+
+/**
+ * Converts event form data into a plain object, parsing JSON array fields
+ * The image file is left out and must be read separately
+ * @param formData - Multipart form data from the request
+ * @returns Record<string, any> - Event fields keyed by name
+ */
+export function parseEventFormData(formData: FormData): Record<string, any> {
+    const eventData: Record<string, any> = {};
+
+    for (const [key, value] of formData.entries()) {
+        if (JSON_FIELDS.includes(key)) {
+            // Parse JSON arrays
+            try {
+                eventData[key] = JSON.parse(value as string);
+            } catch (parseError) {
+                console.error(`Error parsing ${key}:`, parseError);
+                eventData[key] = key === 'tags' ? [] : [value as string];
+            }
+        } else if (key !== 'image') {
+            // Store other fields as strings
+            eventData[key] = value;
+        }
+    }
+
+    return eventData;
+}
+
+/**
+ * Validates an uploaded event image against allowed types and size
+ * @param file - Image file from the form
+ * @returns string | null - Error message, or null when the file is acceptable
+ */
+export function validateEventImage(file: File): string | null {
+    if (!(EVENT_CONSTANTS.ALLOWED_IMAGE_TYPES as readonly string[]).includes(file.type)) {
+        return 'Invalid image format. Please use JPEG, PNG, or WebP';
+    }
+
+    if (file.size > EVENT_CONSTANTS.MAX_FILE_SIZE) {
+        return 'Image size must be less than 5MB';
+    }
+
+    return null;
+}
+
+/**
+ * Turns a failed event save into the API error response
+ * Slugs are de-duplicated, so a duplicate key only happens when a concurrent save took the same one
+ * @param error - Error thrown while saving the event
+ * @returns { status, body } | null - Response to send, or null for errors the route should rethrow
+ */
+export function getEventSaveError(error: any): { status: number; body: { message: string; errors?: string[] } } | null {
+    if (error?.code === 11000) {
+        return { status: 409, body: { message: API_MESSAGES.ERROR.SLUG_CONFLICT } };
+    }
+
+    if (error?.name === 'ValidationError') {
+        const errors = Object.values(error.errors).map((err: any) => err.message);
+        return { status: 400, body: { message: API_MESSAGES.ERROR.VALIDATION_ERROR, errors } };
+    }
+
+    return null;
+}
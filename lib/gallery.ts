@@ -0,0 +1,20 @@
+/**
+ * Event photo galleries
+ * Gallery images are uploaded through /api/upload and kept in display order on the event;
+ * any of them can be picked as the event's cover image
+ */
+
+export interface GalleryImage {
+    url: string;
+    caption?: string;
+}
+
+/**
+ * Lists every image URL an event refers to, cover first, without repeats
+ * @param event - Event cover image and gallery
+ * @returns string[] - Image URLs
+ */
+export function getEventImageUrls(event: { image?: string; gallery?: GalleryImage[] }): string[] {
+    const urls = [event.image, ...(event.gallery || []).map((photo) => photo.url)];
+    return Array.from(new Set(urls.filter((url): url is string => !!url)));
+}
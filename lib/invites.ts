@@ -0,0 +1,88 @@
+/**
+ * Invite links for private events
+ * A token names an invite of the event and carries an HMAC signature of the event and invite IDs,
+ * so tokens cannot be forged or moved to another event, and revoking the invite disables its link
+ * Tokens are signed with the INVITE_TOKEN_SECRET environment value
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Types } from 'mongoose';
+import Event from '@/database/event.model';
+import type { EventVisibility } from '@/lib/constants';
+
+// Signature of an invite for an event, base64url encoded
+function signInvite(secret: string, eventId: string, inviteId: string): string {
+    return createHmac('sha256', secret).update(`${eventId}:${inviteId}`).digest('base64url');
+}
+
+/**
+ * Creates the token for an invite link
+ * @param eventId - Private event the invite belongs to
+ * @param inviteId - Invite issued for the event
+ * @returns string - Token for the invite query parameter
+ */
+export function createInviteToken(eventId: string | Types.ObjectId, inviteId: string | Types.ObjectId): string {
+    const secret = process.env.INVITE_TOKEN_SECRET;
+    if (!secret) {
+        throw new Error('Please define the INVITE_TOKEN_SECRET environment variable inside .env.local');
+    }
+
+    return `${inviteId}.${signInvite(secret, eventId.toString(), inviteId.toString())}`;
+}
+
+/**
+ * Reads the invite ID from a token if its signature matches the event
+ * Always null when INVITE_TOKEN_SECRET is not set, so private events stay closed by default
+ * @param eventId - Event the token should have been issued for
+ * @param token - Token from the invite link
+ * @returns string | null - Invite ID, or null when the token is malformed or forged
+ */
+export function verifyInviteToken(eventId: string | Types.ObjectId, token: string): string | null {
+    const secret = process.env.INVITE_TOKEN_SECRET;
+    const [inviteId, signature, ...rest] = token.split('.');
+
+    if (!secret || !signature || rest.length > 0 || !Types.ObjectId.isValid(inviteId)) {
+        return null;
+    }
+
+    const expected = Buffer.from(signInvite(secret, eventId.toString(), inviteId));
+    const actual = Buffer.from(signature);
+
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? inviteId : null;
+}
+
+/**
+ * Checks whether a visitor may view and book an event
+ * Public and unlisted events are open to anyone; private events need a valid, unrevoked invite token
+ * @param event - Event ID and visibility
+ * @param token - Token from the invite link, if any
+ * @returns boolean - True if access is allowed
+ */
+export async function canAccessEvent(
+    event: { _id: string | Types.ObjectId; visibility?: EventVisibility | null },
+    token?: string | null
+): Promise<boolean> {
+    if (event.visibility !== 'private') {
+        return true;
+    }
+
+    const inviteId = token ? verifyInviteToken(event._id, token) : null;
+    if (!inviteId) {
+        return false;
+    }
+
+    return !!(await Event.exists({
+        _id: event._id,
+        invites: { $elemMatch: { _id: inviteId, revokedAt: null } },
+    }));
+}
+
+/**
+ * Builds the shareable link for an invite
+ * @param slug - Event slug
+ * @param token - Token from createInviteToken
+ * @returns string - Event page URL carrying the invite token
+ */
+export function getInviteUrl(slug: string, token: string): string {
+    return `${process.env.NEXT_PUBLIC_BASE_URL || ''}/events/${slug}?invite=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,277 @@
+/**
+ * Small Markdown parser for event descriptions
+ * Parses a safe subset (headings, paragraphs, lists, quotes, code, rules, emphasis and links)
+ * into a tree that components/Markdown renders as React elements, so raw HTML in the source is
+ * always shown as text and never reaches the page
+ * Shared by the event page, the form preview and the plain-text versions used for metadata and search
+ */
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'strong'; children: MarkdownInline[] }
+    | { type: 'emphasis'; children: MarkdownInline[] }
+    | { type: 'link'; href: string; children: MarkdownInline[] }
+    | { type: 'break' };
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] }
+    | { type: 'blockquote'; children: MarkdownInline[] }
+    | { type: 'code'; text: string }
+    | { type: 'rule' };
+
+// Escaped character, `code`, **strong**, *emphasis*, [text](url), <url>, bare URL, or line break
+// Emphasis uses asterisks only, so snake_case names in tech descriptions stay intact
+const INLINE_PATTERN = /\\([\\`*_[\]()#+\-.!>])|`([^`\n]+)`|\*\*(?=\S)([\s\S]+?)\*\*|\*(?=[^\s*])([\s\S]+?)\*|\[([^\]\n]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)|<(https?:\/\/[^>\s]+)>|(https?:\/\/[^\s<]*[^\s<.,:;"')\]])|\n/g;
+
+const LIST_ITEM_PATTERN = /^([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?$/;
+const RULE_PATTERN = /^([-*_])(?:\s*\1){2,}$/;
+
+// Placeholder origin that same-site links are resolved against
+const SAME_SITE_ORIGIN = 'https://same-site.invalid';
+
+/**
+ * Checks a link target against the allowed protocols
+ * Only web, mail and same-site links are kept; javascript:, data: and other schemes are dropped
+ * @param url - Link target from the Markdown source
+ * @returns string | null - The URL when it is safe to link to, otherwise null
+ */
+export function getSafeHref(url: string): string | null {
+    const trimmed = url.trim();
+
+    // Browsers read "\" as "/" and drop tabs and newlines, so "/\evil.com" would leave the site;
+    // resolving the path the same way shows whether it stays on this origin
+    if (trimmed.startsWith('/')) {
+        try {
+            return new URL(trimmed, SAME_SITE_ORIGIN).origin === SAME_SITE_ORIGIN ? trimmed : null;
+        } catch {
+            return null;
+        }
+    }
+
+    try {
+        const { protocol } = new URL(trimmed);
+        return ['http:', 'https:', 'mailto:'].includes(protocol) ? trimmed : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parses inline Markdown (emphasis, code, links and line breaks)
+ * @param source - Text of a paragraph, heading or list item
+ * @param allowLinks - False inside link text, so links never nest
+ * @returns MarkdownInline[] - Inline nodes
+ */
+export function parseInlineMarkdown(source: string, allowLinks = true): MarkdownInline[] {
+    const nodes: MarkdownInline[] = [];
+    const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    const pushText = (text: string) => {
+        if (!text) return;
+        const previous = nodes[nodes.length - 1];
+        if (previous?.type === 'text') {
+            previous.text += text;
+        } else {
+            nodes.push({ type: 'text', text });
+        }
+    };
+
+    while ((match = pattern.exec(source)) !== null) {
+        const [whole, escaped, code, strong, emphasis, linkText, linkUrl, autolink, bareUrl] = match;
+        pushText(source.slice(lastIndex, match.index));
+        lastIndex = match.index + whole.length;
+
+        if (escaped !== undefined) {
+            pushText(escaped);
+        } else if (code !== undefined) {
+            nodes.push({ type: 'code', text: code });
+        } else if (strong !== undefined) {
+            nodes.push({ type: 'strong', children: parseInlineMarkdown(strong, allowLinks) });
+        } else if (emphasis !== undefined) {
+            nodes.push({ type: 'emphasis', children: parseInlineMarkdown(emphasis, allowLinks) });
+        } else if (linkText !== undefined) {
+            const href = allowLinks ? getSafeHref(linkUrl) : null;
+            const children = parseInlineMarkdown(linkText, false);
+            if (href) {
+                nodes.push({ type: 'link', href, children });
+            } else {
+                // Unsafe or nested links keep their text only
+                children.forEach((child) => {
+                    if (child.type === 'text') {
+                        pushText(child.text);
+                    } else {
+                        nodes.push(child);
+                    }
+                });
+            }
+        } else if (autolink !== undefined || bareUrl !== undefined) {
+            const url = autolink ?? bareUrl;
+            if (allowLinks && getSafeHref(url)) {
+                nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+            } else {
+                pushText(url);
+            }
+        } else {
+            nodes.push({ type: 'break' });
+        }
+    }
+
+    pushText(source.slice(lastIndex));
+    return nodes;
+}
+
+/**
+ * Parses Markdown into blocks
+ * Lists are a single level; indented lines continue the previous item
+ * @param source - Markdown source, e.g. an event description
+ * @returns MarkdownBlock[] - Blocks in document order
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+    const lines = (source || '').replace(/\r\n?/g, '\n').split('\n');
+    const blocks: MarkdownBlock[] = [];
+    let paragraph: string[] = [];
+    let i = 0;
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            blocks.push({ type: 'paragraph', children: parseInlineMarkdown(paragraph.join('\n')) });
+            paragraph = [];
+        }
+    };
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const trimmed = line.trim();
+
+        if (!trimmed) {
+            flushParagraph();
+            i++;
+            continue;
+        }
+
+        // Fenced code block, closed by the next fence or the end of the text
+        if (trimmed.startsWith('```')) {
+            flushParagraph();
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith('```')) {
+                code.push(lines[i]);
+                i++;
+            }
+            blocks.push({ type: 'code', text: code.join('\n') });
+            i++;
+            continue;
+        }
+
+        const heading = HEADING_PATTERN.exec(trimmed);
+        if (heading) {
+            flushParagraph();
+            blocks.push({
+                type: 'heading',
+                level: Math.min(heading[1].length, 3) as 1 | 2 | 3,
+                children: parseInlineMarkdown(heading[2]),
+            });
+            i++;
+            continue;
+        }
+
+        if (RULE_PATTERN.test(trimmed)) {
+            flushParagraph();
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        const listItem = LIST_ITEM_PATTERN.exec(trimmed);
+        if (listItem) {
+            flushParagraph();
+            const ordered = /\d/.test(listItem[1]);
+            const items: string[] = [];
+
+            while (i < lines.length) {
+                const item = LIST_ITEM_PATTERN.exec(lines[i].trim());
+                if (item && /\d/.test(item[1]) === ordered) {
+                    items.push(item[2]);
+                } else if (lines[i].trim() && /^\s/.test(lines[i]) && !item) {
+                    items[items.length - 1] += `\n${lines[i].trim()}`;
+                } else {
+                    break;
+                }
+                i++;
+            }
+
+            blocks.push({
+                type: 'list',
+                ordered,
+                start: ordered ? parseInt(listItem[1], 10) : 1,
+                items: items.map((item) => parseInlineMarkdown(item)),
+            });
+            continue;
+        }
+
+        if (trimmed.startsWith('>')) {
+            flushParagraph();
+            const quote: string[] = [];
+            while (i < lines.length && lines[i].trim().startsWith('>')) {
+                quote.push(lines[i].trim().replace(/^>\s?/, ''));
+                i++;
+            }
+            blocks.push({ type: 'blockquote', children: parseInlineMarkdown(quote.join('\n')) });
+            continue;
+        }
+
+        paragraph.push(trimmed);
+        i++;
+    }
+
+    flushParagraph();
+    return blocks;
+}
+
+// Text content of inline nodes; links keep their text, not their URL
+function inlineToPlainText(nodes: MarkdownInline[]): string {
+    return nodes
+        .map((node) => {
+            switch (node.type) {
+                case 'text':
+                case 'code':
+                    return node.text;
+                case 'break':
+                    return ' ';
+                default:
+                    return inlineToPlainText(node.children);
+            }
+        })
+        .join('');
+}
+
+/**
+ * Strips Markdown down to its text on a single line
+ * Used for page metadata, card excerpts and search
+ * @param source - Markdown source
+ * @returns string - Plain text with whitespace collapsed
+ */
+export function markdownToPlainText(source: string): string {
+    return parseMarkdown(source)
+        .map((block) => {
+            switch (block.type) {
+                case 'code':
+                    return block.text;
+                case 'rule':
+                    return '';
+                case 'list':
+                    return block.items.map(inlineToPlainText).join(' ');
+                default:
+                    return inlineToPlainText(block.children);
+            }
+        })
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
@@ -0,0 +1,237 @@
+/**
+ * Data migrations for documents created before a schema change
+ * Each migration is idempotent: it only touches documents still missing the new fields
+ * Run through the admin API: POST /api/admin/migrations with { "name": "<migration>" }
+ */
+
+import Event from '@/database/event.model';
+import Booking from '@/database/booking.model';
+import { DEFAULT_TIMEZONE, computeEventInstants, isValidTimeZone } from '@/lib/timezone';
+import { normalizeAgenda } from '@/lib/agenda';
+import { findOrCreateOrganization } from '@/lib/organizations';
+import { generateSlug } from '@/lib/utils';
+import { markdownToPlainText } from '@/lib/markdown';
+
+export interface MigrationResult {
+    name: string;
+    matched: number;
+    updated: number;
+    failed: string[];
+}
+
+interface Migration {
+    description: string;
+    run: () => Promise<Omit<MigrationResult, 'name'>>;
+}
+
+/**
+ * Backfills timezone, startsAt and endsAt on events created before they existed
+ * Legacy dates and times are interpreted in UTC, which is how they were previously compared
+ */
+async function backfillEventInstants() {
+    const events = await Event.find({
+        $or: [{ startsAt: null }, { endsAt: null }, { timezone: null }],
+    })
+        .select('date time endDate endTime timezone')
+        .lean();
+
+    let updated = 0;
+    const failed: string[] = [];
+
+    for (const event of events as any[]) {
+        try {
+            const timezone = isValidTimeZone(event.timezone) ? event.timezone : DEFAULT_TIMEZONE;
+            const { startsAt, endsAt } = computeEventInstants(event.date, event.time, timezone, event.endDate, event.endTime);
+
+            if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+                throw new Error(`Invalid date or time: ${event.date} ${event.time}`);
+            }
+
+            // Bypass the save hooks so past events are not rejected by date validation
+            await Event.updateOne({ _id: event._id }, { $set: { timezone, startsAt, endsAt } });
+            updated++;
+        } catch (error) {
+            console.error(`Failed to migrate event ${event._id}:`, error);
+            failed.push(String(event._id));
+        }
+    }
+
+    return { matched: events.length, updated, failed };
+}
+
+/**
+ * Converts string agenda items into untimed sessions
+ * Reads the raw collection, since hydrated documents already normalize agendas on load
+ */
+async function migrateAgendaSessions() {
+    const events = await Event.collection
+        .find({ agenda: { $type: 'string' } }, { projection: { agenda: 1 } })
+        .toArray();
+
+    let updated = 0;
+    const failed: string[] = [];
+
+    for (const event of events) {
+        try {
+            await Event.collection.updateOne(
+                { _id: event._id },
+                { $set: { agenda: normalizeAgenda(event.agenda) } }
+            );
+            updated++;
+        } catch (error) {
+            console.error(`Failed to migrate event ${event._id}:`, error);
+            failed.push(String(event._id));
+        }
+    }
+
+    return { matched: events.length, updated, failed };
+}
+
+/**
+ * Groups organizer names into organizations and links events to them
+ * Spellings that share a slug ("GDG Pune", "gdg pune") form one organization,
+ * named after the most common spelling
+ */
+async function migrateOrganizations() {
+    const counts = await Event.collection.aggregate<{ _id: string; count: number }>([
+        { $match: { organization: null, organizer: { $type: 'string' } } },
+        { $group: { _id: '$organizer', count: { $sum: 1 } } },
+    ]).toArray();
+
+    // Group spellings by slug, most common first
+    const groups = new Map<string, { _id: string; count: number }[]>();
+    for (const spelling of counts.sort((a, b) => b.count - a.count)) {
+        const slug = generateSlug(spelling._id);
+        if (slug) {
+            groups.set(slug, [...(groups.get(slug) || []), spelling]);
+        }
+    }
+
+    let matched = 0;
+    let updated = 0;
+    const failed: string[] = [];
+
+    for (const [slug, spellings] of groups) {
+        matched += spellings.reduce((sum, spelling) => sum + spelling.count, 0);
+        try {
+            const organization = await findOrCreateOrganization(spellings[0]._id);
+            if (!organization) continue;
+
+            const result = await Event.collection.updateMany(
+                { organization: null, organizer: { $in: spellings.map((spelling) => spelling._id) } },
+                { $set: { organization: organization._id, organizer: organization.name } }
+            );
+            updated += result.modifiedCount;
+        } catch (error) {
+            console.error(`Failed to migrate organizer ${slug}:`, error);
+            failed.push(slug);
+        }
+    }
+
+    return { matched, updated, failed };
+}
+
+/**
+ * Stores the plain text of descriptions written before Markdown support, so search finds them
+ */
+async function backfillDescriptionText() {
+    const events = await Event.collection
+        .find({ descriptionText: null }, { projection: { description: 1 } })
+        .toArray();
+
+    let updated = 0;
+    const failed: string[] = [];
+
+    for (const event of events) {
+        try {
+            await Event.collection.updateOne(
+                { _id: event._id },
+                { $set: { descriptionText: markdownToPlainText(event.description || '') } }
+            );
+            updated++;
+        } catch (error) {
+            console.error(`Failed to migrate event ${event._id}:`, error);
+            failed.push(String(event._id));
+        }
+    }
+
+    return { matched: events.length, updated, failed };
+}
+
+/**
+ * Recounts each event's seat counters from its confirmed bookings and unverified seat holds
+ * Needed once for events booked before the counters existed; run it while bookings are paused,
+ * as a booking made during the recount may be counted twice or not at all
+ */
+async function recountSeats() {
+    const events = await Event.collection
+        .find({ deletedAt: null }, { projection: { _id: 1 } })
+        .toArray();
+
+    let updated = 0;
+    const failed: string[] = [];
+
+    for (const event of events) {
+        try {
+            const counts = await Booking.aggregate<{ _id: unknown; count: number }>([
+                { $match: { eventId: event._id, status: { $in: ['confirmed', 'pending_verification'] } } },
+                { $group: { _id: '$ticketTypeId', count: { $sum: 1 } } },
+            ]);
+
+            const seatsTaken = counts.reduce((total, { count }) => total + count, 0);
+            const ticketsSold = Object.fromEntries(
+                counts.filter(({ _id }) => _id).map(({ _id, count }) => [String(_id), count])
+            );
+
+            await Event.collection.updateOne({ _id: event._id }, { $set: { seatsTaken, ticketsSold } });
+            updated++;
+        } catch (error) {
+            console.error(`Failed to migrate event ${event._id}:`, error);
+            failed.push(String(event._id));
+        }
+    }
+
+    return { matched: events.length, updated, failed };
+}
+
+export const MIGRATIONS: Record<string, Migration> = {
+    'event-instants': {
+        description: 'Backfill timezone, startsAt and endsAt on existing events',
+        run: backfillEventInstants,
+    },
+    'agenda-sessions': {
+        description: 'Convert plain string agenda items into untimed sessions',
+        run: migrateAgendaSessions,
+    },
+    'organizations': {
+        description: 'Create organizations from organizer names and link events to them',
+        run: migrateOrganizations,
+    },
+    'description-text': {
+        description: 'Store the plain text of event descriptions for search',
+        run: backfillDescriptionText,
+    },
+    'seat-counters': {
+        description: 'Recount confirmed seats per event and ticket type from bookings',
+        run: recountSeats,
+    },
+};
+
+/**
+ * Runs a migration by name
+ * @param name - Key of the migration in MIGRATIONS
+ * @returns MigrationResult - Counts of matched and updated documents, and ids that failed
+ * @throws Error if no migration has that name
+ */
+export async function runMigration(name: string): Promise<MigrationResult> {
+    const migration = MIGRATIONS[name];
+    if (!migration) {
+        throw new Error(`Unknown migration: ${name}`);
+    }
+
+    console.log(`🔄 Running migration ${name}`);
+    const result = await migration.run();
+    console.log(`✅ Migration ${name} updated ${result.updated} of ${result.matched} documents`);
+
+    return { name, ...result };
+}
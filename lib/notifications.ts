@@ -0,0 +1,44 @@
+/**
+ * Attendee notifications
+ * Messages are posted as JSON to NOTIFICATION_WEBHOOK_URL, where a mail service or automation
+ * delivers them; without it they are only logged, which is enough for local development
+ * Failures are logged and never thrown, so a notification cannot undo the change that triggered it
+ */
+
+export interface Notification {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+/**
+ * Sends a notification to an attendee
+ * @param notification - Recipient email, subject and plain-text body
+ * @returns Promise<boolean> - True if the message was handed to the webhook
+ */
+export async function sendNotification(notification: Notification): Promise<boolean> {
+    const webhookUrl = process.env.NOTIFICATION_WEBHOOK_URL;
+
+    if (!webhookUrl) {
+        console.log(`✉️ Notification for ${notification.to} (no NOTIFICATION_WEBHOOK_URL set):`, notification.subject);
+        return false;
+    }
+
+    try {
+        const response = await fetch(webhookUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(notification),
+        });
+
+        if (!response.ok) {
+            console.error(`❌ Notification webhook responded with ${response.status} for ${notification.to}`);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('❌ Failed to send notification:', error);
+        return false;
+    }
+}
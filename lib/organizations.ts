@@ -0,0 +1,24 @@
+/**
+ * Links free-text organizer names to Organization documents
+ * Names are matched by slug, so "GDG Pune" and "gdg  pune" resolve to the same organization
+ */
+
+import Organization, { IOrganization } from '@/database/organization.model';
+import { generateSlug } from '@/lib/utils';
+
+/**
+ * Finds the organization matching an organizer name, creating it when none exists
+ * @param name - Organizer name as entered on the event form
+ * @returns IOrganization | null - The organization, or null for names without letters or digits
+ */
+export async function findOrCreateOrganization(name: string): Promise<IOrganization | null> {
+    const slug = generateSlug(name || '');
+    if (!slug) return null;
+
+    // Upsert so concurrent event submissions cannot create duplicates
+    return Organization.findOneAndUpdate(
+        { slug },
+        { $setOnInsert: { name: name.trim().replace(/\s+/g, ' '), slug } },
+        { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+}
@@ -0,0 +1,108 @@
+/**
+ * Promo code checks and redemption for bookings
+ * A code is checked before the booking is made and redeemed atomically, so usage limits hold
+ * when several attendees use the same code at once
+ */
+
+import { randomInt } from 'crypto';
+import { Types } from 'mongoose';
+import PromoCode, { IPromoCode } from '@/database/promo-code.model';
+import { API_MESSAGES } from '@/lib/constants';
+
+/**
+ * Applies a promo code's discount to a ticket price
+ * @param price - Ticket price before the discount
+ * @param promoCode - Discount type and amount
+ * @returns number - Discounted price, rounded to cents and never below zero
+ */
+export function applyDiscount(price: number, promoCode: Pick<IPromoCode, 'discountType' | 'amount'>): number {
+    const discounted = promoCode.discountType === 'percentage'
+        ? price * (1 - promoCode.amount / 100)
+        : price - promoCode.amount;
+
+    return Math.max(0, Math.round(discounted * 100) / 100);
+}
+
+/**
+ * Looks up a promo code and checks that it can be used for a ticket
+ * @param eventId - Event being booked
+ * @param code - Code as entered by the attendee, matched case-insensitively
+ * @param ticketTypeId - Ticket type being booked, for events with ticket types
+ * @param price - Ticket price before the discount
+ * @returns The promo code, or an error message explaining why it cannot be used
+ */
+export async function findApplicablePromoCode(
+    eventId: string | Types.ObjectId,
+    code: string,
+    ticketTypeId: string | undefined,
+    price: number
+): Promise<{ promoCode: IPromoCode; error?: undefined } | { promoCode?: undefined; error: string }> {
+    const promoCode: IPromoCode | null = await PromoCode.findOne({ eventId, code: code.trim().toUpperCase() });
+
+    if (!promoCode) {
+        return { error: API_MESSAGES.ERROR.PROMO_INVALID };
+    }
+
+    if (promoCode.expiresAt && promoCode.expiresAt <= new Date()) {
+        return { error: API_MESSAGES.ERROR.PROMO_EXPIRED };
+    }
+
+    if (promoCode.maxRedemptions && promoCode.redemptions >= promoCode.maxRedemptions) {
+        return { error: API_MESSAGES.ERROR.PROMO_USED_UP };
+    }
+
+    // Free tickets have nothing to discount
+    const appliesToTicket = promoCode.ticketTypeIds.length === 0
+        || promoCode.ticketTypeIds.some((id) => id.toString() === ticketTypeId);
+    if (!appliesToTicket || price <= 0) {
+        return { error: API_MESSAGES.ERROR.PROMO_NOT_APPLICABLE };
+    }
+
+    return { promoCode };
+}
+
+/**
+ * Counts a use of a promo code unless its usage limit has been reached in the meantime
+ * @param promoCode - Code returned by findApplicablePromoCode
+ * @param count - Uses to count together, one per attendee of a group booking
+ * @returns boolean - True if all the uses were counted
+ */
+export async function redeemPromoCode(promoCode: IPromoCode, count: number = 1): Promise<boolean> {
+    const result = await PromoCode.updateOne(
+        {
+            _id: promoCode._id,
+            $or: [
+                { maxRedemptions: null },
+                { $expr: { $lte: [{ $add: ['$redemptions', count] }, '$maxRedemptions'] } },
+            ],
+        },
+        { $inc: { redemptions: count } }
+    );
+
+    return result.modifiedCount === 1;
+}
+
+/**
+ * Gives back a use of a promo code, e.g. when the booking it was redeemed for is cancelled
+ * @param eventId - Event the code belongs to
+ * @param code - Stored promo code
+ * @param count - Uses to give back
+ */
+export async function releasePromoCode(eventId: string | Types.ObjectId, code: string, count: number = 1): Promise<void> {
+    await PromoCode.updateOne(
+        { eventId, code, redemptions: { $gte: count } },
+        { $inc: { redemptions: -count } }
+    );
+}
+
+/**
+ * Generates a random code for single-use promo codes, e.g. "SPEAKER-7KQ2XM"
+ * @param prefix - Readable prefix of the code
+ */
+export function generatePromoCode(prefix: string): string {
+    // Unambiguous characters only, so codes can be read out or typed from print
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    const suffix = Array.from({ length: 6 }, () => alphabet[randomInt(alphabet.length)]).join('');
+
+    return `${prefix.trim().toUpperCase()}-${suffix}`;
+}
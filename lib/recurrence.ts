@@ -0,0 +1,326 @@
+/**
+ * Recurrence rules for event series
+ * Implements the subset of RFC 5545 RRULE used by EventHub:
+ * FREQ=WEEKLY|MONTHLY, INTERVAL, BYDAY (with ordinals for monthly rules), COUNT and UNTIL
+ * All dates are calendar dates in YYYY-MM-DD format and are computed in UTC
+ */
+
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export type RecurrenceFrequency = 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceDay {
+    weekday: Weekday;
+    ordinal?: number; // e.g. 2 for the second Tuesday, -1 for the last Friday (monthly only)
+}
+
+export interface RecurrenceRule {
+    freq: RecurrenceFrequency;
+    interval: number;
+    byDay: RecurrenceDay[];
+    count?: number;
+    until?: string;
+}
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+    SU: 'Sunday',
+    MO: 'Monday',
+    TU: 'Tuesday',
+    WE: 'Wednesday',
+    TH: 'Thursday',
+    FR: 'Friday',
+    SA: 'Saturday',
+};
+
+const ORDINAL_NAMES: Record<number, string> = {
+    1: 'first',
+    2: 'second',
+    3: 'third',
+    4: 'fourth',
+    5: 'fifth',
+    [-1]: 'last',
+    [-2]: 'second to last',
+    [-3]: 'third to last',
+    [-4]: 'fourth to last',
+    [-5]: 'fifth to last',
+};
+
+// Upper bound on periods scanned while expanding, protecting against rules that never match
+const MAX_PERIODS = 1000;
+
+// Converts a YYYY-MM-DD string into a UTC midnight Date
+function toUTCDate(date: string): Date {
+    return new Date(`${date}T00:00:00Z`);
+}
+
+// Converts a UTC Date back into YYYY-MM-DD
+function toDateString(date: Date): string {
+    return date.toISOString().split('T')[0];
+}
+
+function addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result;
+}
+
+function isValidDateString(date: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(toUTCDate(date).getTime());
+}
+
+/**
+ * Parses an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=10"
+ * An optional "RRULE:" prefix is accepted
+ * @param input - RRULE string
+ * @returns RecurrenceRule - Parsed rule
+ * @throws Error if the rule is malformed or uses unsupported parts
+ */
+export function parseRRule(input: string): RecurrenceRule {
+    const body = input.trim().replace(/^RRULE:/i, '');
+    if (!body) {
+        throw new Error('Recurrence rule is empty');
+    }
+
+    const parts: Record<string, string> = {};
+    for (const part of body.split(';').filter(Boolean)) {
+        const [key, value] = part.split('=');
+        if (!key || value === undefined || value === '') {
+            throw new Error(`Invalid recurrence rule part: ${part}`);
+        }
+        parts[key.toUpperCase()] = value.toUpperCase();
+    }
+
+    const freq = parts.FREQ;
+    if (freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+        throw new Error('Recurrence frequency must be WEEKLY or MONTHLY');
+    }
+
+    const rule: RecurrenceRule = { freq, interval: 1, byDay: [] };
+
+    for (const [key, value] of Object.entries(parts)) {
+        switch (key) {
+            case 'FREQ':
+                break;
+            case 'INTERVAL': {
+                const interval = Number(value);
+                if (!Number.isInteger(interval) || interval < 1) {
+                    throw new Error('Recurrence interval must be a positive integer');
+                }
+                rule.interval = interval;
+                break;
+            }
+            case 'BYDAY':
+                rule.byDay = value.split(',').map((day) => {
+                    const match = day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+                    if (!match) {
+                        throw new Error(`Invalid recurrence day: ${day}`);
+                    }
+
+                    const weekday = match[2] as Weekday;
+                    if (match[1] === undefined) {
+                        return { weekday };
+                    }
+
+                    const ordinal = Number(match[1]);
+                    if (freq !== 'MONTHLY') {
+                        throw new Error('Numbered days are only supported for monthly rules');
+                    }
+                    if (ordinal === 0 || ordinal < -5 || ordinal > 5) {
+                        throw new Error(`Invalid recurrence day ordinal: ${day}`);
+                    }
+                    return { weekday, ordinal };
+                });
+                break;
+            case 'COUNT': {
+                const count = Number(value);
+                if (!Number.isInteger(count) || count < 1) {
+                    throw new Error('Recurrence count must be a positive integer');
+                }
+                rule.count = count;
+                break;
+            }
+            case 'UNTIL': {
+                // Accept YYYYMMDD, YYYYMMDDTHHMMSSZ and YYYY-MM-DD; only the date is kept
+                const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})(T\d{6}Z?)?$/);
+                const until = match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+                if (!isValidDateString(until)) {
+                    throw new Error(`Invalid recurrence end date: ${value}`);
+                }
+                rule.until = until;
+                break;
+            }
+            default:
+                throw new Error(`Unsupported recurrence rule part: ${key}`);
+        }
+    }
+
+    if (rule.count !== undefined && rule.until !== undefined) {
+        throw new Error('Recurrence rule cannot have both COUNT and UNTIL');
+    }
+
+    return rule;
+}
+
+/**
+ * Serializes a rule back into RRULE format
+ * @param rule - Recurrence rule
+ * @returns string - RRULE string without the "RRULE:" prefix
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+
+    if (rule.interval > 1) {
+        parts.push(`INTERVAL=${rule.interval}`);
+    }
+    if (rule.byDay.length > 0) {
+        parts.push(`BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`);
+    }
+    if (rule.count !== undefined) {
+        parts.push(`COUNT=${rule.count}`);
+    }
+    if (rule.until !== undefined) {
+        parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+    }
+
+    return parts.join(';');
+}
+
+// Candidate dates for one weekly period starting on the Monday `weekStart`
+function weeklyCandidates(weekStart: Date, days: RecurrenceDay[]): Date[] {
+    return days
+        .map((day) => addDays(weekStart, (WEEKDAYS.indexOf(day.weekday) + 6) % 7))
+        .sort((a, b) => a.getTime() - b.getTime());
+}
+
+// Candidate dates for one monthly period
+function monthlyCandidates(year: number, month: number, days: RecurrenceDay[], dayOfMonth: number): Date[] {
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    // Without BYDAY the series repeats on the start date's day of month; short months are skipped
+    if (days.length === 0) {
+        return dayOfMonth <= daysInMonth ? [new Date(Date.UTC(year, month, dayOfMonth))] : [];
+    }
+
+    const candidates: Date[] = [];
+    for (const day of days) {
+        const weekdayIndex = WEEKDAYS.indexOf(day.weekday);
+        const matches: Date[] = [];
+        for (let d = 1; d <= daysInMonth; d++) {
+            const date = new Date(Date.UTC(year, month, d));
+            if (date.getUTCDay() === weekdayIndex) {
+                matches.push(date);
+            }
+        }
+
+        if (day.ordinal === undefined) {
+            candidates.push(...matches);
+        } else {
+            const match = day.ordinal > 0 ? matches[day.ordinal - 1] : matches[matches.length + day.ordinal];
+            if (match) {
+                candidates.push(match);
+            }
+        }
+    }
+
+    // Remove duplicates (e.g. BYDAY=TU,2TU) and keep chronological order
+    return Array.from(new Set(candidates.map((date) => date.getTime())))
+        .sort((a, b) => a - b)
+        .map((time) => new Date(time));
+}
+
+/**
+ * Expands a rule into occurrence dates starting at the series start date
+ * COUNT is applied before exceptions are removed, as in RFC 5545
+ * @param rule - Recurrence rule
+ * @param startDate - First possible occurrence (YYYY-MM-DD)
+ * @param options.exdates - Dates to skip (YYYY-MM-DD)
+ * @param options.limit - Maximum number of dates to return
+ * @returns string[] - Occurrence dates in chronological order
+ */
+export function expandOccurrences(
+    rule: RecurrenceRule,
+    startDate: string,
+    options: { exdates?: string[]; limit?: number } = {}
+): string[] {
+    if (!isValidDateString(startDate)) {
+        throw new Error('Series start date must be in YYYY-MM-DD format');
+    }
+
+    const start = toUTCDate(startDate);
+    const until = rule.until ? toUTCDate(rule.until) : null;
+    const exdates = new Set(options.exdates || []);
+    const limit = options.limit ?? Infinity;
+
+    // Default BYDAY for weekly rules is the start date's weekday
+    const days = rule.freq === 'WEEKLY' && rule.byDay.length === 0
+        ? [{ weekday: WEEKDAYS[start.getUTCDay()] }]
+        : rule.byDay;
+
+    const occurrences: string[] = [];
+    let generated = 0;
+
+    for (let period = 0; period < MAX_PERIODS; period++) {
+        let candidates: Date[];
+
+        if (rule.freq === 'WEEKLY') {
+            // Weeks start on Monday (RFC 5545 default WKST)
+            const weekStart = addDays(start, -((start.getUTCDay() + 6) % 7) + period * rule.interval * 7);
+            candidates = weeklyCandidates(weekStart, days);
+        } else {
+            const monthIndex = start.getUTCMonth() + period * rule.interval;
+            candidates = monthlyCandidates(
+                start.getUTCFullYear() + Math.floor(monthIndex / 12),
+                monthIndex % 12,
+                days,
+                start.getUTCDate()
+            );
+        }
+
+        for (const candidate of candidates) {
+            if (candidate < start) continue;
+            if (until && candidate > until) return occurrences;
+            if (rule.count !== undefined && generated >= rule.count) return occurrences;
+
+            generated++;
+            const date = toDateString(candidate);
+            if (!exdates.has(date)) {
+                occurrences.push(date);
+                if (occurrences.length >= limit) return occurrences;
+            }
+        }
+    }
+
+    return occurrences;
+}
+
+/**
+ * Describes a rule in plain English, e.g. "Every 2 weeks on Tuesday, 10 times"
+ * @param rule - Recurrence rule
+ * @returns string - Human-readable description
+ */
+export function describeRRule(rule: RecurrenceRule): string {
+    const unit = rule.freq === 'WEEKLY' ? 'week' : 'month';
+    let description = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `${unit === 'week' ? 'Weekly' : 'Monthly'}`;
+
+    if (rule.byDay.length > 0) {
+        const days = rule.byDay.map((day) => day.ordinal !== undefined
+            ? `the ${ORDINAL_NAMES[day.ordinal]} ${WEEKDAY_NAMES[day.weekday]}`
+            : WEEKDAY_NAMES[day.weekday]);
+        description += ` on ${days.join(', ')}`;
+    }
+
+    if (rule.count !== undefined) {
+        description += `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'}`;
+    } else if (rule.until) {
+        description += `, until ${new Intl.DateTimeFormat('en-US', {
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric',
+            timeZone: 'UTC',
+        }).format(toUTCDate(rule.until))}`;
+    }
+
+    return description;
+}
@@ -0,0 +1,86 @@
+/**
+ * Custom registration questions asked when booking an event, e.g. company, t-shirt size or consent
+ * Shared by the event model, the question editor, the booking form and createBooking
+ */
+
+import { EVENT_CONSTANTS, RegistrationQuestionType } from '@/lib/constants';
+
+export interface RegistrationQuestion {
+    _id?: string;
+    label: string;
+    type: RegistrationQuestionType;
+    required: boolean;
+    options: string[]; // Choices of select and multiselect questions
+}
+
+export type RegistrationAnswerValue = string | string[] | boolean;
+
+// Answer stored on a booking, with the question label as it was asked
+export interface RegistrationAnswer {
+    questionId: string;
+    label: string;
+    value: RegistrationAnswerValue;
+}
+
+// Whether an answer counts as given; an unticked checkbox does not
+function hasAnswer(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'string') return value.trim() !== '';
+    return value === true;
+}
+
+/**
+ * Checks the answers to an event's registration questions
+ * Answers to unknown questions are dropped; required checkboxes must be ticked, e.g. for consent
+ * @param questions - Questions of the event
+ * @param values - Answers from the booking form keyed by question ID
+ * @returns The answers to store, and a message for each problem found
+ */
+export function validateRegistrationAnswers(
+    questions: RegistrationQuestion[],
+    values: Record<string, unknown> = {}
+): { answers: RegistrationAnswer[]; errors: string[] } {
+    const answers: RegistrationAnswer[] = [];
+    const errors: string[] = [];
+
+    for (const question of questions) {
+        const questionId = question._id?.toString() || '';
+        const value = values[questionId];
+
+        if (!hasAnswer(value)) {
+            if (question.required) {
+                errors.push(`"${question.label}" is required`);
+            }
+            continue;
+        }
+
+        switch (question.type) {
+            case 'text':
+                if (typeof value !== 'string' || value.trim().length > EVENT_CONSTANTS.MAX_ANSWER_LENGTH) {
+                    errors.push(`"${question.label}" must be at most ${EVENT_CONSTANTS.MAX_ANSWER_LENGTH} characters`);
+                    continue;
+                }
+                answers.push({ questionId, label: question.label, value: value.trim() });
+                break;
+            case 'select':
+                if (typeof value !== 'string' || !question.options.includes(value)) {
+                    errors.push(`Please choose one of the options for "${question.label}"`);
+                    continue;
+                }
+                answers.push({ questionId, label: question.label, value });
+                break;
+            case 'multiselect':
+                if (!Array.isArray(value) || value.some((option) => !question.options.includes(option))) {
+                    errors.push(`Please choose from the options for "${question.label}"`);
+                    continue;
+                }
+                answers.push({ questionId, label: question.label, value: Array.from(new Set(value as string[])) });
+                break;
+            case 'checkbox':
+                answers.push({ questionId, label: question.label, value: true });
+                break;
+        }
+    }
+
+    return { answers, errors };
+}
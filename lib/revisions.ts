@@ -0,0 +1,122 @@
+/**
+ * Field-level diffs for the event revision history
+ * Shared by the Event model, which records the changes on save, and the history page that renders them
+ */
+
+import { EDITABLE_EVENT_FIELDS } from '@/lib/event-form';
+
+// Event fields whose changes are recorded
+export const REVISION_FIELDS: readonly string[] = [...EDITABLE_EVENT_FIELDS, 'image'];
+
+export interface RevisionChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+// Display names for fields whose name does not read well on its own
+const FIELD_LABELS: Record<string, string> = {
+    venueId: 'Saved venue',
+    endDate: 'End date',
+    endTime: 'End time',
+    ticketTypes: 'Tickets',
+    registrationUrl: 'Registration URL',
+    statusNote: 'Status note',
+};
+
+/**
+ * Converts a document value into plain JSON for storing in a revision
+ * ObjectIds and dates become strings, missing values become null
+ */
+function toRevisionValue(value: unknown): unknown {
+    return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+// Empty strings, empty lists and missing values all count as "not set"
+function isEmptyValue(value: unknown): boolean {
+    return value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Picks the recorded fields of an event as plain JSON
+ * @param event - Plain event object, e.g. from toObject()
+ * @returns Record<string, unknown> - Recorded fields keyed by name
+ */
+export function getRevisionSnapshot(event: Record<string, any>): Record<string, unknown> {
+    return Object.fromEntries(REVISION_FIELDS.map((field) => [field, toRevisionValue(event[field])]));
+}
+
+/**
+ * Lists the recorded fields that differ between two snapshots
+ * @param before - Snapshot from getRevisionSnapshot before the change
+ * @param after - Snapshot from getRevisionSnapshot after the change
+ * @returns RevisionChange[] - Changed fields with their old and new values
+ */
+export function diffRevisionSnapshots(before: Record<string, unknown>, after: Record<string, unknown>): RevisionChange[] {
+    return REVISION_FIELDS
+        .filter((field) => {
+            if (isEmptyValue(before[field]) && isEmptyValue(after[field])) return false;
+            return JSON.stringify(before[field]) !== JSON.stringify(after[field]);
+        })
+        .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * Returns the display name of a recorded field, e.g. "Registration URL" for registrationUrl
+ */
+export function getRevisionFieldLabel(field: string): string {
+    if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+
+    const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Formats a recorded value for the history view
+ * Lists of sessions and tickets show their titles and names; speaker lists only their size,
+ * since revisions store speaker IDs, and galleries their number of photos
+ * @param field - Recorded field name
+ * @param value - Value stored in the revision
+ * @returns string - Readable value, "—" when not set
+ */
+export function formatRevisionValue(field: string, value: unknown): string {
+    if (isEmptyValue(value)) return '—';
+
+    if (Array.isArray(value)) {
+        if (field === 'speakers') {
+            return `${value.length} speaker${value.length === 1 ? '' : 's'}`;
+        }
+
+        if (field === 'gallery') {
+            return `${value.length} photo${value.length === 1 ? '' : 's'}`;
+        }
+
+        return value
+            .map((item) => typeof item === 'object' && item !== null
+                ? (item as Record<string, any>).title || (item as Record<string, any>).name || JSON.stringify(item)
+                : String(item))
+            .join(', ');
+    }
+
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Works out the field values that undo a set of revisions
+ * @param laterRevisions - Revisions made after the one being reverted to, in any order
+ * @returns Record<string, unknown> - Field values as they were right after the earlier revision
+ */
+export function getRevertValues(laterRevisions: { revision: number; changes: RevisionChange[] }[]): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+
+    // Walk from newest to oldest so the oldest "before" value of each field wins
+    [...laterRevisions]
+        .sort((a, b) => b.revision - a.revision)
+        .forEach(({ changes }) => {
+            changes.forEach(({ field, before }) => {
+                values[field] = before;
+            });
+        });
+
+    return values;
+}
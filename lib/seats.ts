@@ -0,0 +1,86 @@
+/**
+ * Atomic seat allocation for bookings
+ * Each event counts its taken seats in seatsTaken, and per ticket type in ticketsSold
+ * Confirmed bookings take a seat, as do bookings holding one while their email is verified
+ * A seat is taken with a single conditional update that only matches while the event and the
+ * ticket type still have room, so concurrent bookings for the last seat cannot oversell it
+ */
+
+import { Types } from 'mongoose';
+import Event, { IEvent } from '@/database/event.model';
+import { TicketType } from '@/lib/tickets';
+
+export type SeatReservation = 'reserved' | 'event-full' | 'ticket-sold-out';
+
+/**
+ * Takes seats for confirmed bookings if the event and ticket type have room for all of them
+ * @param event - Event being booked, with its capacity and ticket types
+ * @param ticketTypeId - Ticket type being booked, for events with ticket types
+ * @param count - Number of seats to take together
+ * @returns Promise<SeatReservation> - 'reserved', or which limit stopped the reservation
+ */
+export async function reserveSeats(
+    event: Pick<IEvent, '_id' | 'ticketTypes'>,
+    ticketTypeId?: string | Types.ObjectId,
+    count: number = 1
+): Promise<SeatReservation> {
+    const ticketKey = ticketTypeId ? `ticketsSold.${ticketTypeId.toString()}` : null;
+    const quantity = ticketTypeId
+        ? event.ticketTypes.find((ticket: TicketType) => ticket._id?.toString() === ticketTypeId.toString())?.quantity
+        : undefined;
+
+    // Capacity is read inside the update, so a capacity changed in the meantime still holds
+    const filter: Record<string, any> = {
+        _id: event._id,
+        $expr: {
+            $or: [
+                { $not: ['$capacity'] },
+                { $lte: [{ $add: [{ $ifNull: ['$seatsTaken', 0] }, count] }, '$capacity'] },
+            ],
+        },
+    };
+    if (ticketKey && quantity) {
+        filter[ticketKey] = { $not: { $gt: quantity - count } };
+    }
+
+    const { modifiedCount } = await Event.updateOne(
+        filter,
+        { $inc: { seatsTaken: count, ...(ticketKey ? { [ticketKey]: count } : {}) } },
+        { timestamps: false }
+    );
+
+    if (modifiedCount === 1) {
+        return 'reserved';
+    }
+
+    // Work out which limit was reached, for the message shown to the attendee
+    if (ticketTypeId && quantity) {
+        const counters = await Event.findById(event._id).select('ticketsSold');
+        const sold = counters?.ticketsSold?.get(ticketTypeId.toString()) || 0;
+        if (sold + count > quantity) {
+            return 'ticket-sold-out';
+        }
+    }
+
+    return 'event-full';
+}
+
+/**
+ * Gives back seats taken by reserveSeats, e.g. when a booking is cancelled or could not be saved
+ * @param eventId - Event the seats belong to
+ * @param ticketTypeId - Ticket type the seats were taken for, if any
+ * @param count - Number of seats to give back
+ */
+export async function releaseSeats(
+    eventId: string | Types.ObjectId,
+    ticketTypeId?: string | Types.ObjectId,
+    count: number = 1
+): Promise<void> {
+    const ticketKey = ticketTypeId ? `ticketsSold.${ticketTypeId.toString()}` : null;
+
+    await Event.updateOne(
+        { _id: eventId },
+        { $inc: { seatsTaken: -count, ...(ticketKey ? { [ticketKey]: -count } : {}) } },
+        { timestamps: false }
+    );
+}
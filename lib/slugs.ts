@@ -0,0 +1,49 @@
+/**
+ * Collision-free slugs for events and series
+ * Each base slug has a counter that is incremented atomically, so concurrent submissions with
+ * the same title are handed different slugs: "react-meetup", "react-meetup-2", "react-meetup-3"
+ */
+
+import SlugCounter from '@/database/slug-counter.model';
+
+// Counter values tried before giving up, in case older documents already hold the suffixed slugs
+const MAX_SLUG_ATTEMPTS = 20;
+
+/**
+ * Checks whether a slug is the base slug or the base slug with a counter suffix
+ * @param slug - Slug to check
+ * @param base - Base slug from generateSlug or generateEventSlug
+ */
+export function isSlugVariant(slug: string, base: string): boolean {
+    return slug === base || (slug.startsWith(`${base}-`) && /^\d+$/.test(slug.slice(base.length + 1)));
+}
+
+/**
+ * Reserves the next free slug for a base slug
+ * @param scope - Kind of document the slug is for, e.g. "event"
+ * @param base - Base slug from generateSlug or generateEventSlug
+ * @param isTaken - Checks whether another document already uses a slug
+ * @returns Promise<string> - The base slug for its first use, then the base slug with a counter suffix
+ * @throws Error if no free slug was found
+ */
+export async function reserveSlug(
+    scope: string,
+    base: string,
+    isTaken: (slug: string) => Promise<boolean>
+): Promise<string> {
+    for (let attempt = 0; attempt < MAX_SLUG_ATTEMPTS; attempt++) {
+        const counter = await SlugCounter.findOneAndUpdate(
+            { _id: `${scope}:${base}` },
+            { $inc: { seq: 1 } },
+            { upsert: true, new: true }
+        );
+        const slug = counter.seq === 1 ? base : `${base}-${counter.seq}`;
+
+        // Slugs given out before counters existed, or taken by titles ending in a number, are skipped
+        if (!(await isTaken(slug))) {
+            return slug;
+        }
+    }
+
+    throw new Error(`Could not reserve a slug for '${base}'`);
+}
@@ -0,0 +1,55 @@
+/**
+ * Ticket types sold for an event, e.g. early-bird, regular, student and sponsor tickets
+ * Shared by the event model, the ticket editor, booking and event listings
+ */
+
+import { TicketVisibility } from '@/lib/constants';
+
+export interface TicketType {
+    _id?: string;
+    name: string;
+    price: number;
+    currency: string; // ISO 4217 code, e.g. "USD"
+    quantity?: number; // Tickets available of this type; unlimited when omitted
+    saleStart?: string | Date;
+    saleEnd?: string | Date;
+    visibility: TicketVisibility;
+}
+
+export type TicketSaleState = 'upcoming' | 'on-sale' | 'ended';
+
+/**
+ * Works out whether a ticket type can be bought at a given moment
+ * @param ticket - Ticket type with optional sale window
+ * @param now - Moment to check, defaults to now
+ * @returns TicketSaleState - Before, within or after the sale window
+ */
+export function getTicketSaleState(ticket: Pick<TicketType, 'saleStart' | 'saleEnd'>, now: Date = new Date()): TicketSaleState {
+    if (ticket.saleStart && new Date(ticket.saleStart) > now) return 'upcoming';
+    if (ticket.saleEnd && new Date(ticket.saleEnd) <= now) return 'ended';
+    return 'on-sale';
+}
+
+/**
+ * Lists the ticket types offered publicly, plus a hidden one reached through its direct link
+ * @param ticketTypes - All ticket types of the event
+ * @param unlockedId - ID of a hidden ticket type from a direct link
+ */
+export function getVisibleTicketTypes<T extends TicketType>(ticketTypes: T[] | undefined, unlockedId?: string | null): T[] {
+    return (ticketTypes || []).filter((ticket) =>
+        ticket.visibility !== 'hidden' || (!!unlockedId && ticket._id?.toString() === unlockedId));
+}
+
+/**
+ * Finds the cheapest public ticket, for "from $X" prices in listings
+ * @param ticketTypes - All ticket types of the event
+ * @returns The lowest price and its currency, or null when no ticket type is public
+ */
+export function getLowestTicketPrice(ticketTypes: TicketType[] | undefined): { price: number; currency: string } | null {
+    return getVisibleTicketTypes(ticketTypes).reduce<{ price: number; currency: string } | null>(
+        (lowest, ticket) => !lowest || ticket.price < lowest.price
+            ? { price: ticket.price, currency: ticket.currency }
+            : lowest,
+        null
+    );
+}
@@ -0,0 +1,186 @@
+/**
+ * Timezone helpers built on the Intl API
+ * Converts event wall-clock times (date, time, IANA timezone) into UTC instants
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks whether a string is an IANA timezone known to the runtime
+ * @param timeZone - Timezone name, e.g. "Asia/Kolkata"
+ * @returns boolean - True if the timezone can be used with Intl
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    if (!timeZone) return false;
+
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Offset in milliseconds between the wall-clock time in timeZone and UTC at the given instant
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    }).formatToParts(instant);
+
+    const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+    const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+
+    return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock date and time in a timezone into a UTC instant
+ * Times skipped when clocks go forward move forward by the length of the gap (02:30 becomes 03:30),
+ * and times repeated when clocks go back resolve to their first occurrence, before the change
+ * @param date - Date in YYYY-MM-DD format
+ * @param time - Time in HH:MM format (24-hour)
+ * @param timeZone - IANA timezone of the wall-clock time
+ * @returns Date - The corresponding instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+    // Offsets a day either side; they differ only when a DST change lies around the time
+    const offsetBefore = getTimeZoneOffset(new Date(wallClock - DAY_MS), timeZone);
+    const offsetAfter = getTimeZoneOffset(new Date(wallClock + DAY_MS), timeZone);
+
+    // With the earlier offset the instant is the first occurrence of a repeated time
+    const beforeChange = wallClock - offsetBefore;
+    if (getTimeZoneOffset(new Date(beforeChange), timeZone) === offsetBefore) {
+        return new Date(beforeChange);
+    }
+
+    const afterChange = wallClock - offsetAfter;
+    if (getTimeZoneOffset(new Date(afterChange), timeZone) === offsetAfter) {
+        return new Date(afterChange);
+    }
+
+    // Neither offset fits, so the time falls in a gap; the earlier offset lands past it by the gap's length
+    return new Date(beforeChange);
+}
+
+/**
+ * Returns the calendar date of an instant in a timezone
+ * @param timeZone - IANA timezone
+ * @param instant - Moment to convert, defaults to now
+ * @returns string - Date in YYYY-MM-DD format
+ */
+export function getDateInTimeZone(timeZone: string, instant: Date = new Date()): string {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+    }).format(instant);
+}
+
+/**
+ * Returns the wall-clock time of an instant in a timezone
+ * @param timeZone - IANA timezone
+ * @param instant - Moment to convert, defaults to now
+ * @returns string - Time in HH:MM format (24-hour)
+ */
+export function getTimeInTimeZone(timeZone: string, instant: Date = new Date()): string {
+    return new Intl.DateTimeFormat('en-GB', {
+        timeZone,
+        hourCycle: 'h23',
+        hour: '2-digit',
+        minute: '2-digit',
+    }).format(instant);
+}
+
+/**
+ * Returns the timezone of the current runtime (the viewer's timezone in the browser)
+ */
+export function getLocalTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Adds days to a calendar date
+ * @param date - Date in YYYY-MM-DD format
+ * @param days - Number of days to add, may be negative
+ * @returns string - Resulting date in YYYY-MM-DD format
+ */
+export function addCalendarDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().split('T')[0];
+}
+
+/**
+ * Counts the calendar days from one date to another
+ * @param from - Date in YYYY-MM-DD format
+ * @param to - Date in YYYY-MM-DD format
+ * @returns number - Days between the dates, negative if to is before from
+ */
+export function calendarDaysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Computes the UTC start and end instants of an event
+ * Without an end time, the event lasts until the end of its last local day
+ * @param date - Start date in YYYY-MM-DD format
+ * @param time - Start time in HH:MM format
+ * @param timeZone - IANA timezone of the event
+ * @param endDate - Last day in YYYY-MM-DD format, defaults to the start date
+ * @param endTime - End time in HH:MM format on the last day
+ * @returns { startsAt: Date; endsAt: Date }
+ */
+export function computeEventInstants(date: string, time: string, timeZone: string, endDate?: string, endTime?: string) {
+    const startsAt = zonedTimeToUtc(date, time, timeZone);
+    const lastDay = endDate || date;
+
+    // Without an end time, stop one millisecond before midnight after the last day
+    const endsAt = endTime
+        ? zonedTimeToUtc(lastDay, endTime, timeZone)
+        : new Date(zonedTimeToUtc(addCalendarDays(lastDay, 1), '00:00', timeZone).getTime() - 1);
+
+    return { startsAt, endsAt };
+}
+
+/**
+ * Lists the IANA timezones known to the runtime, for timezone pickers
+ * Falls back to a short list on runtimes without Intl.supportedValuesOf
+ */
+export function getSupportedTimeZones(): string[] {
+    const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+    if (typeof intl.supportedValuesOf === 'function') {
+        return [DEFAULT_TIMEZONE, ...intl.supportedValuesOf('timeZone').filter((timeZone) => timeZone !== DEFAULT_TIMEZONE)];
+    }
+
+    return [
+        DEFAULT_TIMEZONE,
+        'America/Los_Angeles',
+        'America/Chicago',
+        'America/New_York',
+        'America/Sao_Paulo',
+        'Europe/London',
+        'Europe/Berlin',
+        'Africa/Lagos',
+        'Africa/Johannesburg',
+        'Asia/Dubai',
+        'Asia/Kolkata',
+        'Asia/Singapore',
+        'Asia/Tokyo',
+        'Australia/Sydney',
+    ];
+}
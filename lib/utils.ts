@@ -37,29 +37,104 @@ export function formatDate(
         throw new Error('Invalid date provided');
     }
 
-    return new Intl.DateTimeFormat('en-US', options).format(date);
+    // Calendar dates (YYYY-MM-DD) parse as UTC midnight, so render them in UTC to keep the same day
+    const isCalendarDate = typeof dateString === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(dateString);
+
+    return new Intl.DateTimeFormat('en-US', {
+        ...(isCalendarDate ? { timeZone: 'UTC' } : {}),
+        ...options,
+    }).format(date);
+}
+
+/**
+ * Formats the dates of a possibly multi-day event, e.g. "Mar 3 – Mar 5"
+ * @param startDate - First day in YYYY-MM-DD format
+ * @param endDate - Last day in YYYY-MM-DD format; single-day events omit it
+ * @param options - Intl.DateTimeFormatOptions applied to both dates
+ * @returns string - Single date or date range
+ */
+export function formatDateRange(
+    startDate: string,
+    endDate?: string,
+    options?: Intl.DateTimeFormatOptions
+): string {
+    if (!endDate || endDate === startDate) {
+        return formatDate(startDate, options);
+    }
+
+    return `${formatDate(startDate, options)} – ${formatDate(endDate, options)}`;
 }
 
 /**
- * Formats time string to 12-hour format with AM/PM
- * @param timeString - Time in HH:MM format (24-hour)
+ * Formats a time in 12-hour format with AM/PM
+ * Wall-clock times (HH:MM) are shown as entered; instants are shown in the given timezone
+ * @param time - Time in HH:MM format (24-hour), or a Date / ISO string instant
+ * @param options.timeZone - Timezone to render instants in, defaults to the runtime's timezone
+ * @param options.showTimeZone - Appends the timezone abbreviation, e.g. "6:00 PM GMT+5:30"
  * @returns string - Formatted time in 12-hour format
  */
-export function formatTime(timeString: string): string {
-    const [hours, minutes] = timeString.split(':').map(Number);
+export function formatTime(
+    time: string | Date,
+    options: { timeZone?: string; showTimeZone?: boolean } = {}
+): string {
+    if (typeof time === 'string' && /^\d{1,2}:\d{2}$/.test(time)) {
+        const [hours, minutes] = time.split(':').map(Number);
+
+        if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) {
+            throw new Error('Invalid time format');
+        }
+
+        const period = hours >= 12 ? 'PM' : 'AM';
+        const twelveHour = hours % 12 || 12;
+        const formatted = `${twelveHour}:${minutes.toString().padStart(2, '0')} ${period}`;
+
+        if (!options.showTimeZone || !options.timeZone) {
+            return formatted;
+        }
 
-    if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) {
+        return `${formatted} ${getTimeZoneAbbreviation(options.timeZone)}`;
+    }
+
+    const instant = typeof time === 'string' ? new Date(time) : time;
+
+    if (isNaN(instant.getTime())) {
         throw new Error('Invalid time format');
     }
 
-    const period = hours >= 12 ? 'PM' : 'AM';
-    const twelveHour = hours % 12 || 12;
+    return new Intl.DateTimeFormat('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZone: options.timeZone,
+        timeZoneName: options.showTimeZone ? 'short' : undefined,
+    }).format(instant);
+}
 
-    return `${twelveHour}:${minutes.toString().padStart(2, '0')} ${period}`;
+/**
+ * Returns the short name of a timezone, e.g. "PST" or "GMT+5:30"
+ * @param timeZone - IANA timezone
+ * @param instant - Moment to evaluate, since abbreviations change with DST
+ * @returns string - Timezone abbreviation
+ */
+export function getTimeZoneAbbreviation(timeZone: string, instant: Date = new Date()): string {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(instant);
+    return parts.find((part) => part.type === 'timeZoneName')?.value || timeZone;
+}
+
+/**
+ * Formats a ticket price in its currency, e.g. "$25.00" or "€40.00"
+ * @param price - Amount in major units
+ * @param currency - ISO 4217 currency code
+ * @returns string - Formatted price, or "Free" for zero
+ */
+export function formatPrice(price: number, currency: string): string {
+    if (price === 0) return 'Free';
+
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(price);
 }
 
 /**
  * Generates a URL-friendly slug from any string
+ * Used by the models and by client previews, so both produce the same slug
  * @param text - Input text to convert to slug
  * @returns string - URL-friendly slug
  */
@@ -72,6 +147,17 @@ export function generateSlug(text: string): string {
         .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
 }
 
+/**
+ * Generates the slug an event asks for before de-duplication
+ * Series occurrences share a title, so their slugs carry the occurrence date
+ * @param title - Event title
+ * @param occurrenceDate - Date of a series occurrence in YYYY-MM-DD format
+ * @returns string - Base slug; taken slugs get a counter suffix when saved
+ */
+export function generateEventSlug(title: string, occurrenceDate?: string): string {
+    return [generateSlug(title) || 'event', occurrenceDate].filter(Boolean).join('-');
+}
+
 /**
  * Validates email format using comprehensive regex
  * @param email - Email address to validate
@@ -82,6 +168,16 @@ export function isValidEmail(email: string): boolean {
     return emailRegex.test(email);
 }
 
+/**
+ * Escapes user input for use inside a regular expression
+ * Search terms are matched literally, so characters such as "(" cannot break or slow down the query
+ * @param value - Text as entered by the user
+ * @returns string - Pattern matching the text literally
+ */
+export function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 /**
  * Debounce function for limiting function execution frequency
  * @param func - Function to debounce
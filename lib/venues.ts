@@ -0,0 +1,35 @@
+/**
+ * Links events to Venue documents
+ * Events copy their venue's name, address and coordinates so listings and distance
+ * searches work without a lookup
+ */
+
+import { isValidObjectId } from 'mongoose';
+import Venue, { IVenue } from '@/database/venue.model';
+
+/**
+ * Fills an event's venue fields from a venue picked on the event form
+ * Online events keep their free-text venue (e.g. the platform name) and get no venue
+ * @param eventData - Event fields from the form; venueId is read and the venue fields are written
+ * @param mode - Event mode, when the form data may not include it
+ * @returns string | null - Error message, or null when the venue was applied or none was picked
+ */
+export async function applyEventVenue(eventData: Record<string, any>, mode: string = eventData.mode): Promise<string | null> {
+    if (!eventData.venueId || mode === 'online') {
+        return null;
+    }
+
+    const venue: IVenue | null = isValidObjectId(eventData.venueId)
+        ? await Venue.findById(eventData.venueId)
+        : null;
+
+    if (!venue) {
+        return 'Selected venue not found';
+    }
+
+    eventData.venue = venue.name;
+    eventData.location = [venue.address, venue.city, venue.country].filter(Boolean).join(', ');
+    eventData.geo = venue.location;
+
+    return null;
+}
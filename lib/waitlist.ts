@@ -0,0 +1,193 @@
+/**
+ * Event waitlists
+ * Bookings made while an event is full are waitlisted in FIFO order; organizers may reorder them
+ * When a seat frees up, the first waitlisted bookings that fit are confirmed and their attendees notified
+ * Events requiring email verification only confirm verified attendees; the others get a seat hold to verify
+ */
+
+import { Types } from 'mongoose';
+import Booking, { IBooking } from '@/database/booking.model';
+import Event from '@/database/event.model';
+import { activeEventFilter } from '@/lib/event-filters';
+import { sendNotification } from '@/lib/notifications';
+import { releaseSeats, reserveSeats } from '@/lib/seats';
+import { issueManageUrl } from '@/lib/booking-tokens';
+import { releasePromoCode } from '@/lib/promo-codes';
+import { getSeatHoldExpiry, requestEmailVerification } from '@/lib/email-verification';
+
+/**
+ * Picks the waitlist position for a new waitlisted booking
+ * Bookings that join at the same moment may share a position; they are then ordered by creation time
+ * @param eventId - Event being booked
+ * @returns Promise<number> - One past the last position in the event's waitlist
+ */
+export async function getNextWaitlistPosition(eventId: string | Types.ObjectId): Promise<number> {
+    const last = await Booking.findOne({ eventId, status: 'waitlisted' })
+        .sort({ waitlistPosition: -1 })
+        .select('waitlistPosition')
+        .lean<{ waitlistPosition?: number }>();
+
+    return (last?.waitlistPosition || 0) + 1;
+}
+
+/**
+ * Works out how many people are ahead of a booking in its event's waitlist
+ * @param booking - Waitlisted booking
+ * @returns Promise<number> - 1 for the first booking in line
+ */
+export async function getWaitlistRank(booking: Pick<IBooking, 'eventId' | 'waitlistPosition' | 'createdAt'>): Promise<number> {
+    const ahead = await Booking.countDocuments({
+        eventId: booking.eventId,
+        status: 'waitlisted',
+        $or: [
+            { waitlistPosition: { $lt: booking.waitlistPosition } },
+            { waitlistPosition: booking.waitlistPosition, createdAt: { $lt: booking.createdAt } },
+        ],
+    });
+
+    return ahead + 1;
+}
+
+/**
+ * Lists an event's waitlisted bookings in the order they will be promoted
+ * @param eventId - Event whose waitlist to read
+ * @returns Promise<IBooking[]> - Waitlisted bookings, first in line first
+ */
+export async function getWaitlist(eventId: string | Types.ObjectId): Promise<IBooking[]> {
+    return Booking.find({ eventId, status: 'waitlisted' }).sort({ waitlistPosition: 1, createdAt: 1 });
+}
+
+/**
+ * Puts an event's waitlist in a new order
+ * @param eventId - Event whose waitlist to reorder
+ * @param bookingIds - Every waitlisted booking ID, first in line first
+ * @returns Promise<boolean> - False if the IDs do not match the current waitlist exactly
+ */
+export async function reorderWaitlist(eventId: string | Types.ObjectId, bookingIds: string[]): Promise<boolean> {
+    const waitlist = await getWaitlist(eventId);
+    const waitlistedIds = new Set(waitlist.map((booking) => booking._id.toString()));
+
+    const isSameWaitlist = bookingIds.length === waitlistedIds.size
+        && new Set(bookingIds).size === bookingIds.length
+        && bookingIds.every((id) => waitlistedIds.has(id));
+    if (!isSameWaitlist) {
+        return false;
+    }
+
+    await Booking.bulkWrite(bookingIds.map((id, index) => ({
+        updateOne: {
+            filter: { _id: id, status: 'waitlisted' },
+            update: { $set: { waitlistPosition: index + 1 } },
+        },
+    })));
+
+    return true;
+}
+
+/**
+ * Confirms waitlisted bookings while the event has free seats
+ * Bookings for a sold-out ticket type keep their place until a ticket of that type frees up,
+ * so the next bookings in line can move ahead of them
+ * Each promoted attendee is notified
+ * On events requiring email verification, attendees who have not verified yet are given a seat hold
+ * and a verification link instead of a confirmed booking
+ * @param eventId - Event that may have free seats, e.g. after a cancellation
+ * @returns Promise<IBooking[]> - Bookings that were confirmed or given a seat hold
+ */
+export async function promoteFromWaitlist(eventId: string | Types.ObjectId): Promise<IBooking[]> {
+    const event = await Event.findOne({ _id: eventId, ...activeEventFilter() });
+    if (!event || event.status !== 'published') {
+        return [];
+    }
+
+    const waitlist = await getWaitlist(event._id);
+    if (waitlist.length === 0) {
+        return [];
+    }
+
+    const promoted: IBooking[] = [];
+
+    for (const candidate of waitlist) {
+        const reservation = await reserveSeats(event, candidate.ticketTypeId);
+        if (reservation === 'event-full') break;
+        if (reservation === 'ticket-sold-out') continue;
+
+        const needsVerification = event.requireEmailVerification && !candidate.emailVerifiedAt;
+        const holdExpiresAt = getSeatHoldExpiry();
+
+        // The attendee may have cancelled in the meantime
+        const booking: IBooking | null = await Booking.findOneAndUpdate(
+            { _id: candidate._id, status: 'waitlisted' },
+            needsVerification
+                ? { $set: { status: 'pending_verification', verificationExpiresAt: holdExpiresAt }, $unset: { waitlistPosition: 1 } }
+                : { $set: { status: 'confirmed' }, $unset: { waitlistPosition: 1 } },
+            { new: true }
+        );
+        if (!booking) {
+            await releaseSeats(event._id, candidate.ticketTypeId);
+            continue;
+        }
+
+        promoted.push(booking);
+
+        if (needsVerification) {
+            await requestEmailVerification(booking, event, holdExpiresAt);
+            continue;
+        }
+
+        const manageUrl = issueManageUrl(booking._id, event.endsAt);
+        await sendNotification({
+            to: booking.email,
+            subject: `You're in: ${event.title}`,
+            text: `Hi ${booking.fullName}, a seat has opened up for ${event.title} and your booking is now confirmed. `
+                + `Event details: ${process.env.NEXT_PUBLIC_BASE_URL || ''}/events/${event.slug}`
+                + (manageUrl ? ` View, update or cancel your booking here: ${manageUrl}` : ''),
+        });
+    }
+
+    if (promoted.length > 0) {
+        console.log(`🎟️ Promoted ${promoted.length} waitlisted booking(s) for ${event.slug}`);
+    }
+
+    return promoted;
+}
+
+/**
+ * Removes unverified bookings whose seat hold has expired
+ * Their seats and promo code uses are given back, and the freed seats offered to the waitlist
+ * Runs before each booking of the event, and for every event from the booking holds cron job
+ * @param eventId - Event whose holds to check; all events when left out
+ * @returns Promise<IBooking[]> - Bookings that were removed
+ */
+export async function releaseExpiredHolds(eventId?: string | Types.ObjectId): Promise<IBooking[]> {
+    const now = new Date();
+    const expiredFilter = { status: 'pending_verification', verificationExpiresAt: { $lte: now } };
+    const expired = await Booking.find({ ...(eventId ? { eventId } : {}), ...expiredFilter }).select('_id');
+
+    const released: IBooking[] = [];
+    const eventIds = new Set<string>();
+
+    for (const { _id } of expired) {
+        // The attendee may have verified or cancelled in the meantime
+        const booking: IBooking | null = await Booking.findOneAndDelete({ _id, ...expiredFilter });
+        if (!booking) continue;
+
+        released.push(booking);
+        eventIds.add(booking.eventId.toString());
+
+        await releaseSeats(booking.eventId, booking.ticketTypeId);
+        if (booking.promoCode) {
+            await releasePromoCode(booking.eventId, booking.promoCode);
+        }
+    }
+
+    for (const id of eventIds) {
+        await promoteFromWaitlist(id);
+    }
+
+    if (released.length > 0) {
+        console.log(`⌛ Released ${released.length} expired seat hold(s)`);
+    }
+
+    return released;
+}
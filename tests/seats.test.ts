@@ -0,0 +1,156 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose, { Types } from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import Event from '@/database/event.model';
+import Booking from '@/database/booking.model';
+import { API_MESSAGES } from '@/lib/constants';
+import type { TicketType } from '@/lib/tickets';
+
+/**
+ * Booking actions under many parallel requests for the last seats
+ * Runs against TEST_MONGODB_URI when set, otherwise against an in-memory MongoDB; without either
+ * (e.g. offline, where the MongoDB binary cannot be downloaded) the tests are skipped
+ */
+
+const ATTEMPTS = 25;
+
+let server: MongoMemoryServer | undefined;
+let skipReason: string | undefined;
+let actions: typeof import('@/lib/actions/booking.actions');
+const eventIds: Types.ObjectId[] = [];
+
+// revalidatePath needs the store Next sets up around each server action
+Object.assign(fetch, { __nextGetStaticStore: () => ({ getStore: () => ({ incrementalCache: {} }) }) });
+
+// Runs a test only once a database is available
+function dbTest(name: string, fn: () => Promise<void>) {
+    it(name, async (t) => {
+        if (skipReason) {
+            t.skip(skipReason);
+            return;
+        }
+        await fn();
+    });
+}
+
+/**
+ * Inserts a published event straight into the collection, skipping the slug and date hooks of save()
+ */
+async function insertEvent(capacity: number, ticketTypes: TicketType[] = []): Promise<Types.ObjectId> {
+    const _id = new Types.ObjectId();
+    eventIds.push(_id);
+
+    await Event.collection.insertOne({
+        _id,
+        title: 'Seat concurrency test',
+        slug: `seat-concurrency-test-${_id}`,
+        status: 'published',
+        capacity,
+        seatsTaken: 0,
+        ticketTypes: ticketTypes.map((ticket) => ({ ...ticket, _id: new Types.ObjectId(ticket._id) })),
+        ticketsSold: {},
+    });
+
+    return _id;
+}
+
+// Fires every booking attempt for the event at once
+function bookInParallel(eventId: Types.ObjectId, ticketTypeId?: string) {
+    return Promise.all(Array.from({ length: ATTEMPTS }, (_, index) => actions.createBooking({
+        eventId: eventId.toString(),
+        email: `attendee${index}@example.com`,
+        fullName: `Attendee ${index}`,
+        ticketTypeId,
+    })));
+}
+
+// Reads the event's seat counters and its confirmed bookings
+async function getCounters(eventId: Types.ObjectId) {
+    const event = await Event.collection.findOne<{ seatsTaken: number; ticketsSold: Record<string, number> }>({ _id: eventId });
+    const confirmed = await Booking.countDocuments({ eventId, status: 'confirmed' });
+
+    return { seatsTaken: event?.seatsTaken, ticketsSold: event?.ticketsSold || {}, confirmed };
+}
+
+before(async () => {
+    let uri = process.env.TEST_MONGODB_URI;
+
+    if (!uri) {
+        try {
+            server = await MongoMemoryServer.create();
+            uri = server.getUri('seat-concurrency-test');
+        } catch {
+            skipReason = 'no MongoDB available; set TEST_MONGODB_URI to run these tests';
+            return;
+        }
+    }
+
+    // lib/mongodb reads MONGODB_URI when it is first imported
+    process.env.MONGODB_URI = uri;
+    const { default: connectDB } = await import('@/lib/mongodb');
+    await connectDB();
+    actions = await import('@/lib/actions/booking.actions');
+});
+
+after(async () => {
+    if (mongoose.connection.readyState === 1) {
+        await Booking.deleteMany({ eventId: { $in: eventIds } });
+        await Event.collection.deleteMany({ _id: { $in: eventIds } });
+        await mongoose.disconnect();
+    }
+    await server?.stop();
+});
+
+describe('createBooking', () => {
+    dbTest('never confirms more bookings than the event capacity', async () => {
+        const eventId = await insertEvent(5);
+
+        const results = await bookInParallel(eventId);
+        const { seatsTaken, confirmed } = await getCounters(eventId);
+
+        // Everyone past the capacity joins the waitlist instead
+        assert.ok(results.every((result) => result.success));
+        assert.equal(results.filter((result) => result.message === API_MESSAGES.SUCCESS.WAITLIST_JOINED).length, ATTEMPTS - 5);
+        assert.equal(confirmed, 5);
+        assert.equal(seatsTaken, confirmed);
+    });
+
+    dbTest('never sells more tickets of a type than its quantity', async () => {
+        const ticketId = new Types.ObjectId().toString();
+        const eventId = await insertEvent(10, [
+            { _id: ticketId, name: 'Early bird', price: 0, currency: 'USD', quantity: 3, visibility: 'public' },
+        ]);
+
+        const results = await bookInParallel(eventId, ticketId);
+        const { seatsTaken, ticketsSold, confirmed } = await getCounters(eventId);
+
+        assert.equal(results.filter((result) => result.success).length, 3);
+        assert.ok(results.filter((result) => !result.success).every((result) => result.message === API_MESSAGES.ERROR.TICKET_SOLD_OUT));
+        assert.equal(confirmed, 3);
+        assert.equal(seatsTaken, confirmed);
+        assert.equal(ticketsSold[ticketId], confirmed);
+    });
+});
+
+describe('createGroupBooking', () => {
+    dbTest('only books groups that fit entirely', async () => {
+        const eventId = await insertEvent(7);
+
+        const results = await Promise.all(Array.from({ length: ATTEMPTS }, (_, index) => actions.createGroupBooking({
+            eventId: eventId.toString(),
+            purchaser: { fullName: `Purchaser ${index}`, email: `purchaser${index}@example.com` },
+            attendees: [
+                { fullName: `Attendee ${index}a`, email: `attendee${index}a@example.com` },
+                { fullName: `Attendee ${index}b`, email: `attendee${index}b@example.com` },
+            ],
+        })));
+        const { seatsTaken, confirmed } = await getCounters(eventId);
+
+        // Three pairs fit; the last free seat cannot hold a fourth pair, and groups are never waitlisted
+        assert.equal(results.filter((result) => result.success).length, 3);
+        assert.ok(results.filter((result) => !result.success).every((result) => result.message === API_MESSAGES.ERROR.GROUP_SEATS_UNAVAILABLE));
+        assert.equal(confirmed, 6);
+        assert.equal(seatsTaken, confirmed);
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { zonedTimeToUtc } from '@/lib/timezone';
+
+/**
+ * zonedTimeToUtc around DST changes, east and west of UTC
+ * Times in a gap move forward by the gap's length; repeated times take their first occurrence
+ */
+
+const toUtc = (date: string, time: string, timeZone: string) => zonedTimeToUtc(date, time, timeZone).toISOString();
+
+describe('zonedTimeToUtc', () => {
+    it('converts ordinary times with the offset in effect', () => {
+        assert.equal(toUtc('2026-07-01', '12:00', 'Europe/Berlin'), '2026-07-01T10:00:00.000Z');
+        assert.equal(toUtc('2026-01-15', '12:00', 'America/New_York'), '2026-01-15T17:00:00.000Z');
+        assert.equal(toUtc('2026-07-01', '12:00', 'Asia/Kolkata'), '2026-07-01T06:30:00.000Z');
+    });
+
+    describe('Europe/Berlin', () => {
+        it('moves times in the spring gap forward', () => {
+            // 02:00 CET jumps to 03:00 CEST, so 02:30 is read as 03:30 CEST
+            assert.equal(toUtc('2026-03-29', '02:30', 'Europe/Berlin'), '2026-03-29T01:30:00.000Z');
+            assert.equal(toUtc('2026-03-29', '01:30', 'Europe/Berlin'), '2026-03-29T00:30:00.000Z');
+            assert.equal(toUtc('2026-03-29', '03:30', 'Europe/Berlin'), '2026-03-29T01:30:00.000Z');
+        });
+
+        it('reads repeated autumn times as their first occurrence', () => {
+            // 03:00 CEST falls back to 02:00 CET, so 02:30 happens twice; the CEST one comes first
+            assert.equal(toUtc('2026-10-25', '02:30', 'Europe/Berlin'), '2026-10-25T00:30:00.000Z');
+            assert.equal(toUtc('2026-10-25', '03:30', 'Europe/Berlin'), '2026-10-25T02:30:00.000Z');
+        });
+    });
+
+    describe('America/New_York', () => {
+        it('moves times in the spring gap forward', () => {
+            // 02:00 EST jumps to 03:00 EDT, so 02:30 is read as 03:30 EDT
+            assert.equal(toUtc('2026-03-08', '02:30', 'America/New_York'), '2026-03-08T07:30:00.000Z');
+            assert.equal(toUtc('2026-03-08', '01:30', 'America/New_York'), '2026-03-08T06:30:00.000Z');
+            assert.equal(toUtc('2026-03-08', '03:30', 'America/New_York'), '2026-03-08T07:30:00.000Z');
+        });
+
+        it('reads repeated autumn times as their first occurrence', () => {
+            // 02:00 EDT falls back to 01:00 EST, so 01:30 happens twice; the EDT one comes first
+            assert.equal(toUtc('2026-11-01', '01:30', 'America/New_York'), '2026-11-01T05:30:00.000Z');
+            assert.equal(toUtc('2026-11-01', '02:30', 'America/New_York'), '2026-11-01T07:30:00.000Z');
+        });
+    });
+});